@@ -1,36 +1,203 @@
-import React, { useState } from 'react';
-import { ShieldCheck, Cpu, BarChart3, AlertTriangle, CheckCircle2, RefreshCw, Code2, PlayCircle } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { ShieldCheck, Cpu, BarChart3, AlertTriangle, CheckCircle2, RefreshCw, Code2, PlayCircle, Highlighter, Settings, ArrowLeft, History, Square, GitCompare, FlaskConical } from 'lucide-react';
 import { FileUpload } from './components/FileUpload';
 import { ProbabilityBarChart, FeatureRadarChart } from './components/Charts';
 import { PythonCodeViewer } from './components/PythonCodeViewer';
-import { analyzeResume } from './services/geminiService';
-import { AnalysisResult, AppState } from './types';
+import { HighlightedText } from './components/HighlightedText';
+import { SettingsView } from './components/SettingsView';
+import { BatchResultsTable } from './components/BatchResultsTable';
+import { ExportMenu } from './components/ExportMenu';
+import { HistoryView } from './components/HistoryView';
+import { SectionBreakdown } from './components/SectionBreakdown';
+import { ExplanationPanel } from './components/ExplanationPanel';
+import { JobMatchPanel, SpecificityPanel } from './components/ContentSignals';
+import { SimilarityPanel } from './components/SimilarityPanel';
+import { OcrRegionsCard } from './components/OcrRegionsCard';
+import { CompareView } from './components/CompareView';
+import { EvaluationView } from './components/EvaluationView';
+import { compareInWorker, isAbortError } from './services/analysisWorkerClient';
+import { analyzeWithBackend } from './services/analysisBackends';
+import { BACKEND_KINDS } from './services/backendSettings';
+import { isUncalibrated } from './services/calibration';
+import { addSimilarity, createBatchItems, runBatch } from './services/batchAnalysis';
+import { withSimilarity } from './services/similarity';
+import { saveAnalysis } from './services/historyStore';
+import { inconclusiveLabel, isInconclusive } from './services/uncertainty';
+import {
+  buildBatchJsonReport, buildCsv, buildJsonReport, buildPrintableReport,
+  collectChartSvgs, downloadFile, printReport, reportBaseName
+} from './services/reportExport';
+import { AnalysisProgress, AnalysisResult, AppState, BatchItem, HistoryRecord, OcrReport, SimilaritySignature } from './types';
+
+type ViewMode = 'demo' | 'compare' | 'history' | 'evaluate' | 'code' | 'settings';
+
+const VIEW_TABS: { id: ViewMode; label: string; icon: typeof PlayCircle }[] = [
+  { id: 'demo', label: 'Live Demo', icon: PlayCircle },
+  { id: 'compare', label: 'Compare', icon: GitCompare },
+  { id: 'history', label: 'History', icon: History },
+  { id: 'evaluate', label: 'Evaluate', icon: FlaskConical },
+  { id: 'code', label: 'Python Code', icon: Code2 },
+  { id: 'settings', label: 'Settings', icon: Settings }
+];
+
+// History is an audit aid; failing to save must never block the analysis itself.
+const recordInHistory = (
+  result: AnalysisResult,
+  text: string,
+  fileName?: string,
+  jobDescription?: string,
+  signature?: SimilaritySignature
+) => {
+  saveAnalysis(result, text, fileName, jobDescription, signature).catch(err => console.warn("Could not save analysis to history:", err));
+};
 
 function App() {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [analyzedText, setAnalyzedText] = useState<string>('');
+  const [analyzedFileName, setAnalyzedFileName] = useState<string | undefined>(undefined);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
   const [errorMsg, setErrorMsg] = useState<string>('');
-  const [viewMode, setViewMode] = useState<'demo' | 'code'>('demo');
+  const [viewMode, setViewMode] = useState<ViewMode>('demo');
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const chartsRef = useRef<HTMLDivElement>(null);
+  // Controls whichever analysis or batch is currently running
+  const abortRef = useRef<AbortController | null>(null);
+
+  const startRun = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller;
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  };
 
-  const handleAnalyze = async (text: string) => {
+  const handleAnalyze = async (text: string, fileName?: string, ocr?: OcrReport, jobDescription?: string) => {
+    const controller = startRun();
     setAppState(AppState.ANALYZING);
     setErrorMsg('');
+    setProgress(null);
 
     try {
-      // Local analysis service (No API key required)
-      const data = await analyzeResume(text);
+      // Local Web Worker by default; Settings can route the verdict to a remote backend
+      const analyzed = await analyzeWithBackend(text, { ocr, jobDescription, signal: controller.signal, onProgress: setProgress });
+      // Near-duplicates among the saved history, also in the worker
+      const current = {
+        id: 'current', name: fileName ?? 'Pasted text', source: 'current' as const, text, contentHash: analyzed.contentHash
+      };
+      const { reports, signatures } = await compareInWorker([current], [], { signal: controller.signal, onProgress: setProgress });
+      const data = withSimilarity(analyzed, reports.get(current.id)!);
+      recordInHistory(data, text, fileName, jobDescription, signatures.get(current.id));
+      setAnalyzedText(text);
+      setAnalyzedFileName(fileName);
       setResult(data);
       setAppState(AppState.RESULTS);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        setAppState(AppState.IDLE);
+        return;
+      }
       console.error(err);
       setErrorMsg(err.message || "An error occurred during analysis.");
       setAppState(AppState.ERROR);
+    } finally {
+      setProgress(null);
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const handleAnalyzeBatch = async (files: File[], jobDescription?: string) => {
+    const controller = startRun();
+    setErrorMsg('');
+    try {
+      const { items, files: resumes } = await createBatchItems(files);
+      if (items.length === 0) {
+        throw new Error("No supported resume files (PDF, DOCX, TXT) were found in the selection.");
+      }
+      setBatchItems(items);
+      setAppState(AppState.BATCH);
+      const finished = await runBatch(items, resumes, (updated) => {
+        setBatchItems(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+      }, { jobDescription, signal: controller.signal });
+      // Near-duplicates can only be found once the whole batch is in, so the
+      // history records wait for them (files finished before a cancel included)
+      const { items: compared, signatures } = await addSimilarity(finished);
+      compared.forEach(item => {
+        if (item.status === 'done' && item.result) {
+          recordInHistory(item.result, item.text ?? '', item.fileName, jobDescription, signatures.get(item.id));
+        }
+      });
+      // Cancelled or superseded meanwhile: the table belongs to the newer state
+      if (controller.signal.aborted) return;
+      setBatchItems(compared);
+    } catch (err: any) {
+      console.error(err);
+      setErrorMsg(err.message || "Could not read the selected files.");
+      setAppState(AppState.ERROR);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
+  const handleSelectBatchItem = (item: BatchItem) => {
+    if (!item.result) return;
+    setResult(item.result);
+    setAnalyzedText(item.text ?? '');
+    setAnalyzedFileName(item.fileName);
+    setAppState(AppState.RESULTS);
+  };
+
+  const handleOpenHistory = (record: HistoryRecord) => {
+    setBatchItems([]);
+    setResult(record.result);
+    setAnalyzedText(record.text);
+    setAnalyzedFileName(record.fileName ?? undefined);
+    setAppState(AppState.RESULTS);
+    setViewMode('demo');
+  };
+
+  const handleReanalyzeHistory = (record: HistoryRecord) => {
+    setBatchItems([]);
+    setViewMode('demo');
+    handleAnalyze(record.text, record.fileName ?? undefined, record.result.ocr, record.jobDescription);
+  };
+
+  const handleBackToBatch = () => {
+    setAppState(AppState.BATCH);
+    setResult(null);
+  };
+
   const handleReset = () => {
+    handleCancel();
     setAppState(AppState.IDLE);
     setResult(null);
+    setAnalyzedText('');
+    setAnalyzedFileName(undefined);
+    setBatchItems([]);
+  };
+
+  const handleExportPdf = () => {
+    if (!result) return;
+    const source = { text: analyzedText, fileName: analyzedFileName };
+    printReport(buildPrintableReport(result, source, collectChartSvgs(chartsRef.current)));
+  };
+
+  const handleExportJson = () => {
+    if (!result) return;
+    const report = buildJsonReport(result, { text: analyzedText, fileName: analyzedFileName });
+    downloadFile(JSON.stringify(report, null, 2), `${reportBaseName(result, analyzedFileName)}.json`, 'application/json');
+  };
+
+  const handleExportBatchJson = () => {
+    downloadFile(JSON.stringify(buildBatchJsonReport(batchItems), null, 2), 'resumeguard-batch.json', 'application/json');
+  };
+
+  const handleExportBatchCsv = () => {
+    downloadFile(buildCsv(batchItems), 'resumeguard-batch.csv', 'text/csv');
   };
 
   return (
@@ -50,28 +217,20 @@ function App() {
           <div className="flex items-center space-x-4">
             {/* View Toggle */}
             <div className="hidden md:flex bg-slate-100 p-1 rounded-lg border border-slate-200">
-              <button
-                onClick={() => setViewMode('demo')}
-                className={`flex items-center space-x-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
-                  viewMode === 'demo' 
-                    ? 'bg-white text-blue-600 shadow-sm' 
-                    : 'text-slate-500 hover:text-slate-700'
-                }`}
-              >
-                <PlayCircle size={16} />
-                <span>Live Demo</span>
-              </button>
-              <button
-                onClick={() => setViewMode('code')}
-                className={`flex items-center space-x-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
-                  viewMode === 'code' 
-                    ? 'bg-white text-blue-600 shadow-sm' 
-                    : 'text-slate-500 hover:text-slate-700'
-                }`}
-              >
-                <Code2 size={16} />
-                <span>Python Code</span>
-              </button>
+              {VIEW_TABS.map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => setViewMode(id)}
+                  className={`flex items-center space-x-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                    viewMode === id 
+                      ? 'bg-white text-blue-600 shadow-sm' 
+                      : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  <Icon size={16} />
+                  <span>{label}</span>
+                </button>
+              ))}
             </div>
           </div>
         </div>
@@ -79,25 +238,19 @@ function App() {
 
       {/* Mobile Toggle (Visible only on small screens) */}
       <div className="md:hidden px-4 py-2 bg-white border-b border-slate-200 flex justify-center">
-        <div className="bg-slate-100 p-1 rounded-lg border border-slate-200 w-full max-w-xs flex">
-          <button
-            onClick={() => setViewMode('demo')}
-            className={`flex-1 flex items-center justify-center space-x-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
-              viewMode === 'demo' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'
-            }`}
-          >
-            <PlayCircle size={16} />
-            <span>Live Demo</span>
-          </button>
-          <button
-            onClick={() => setViewMode('code')}
-            className={`flex-1 flex items-center justify-center space-x-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
-              viewMode === 'code' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'
-            }`}
-          >
-            <Code2 size={16} />
-            <span>Python Code</span>
-          </button>
+        <div className="bg-slate-100 p-1 rounded-lg border border-slate-200 w-full max-w-md flex">
+          {VIEW_TABS.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setViewMode(id)}
+              className={`flex-1 flex items-center justify-center space-x-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                viewMode === id ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'
+              }`}
+            >
+              <Icon size={16} />
+              <span>{label}</span>
+            </button>
+          ))}
         </div>
       </div>
 
@@ -105,6 +258,14 @@ function App() {
         
         {viewMode === 'code' ? (
           <PythonCodeViewer />
+        ) : viewMode === 'compare' ? (
+          <CompareView />
+        ) : viewMode === 'evaluate' ? (
+          <EvaluationView />
+        ) : viewMode === 'history' ? (
+          <HistoryView onOpen={handleOpenHistory} onReanalyze={handleReanalyzeHistory} />
+        ) : viewMode === 'settings' ? (
+          <SettingsView />
         ) : (
           <>
             {/* State: IDLE or ANALYZING */}
@@ -119,7 +280,41 @@ function App() {
                   </p>
                 </div>
 
-                <FileUpload onAnalyze={handleAnalyze} isAnalyzing={appState === AppState.ANALYZING} />
+                <FileUpload
+                  onAnalyze={handleAnalyze}
+                  onAnalyzeBatch={handleAnalyzeBatch}
+                  onCancel={handleCancel}
+                  isAnalyzing={appState === AppState.ANALYZING}
+                  progress={progress}
+                />
+              </div>
+            )}
+
+            {/* State: BATCH */}
+            {appState === AppState.BATCH && (
+              <div className="space-y-8 animate-fade-in">
+                <div className="flex justify-end">
+                  <ExportMenu onExportJson={handleExportBatchJson} onExportCsv={handleExportBatchCsv} />
+                </div>
+                <BatchResultsTable items={batchItems} onSelect={handleSelectBatchItem} />
+                <div className="flex justify-center gap-4 pb-12">
+                  {batchItems.some(item => item.status !== 'done' && item.status !== 'error') && (
+                    <button
+                      onClick={handleCancel}
+                      className="flex items-center space-x-2 px-6 py-3 bg-white border border-red-200 rounded-full text-red-600 font-medium hover:bg-red-50 hover:shadow-md transition-all"
+                    >
+                      <Square size={18} />
+                      <span>Stop Screening</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={handleReset}
+                    className="flex items-center space-x-2 px-6 py-3 bg-white border border-slate-300 rounded-full text-slate-700 font-medium hover:bg-slate-50 hover:shadow-md transition-all"
+                  >
+                    <RefreshCw size={18} />
+                    <span>Start a New Screening</span>
+                  </button>
+                </div>
               </div>
             )}
 
@@ -143,21 +338,72 @@ function App() {
             {/* State: RESULTS */}
             {appState === AppState.RESULTS && result && (
               <div className="space-y-8 animate-fade-in">
+                <div className="flex justify-end">
+                  <ExportMenu onExportPdf={handleExportPdf} onExportJson={handleExportJson} />
+                </div>
+
                 {/* Top Bar: Verdict */}
                 <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
-                  <div className={`p-1 h-2 w-full ${result.isAiGenerated ? 'bg-red-500' : 'bg-green-500'}`}></div>
+                  <div className={`p-1 h-2 w-full ${isInconclusive(result) ? 'bg-slate-400' : result.isAiGenerated ? 'bg-red-500' : 'bg-green-500'}`}></div>
                   <div className="p-8 md:p-10 flex flex-col md:flex-row items-center md:items-start justify-between gap-8">
                     <div className="flex-1">
                       <div className="flex items-center gap-3 mb-2">
-                        <span className={`px-3 py-1 rounded-full text-sm font-bold tracking-wide uppercase ${
-                          result.isAiGenerated ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
-                        }`}>
-                          {result.isAiGenerated ? 'AI Generated' : 'Human Written'}
-                        </span>
-                        <span className="text-slate-400 text-sm">Confidence: {(Math.max(result.aiProbability, result.humanProbability)).toFixed(0)}%</span>
+                        {isInconclusive(result) ? (
+                          <span className="px-3 py-1 rounded-full text-sm font-bold tracking-wide uppercase bg-slate-100 text-slate-600" title={inconclusiveLabel(result)}>
+                            Inconclusive
+                          </span>
+                        ) : (
+                          <span className={`px-3 py-1 rounded-full text-sm font-bold tracking-wide uppercase ${
+                            result.isAiGenerated ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+                          }`}>
+                            {result.isAiGenerated ? 'AI Generated' : 'Human Written'}
+                          </span>
+                        )}
+                        {/* Results from before analyzer 1.9.0 have no interval */}
+                        {result.interval ? (
+                          <span
+                            className="text-slate-400 text-sm"
+                            title={`Bootstrap over ${result.interval.sentenceCount} sentences (${result.interval.resamples} resamples)`}
+                          >
+                            {Math.round(result.interval.level * 100)}% interval: {result.interval.lower}–{result.interval.upper}% AI
+                          </span>
+                        ) : !isInconclusive(result) && (
+                          <span className="text-slate-400 text-sm">Confidence: {(Math.max(result.aiProbability, result.humanProbability)).toFixed(0)}%</span>
+                        )}
                       </div>
                       <h2 className="text-3xl font-bold text-slate-900 mb-4">{result.verdictHeadline}</h2>
                       <p className="text-slate-600 text-lg leading-relaxed">{result.summary}</p>
+                      <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-400 font-mono">
+                        <span>Analyzer v{result.analyzerVersion}</span>
+                        <span title={result.contentHash}>{result.contentHash.slice(0, 19)}…</span>
+                        {result.language && (
+                          <span title={`Detection confidence ${Math.round(result.language.confidence * 100)}%`}>{result.language.name}</span>
+                        )}
+                        {result.calibration && result.calibration !== 'none' && (
+                          <span title={`Raw ensemble score ${result.rawProbability}%`}>Calibrated ({result.calibration})</span>
+                        )}
+                        {isUncalibrated(result) && (
+                          <span className="px-2 py-0.5 rounded bg-amber-50 text-amber-700 border border-amber-100 font-sans" title="The AI probability is the raw ensemble score; fit a calibration under Evaluate to map it to observed rates">
+                            Uncalibrated
+                          </span>
+                        )}
+                        {result.classifier && (
+                          <span title="Scored by a custom classifier (Settings)">Classifier: {result.classifier}</span>
+                        )}
+                        {result.backend && result.backend.id !== 'local' && (
+                          <span>Scored by {BACKEND_KINDS[result.backend.id]}</span>
+                        )}
+                        {result.backend?.fallbackReason && (
+                          <span className="px-2 py-0.5 rounded bg-amber-50 text-amber-700 border border-amber-100 font-sans" title={result.backend.fallbackReason}>
+                            Local fallback ({BACKEND_KINDS[result.backend.requested]} unreachable)
+                          </span>
+                        )}
+                        {result.scoringMode === 'seeded-noise' && (
+                          <span className="px-2 py-0.5 rounded bg-amber-50 text-amber-700 border border-amber-100 font-sans">
+                            Demo noise (seed {result.noiseSeed})
+                          </span>
+                        )}
+                      </div>
                     </div>
                     
                     <div className="flex-shrink-0 text-center">
@@ -168,26 +414,39 @@ function App() {
                             cx="64" cy="64" r="56" stroke="currentColor" strokeWidth="12" fill="transparent" 
                             strokeDasharray={351.86} 
                             strokeDashoffset={351.86 - (351.86 * result.aiProbability) / 100} 
-                            className={result.isAiGenerated ? 'text-red-500' : 'text-green-500'}
+                            className={isInconclusive(result) ? 'text-slate-400' : result.isAiGenerated ? 'text-red-500' : 'text-green-500'}
                           />
+                          {result.interval && (
+                            <circle
+                              cx="64" cy="64" r="46" stroke="currentColor" strokeWidth="3" fill="transparent" strokeLinecap="round"
+                              strokeDasharray={`${(289.03 * (result.interval.upper - result.interval.lower)) / 100} 289.03`}
+                              strokeDashoffset={(-289.03 * result.interval.lower) / 100}
+                              className="text-slate-400"
+                            />
+                          )}
                         </svg>
                         <div className="absolute top-0 left-0 w-full h-full flex flex-col items-center justify-center">
                           <span className="text-3xl font-bold text-slate-900">{result.aiProbability}%</span>
                           <span className="text-xs text-slate-500 uppercase font-semibold">AI Prob</span>
                         </div>
                       </div>
+                      {result.interval && (
+                        <div className="mt-1 text-xs text-slate-400 font-mono">
+                          {result.interval.lower}–{result.interval.upper}%
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
 
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                   {/* Left Col: Charts */}
-                  <div className="lg:col-span-1 space-y-8">
+                  <div ref={chartsRef} className="lg:col-span-1 space-y-8">
                     <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
                       <h3 className="text-lg font-semibold text-slate-800 mb-6 flex items-center gap-2">
                         <BarChart3 size={20} className="text-blue-500"/> Probability Split
                       </h3>
-                      <ProbabilityBarChart aiProb={result.aiProbability} humanProb={result.humanProbability} />
+                      <ProbabilityBarChart aiProb={result.aiProbability} humanProb={result.humanProbability} interval={result.interval} />
                     </div>
                     
                     <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
@@ -196,7 +455,7 @@ function App() {
                       </h3>
                       <FeatureRadarChart analysis={result.linguisticAnalysis} />
                       <div className="mt-4 text-xs text-slate-400 text-center">
-                        High scores generally indicate human-like variance (Burstiness, Perplexity)
+                        High scores indicate human-like writing on every axis
                       </div>
                     </div>
                   </div>
@@ -231,6 +490,20 @@ function App() {
                       />
                     </div>
 
+                    {/* Absent for inconclusive results, remote backends and older history entries */}
+                    {result.explanation && <ExplanationPanel explanation={result.explanation} />}
+
+                    {result.similarity && result.similarity.sharedWith > 0 && <SimilarityPanel similarity={result.similarity} />}
+
+                    {result.jobMatch && <JobMatchPanel jobMatch={result.jobMatch} />}
+
+                    {result.specificity && <SpecificityPanel specificity={result.specificity} />}
+
+                    {/* Results reopened from older history entries may predate sections */}
+                    {result.sections && <SectionBreakdown sections={result.sections} />}
+
+                    {result.ocr && <OcrRegionsCard ocr={result.ocr} />}
+
                     {/* Analysis Breakdown */}
                     <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
                       <h3 className="text-xl font-bold text-slate-900 mb-6">Forensic Analysis</h3>
@@ -247,6 +520,23 @@ function App() {
                           </div>
                         </div>
 
+                        <div className="border-t border-slate-100 pt-6">
+                          <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Detector Contributions</h4>
+                          <div className="space-y-3">
+                            {result.detectors.map((detector) => (
+                              <div key={detector.id} className="flex items-center gap-4 text-sm">
+                                <span className="w-40 font-medium text-slate-700">{detector.name}</span>
+                                <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                                  <div className="h-full bg-indigo-500" style={{ width: `${detector.contribution}%` }} />
+                                </div>
+                                <span className="w-32 text-right text-slate-500 font-mono text-xs">
+                                  +{detector.contribution.toFixed(1)} pts · {Math.round(detector.confidence * 100)}%
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+
                         <div className="border-t border-slate-100 pt-6">
                            <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Improvement Suggestions</h4>
                            <ul className="space-y-3">
@@ -263,7 +553,24 @@ function App() {
                   </div>
                 </div>
 
-                <div className="flex justify-center pb-12">
+                {/* Sentence-level heat map */}
+                <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+                  <h3 className="text-xl font-bold text-slate-900 mb-6 flex items-center gap-2">
+                    <Highlighter size={20} className="text-orange-500" /> Highlighted Resume
+                  </h3>
+                  <HighlightedText text={analyzedText} sentences={result.sentenceScores} highlights={result.highlights} sharedPassages={result.similarity?.passages} />
+                </div>
+
+                <div className="flex justify-center gap-4 pb-12">
+                  {batchItems.length > 0 && (
+                    <button
+                      onClick={handleBackToBatch}
+                      className="flex items-center space-x-2 px-6 py-3 bg-white border border-slate-300 rounded-full text-slate-700 font-medium hover:bg-slate-50 hover:shadow-md transition-all"
+                    >
+                      <ArrowLeft size={18} />
+                      <span>Back to Batch Results</span>
+                    </button>
+                  )}
                   <button
                     onClick={handleReset}
                     className="flex items-center space-x-2 px-6 py-3 bg-white border border-slate-300 rounded-full text-slate-700 font-medium hover:bg-slate-50 hover:shadow-md transition-all"
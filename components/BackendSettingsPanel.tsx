@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Server, RotateCcw, PlugZap, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { BackendKind, BackendSettings } from '../types';
+import { BACKEND_KINDS, loadBackendSettings, resetBackendSettings, saveBackendSettings } from '../services/backendSettings';
+import { testBackendConnection } from '../services/analysisBackends';
+
+const BACKEND_DESCRIPTIONS: Record<BackendKind, string> = {
+  local: 'Heuristic ensemble in a Web Worker. Nothing leaves this browser.',
+  http: 'A service implementing POST /analyze, such as npm run serve or the Python reference service.',
+  llm: 'Asks a Gemini model for the verdict. The resume text is sent to Google.'
+};
+
+const inputClass = 'w-full px-3 py-2 border border-slate-200 rounded-lg text-sm text-slate-700 bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export const BackendSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<BackendSettings>(() => loadBackendSettings());
+  const [test, setTest] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const update = (patch: Partial<BackendSettings>) => {
+    setSettings(saveBackendSettings({ ...settings, ...patch }));
+    setTest(null);
+  };
+
+  const handleTest = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsTesting(true);
+    setTest(null);
+    try {
+      setTest({ ok: true, message: await testBackendConnection(settings, controller.signal) });
+    } catch (err: any) {
+      if (!controller.signal.aborted) setTest({ ok: false, message: err.message || 'Connection failed.' });
+    } finally {
+      setIsTesting(false);
+      abortRef.current = null;
+    }
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <Server size={20} className="text-blue-500" /> Analysis Backend
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            Which engine decides the verdict. Highlights and charts always come from the local engine.
+          </p>
+        </div>
+        <button onClick={() => { setSettings(resetBackendSettings()); setTest(null); }} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-slate-200 text-sm text-slate-600 hover:bg-slate-50">
+          <RotateCcw size={14} /> Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+        {(Object.keys(BACKEND_KINDS) as BackendKind[]).map(kind => (
+          <label
+            key={kind}
+            className={`p-4 rounded-xl border cursor-pointer transition-colors ${
+              settings.kind === kind ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+            }`}
+          >
+            <div className="flex items-center gap-2 font-semibold text-slate-800 text-sm">
+              <input type="radio" name="backend" checked={settings.kind === kind} onChange={() => update({ kind })} />
+              {BACKEND_KINDS[kind]}
+            </div>
+            <p className="text-xs text-slate-500 mt-1">{BACKEND_DESCRIPTIONS[kind]}</p>
+          </label>
+        ))}
+      </div>
+
+      {settings.kind !== 'local' && (
+        <div className="space-y-4">
+          {settings.kind === 'http' ? (
+            <div>
+              <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Service URL</h4>
+              <input
+                type="url"
+                value={settings.httpUrl}
+                onChange={(e) => update({ httpUrl: e.target.value })}
+                placeholder="http://localhost:8000"
+                className={inputClass}
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Model</h4>
+                <input type="text" value={settings.llmModel} onChange={(e) => update({ llmModel: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">API Key</h4>
+                <input
+                  type="password"
+                  value={settings.llmApiKey}
+                  onChange={(e) => update({ llmApiKey: e.target.value })}
+                  placeholder="Uses GEMINI_API_KEY from the build when empty"
+                  className={inputClass}
+                  autoComplete="off"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Timeout (seconds)</h4>
+              <input
+                type="number"
+                min={1}
+                value={settings.timeoutMs / 1000}
+                onChange={(e) => update({ timeoutMs: Number(e.target.value) * 1000 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Retries</h4>
+              <input
+                type="number"
+                min={0}
+                max={5}
+                value={settings.retries}
+                onChange={(e) => update({ retries: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-700 pb-2">
+              <input type="checkbox" checked={settings.fallbackToLocal} onChange={(e) => update({ fallbackToLocal: e.target.checked })} />
+              Use the local engine when unreachable
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 pt-2">
+            <button
+              onClick={handleTest}
+              disabled={isTesting}
+              className="flex items-center gap-2 px-4 py-2 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              {isTesting ? <Loader2 size={16} className="animate-spin" /> : <PlugZap size={16} />}
+              Test Connection
+            </button>
+            {test && (
+              <span className={`flex items-center gap-2 text-sm ${test.ok ? 'text-green-700' : 'text-red-600'}`}>
+                {test.ok ? <CheckCircle2 size={16} /> : <AlertCircle size={16} />} {test.message}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Loader2, AlertCircle, Search, Users } from 'lucide-react';
+import { BatchItem } from '../types';
+import { inconclusiveLabel, isInconclusive } from '../services/uncertainty';
+
+interface BatchResultsTableProps {
+  items: BatchItem[];
+  onSelect: (item: BatchItem) => void;
+}
+
+type SortKey = 'fileName' | 'aiProbability' | 'burstinessScore' | 'vocabularyRichness' | 'flags';
+
+const NO_ANOMALY_FLAG = "No significant AI anomalies detected";
+
+const realFlags = (item: BatchItem) => (item.result?.flags ?? []).filter(f => f !== NO_ANOMALY_FLAG);
+
+const sortValue = (item: BatchItem, key: SortKey): number | string => {
+  if (key === 'fileName') return item.fileName.toLowerCase();
+  if (!item.result) return -1;
+  if (key === 'aiProbability') return item.result.aiProbability;
+  if (key === 'flags') return realFlags(item).length;
+  return item.result.linguisticAnalysis[key];
+};
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'fileName', label: 'File' },
+  { key: 'aiProbability', label: 'AI Prob' },
+  { key: 'burstinessScore', label: 'Burstiness' },
+  { key: 'vocabularyRichness', label: 'Vocab' },
+  { key: 'flags', label: 'Flags' }
+];
+
+export const BatchResultsTable: React.FC<BatchResultsTableProps> = ({ items, onSelect }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('aiProbability');
+  const [sortDesc, setSortDesc] = useState(true);
+  const [query, setQuery] = useState('');
+  const [minAiProb, setMinAiProb] = useState(0);
+  const [flagFilter, setFlagFilter] = useState('');
+
+  const completed = items.filter(i => i.status === 'done' || i.status === 'error').length;
+  const allFlags = useMemo(() => Array.from(new Set(items.flatMap(realFlags))).sort(), [items]);
+
+  const rows = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return items
+      .filter(item => !q || item.fileName.toLowerCase().includes(q) || realFlags(item).some(f => f.toLowerCase().includes(q)))
+      .filter(item => minAiProb === 0 || (item.result?.aiProbability ?? 0) >= minAiProb)
+      .filter(item => !flagFilter || realFlags(item).includes(flagFilter))
+      .sort((a, b) => {
+        const va = sortValue(a, sortKey);
+        const vb = sortValue(b, sortKey);
+        const cmp = va < vb ? -1 : va > vb ? 1 : 0;
+        return sortDesc ? -cmp : cmp;
+      });
+  }, [items, query, minAiProb, flagFilter, sortKey, sortDesc]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      setSortDesc(key !== 'fileName');
+    }
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+          <Users size={20} className="text-blue-500" /> Batch Results
+          <span className="text-sm font-medium text-slate-400">{completed} / {items.length} processed</span>
+        </h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <div className="relative">
+            <Search size={14} className="absolute left-2.5 top-2.5 text-slate-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search files or flags"
+              className="pl-8 pr-3 py-1.5 border border-slate-200 rounded-lg"
+            />
+          </div>
+          <select value={flagFilter} onChange={(e) => setFlagFilter(e.target.value)} className="px-2 py-1.5 border border-slate-200 rounded-lg text-slate-600 max-w-[14rem]">
+            <option value="">All flags</option>
+            {allFlags.map(flag => <option key={flag} value={flag}>{flag}</option>)}
+          </select>
+          <label className="flex items-center gap-2 text-slate-600">
+            AI ≥ {minAiProb}%
+            <input type="range" min={0} max={100} step={5} value={minAiProb} onChange={(e) => setMinAiProb(Number(e.target.value))} />
+          </label>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+            <tr>
+              {COLUMNS.map(({ key, label }) => (
+                <th key={key} className="px-3 py-2 text-left">
+                  <button onClick={() => toggleSort(key)} className="flex items-center gap-1 font-semibold uppercase hover:text-slate-800">
+                    {label}
+                    {sortKey === key && (sortDesc ? <ArrowDown size={12} /> : <ArrowUp size={12} />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(item => (
+              <tr
+                key={item.id}
+                onClick={() => item.result && onSelect(item)}
+                className={`border-t border-slate-100 ${item.result ? 'cursor-pointer hover:bg-blue-50' : ''}`}
+              >
+                <td className="px-3 py-2 font-medium text-slate-700">
+                  <div className="truncate max-w-xs" title={item.fileName}>{item.fileName}</div>
+                  {item.result?.similarity?.cluster && (
+                    <span
+                      className="mt-1 inline-block px-1.5 py-0.5 rounded bg-violet-50 text-violet-700 border border-violet-100 text-xs"
+                      title={`Near-duplicate of ${item.result.similarity.matches.map(m => m.name).join(', ')}`}
+                    >
+                      {item.result.similarity.cluster}
+                    </span>
+                  )}
+                  {item.status !== 'done' && item.status !== 'error' && (
+                    <div className="mt-1 flex items-center gap-2 text-xs text-slate-400">
+                      <Loader2 size={12} className={item.status === 'queued' ? '' : 'animate-spin'} />
+                      <span className="capitalize">{item.status}</span>
+                      <div className="w-24 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-500 transition-all" style={{ width: `${item.progress}%` }} />
+                      </div>
+                    </div>
+                  )}
+                  {item.status === 'error' && (
+                    <div className="mt-1 flex items-center gap-1 text-xs text-red-600"><AlertCircle size={12} /> {item.error}</div>
+                  )}
+                </td>
+                <td className="px-3 py-2">
+                  {item.result && (
+                    <span
+                      className={`font-bold ${isInconclusive(item.result) ? 'text-slate-400' : item.result.isAiGenerated ? 'text-red-600' : 'text-green-600'}`}
+                      title={isInconclusive(item.result) ? `Inconclusive: ${inconclusiveLabel(item.result).toLowerCase()}` : undefined}
+                    >
+                      {item.result.aiProbability}%
+                    </span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-slate-600">{item.result?.linguisticAnalysis.burstinessScore}</td>
+                <td className="px-3 py-2 text-slate-600">{item.result?.linguisticAnalysis.vocabularyRichness}</td>
+                <td className="px-3 py-2">
+                  <div className="flex flex-wrap gap-1">
+                    {realFlags(item).map(flag => (
+                      <span key={flag} className="px-2 py-0.5 rounded bg-orange-50 text-orange-700 text-xs border border-orange-100">{flag}</span>
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr><td colSpan={COLUMNS.length} className="px-3 py-8 text-center text-slate-400">No resumes match the current filters.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -12,18 +12,31 @@ import {
   PolarGrid,
   PolarAngleAxis,
   PolarRadiusAxis,
-  Cell
+  Cell,
+  Legend,
+  LineChart,
+  Line,
+  ReferenceLine,
+  ErrorBar
 } from 'recharts';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, ClassificationMetrics, ConfidenceInterval, Explanation } from '../types';
+import { STYLOMETRY_FEATURES } from '../services/stylometry';
 
 interface ChartsProps {
   data: AnalysisResult;
 }
 
-export const ProbabilityBarChart: React.FC<{ aiProb: number; humanProb: number }> = ({ aiProb, humanProb }) => {
+interface ProbabilityBarChartProps {
+  aiProb: number;
+  humanProb: number;
+  // Drawn as error bars; the human interval mirrors the AI one
+  interval?: Pick<ConfidenceInterval, 'lower' | 'upper'>;
+}
+
+export const ProbabilityBarChart: React.FC<ProbabilityBarChartProps> = ({ aiProb, humanProb, interval }) => {
   const chartData = [
-    { name: 'AI Generated', value: aiProb, color: '#ef4444' },
-    { name: 'Human Written', value: humanProb, color: '#22c55e' },
+    { name: 'AI Generated', value: aiProb, color: '#ef4444', error: interval && [aiProb - interval.lower, interval.upper - aiProb] },
+    { name: 'Human Written', value: humanProb, color: '#22c55e', error: interval && [interval.upper - aiProb, aiProb - interval.lower] },
   ];
 
   return (
@@ -45,6 +58,7 @@ export const ProbabilityBarChart: React.FC<{ aiProb: number; humanProb: number }
             {chartData.map((entry, index) => (
               <Cell key={`cell-${index}`} fill={entry.color} />
             ))}
+            {interval && <ErrorBar dataKey="error" width={8} strokeWidth={2} stroke="#334155" />}
           </Bar>
         </BarChart>
       </ResponsiveContainer>
@@ -52,29 +66,52 @@ export const ProbabilityBarChart: React.FC<{ aiProb: number; humanProb: number }
   );
 };
 
-export const FeatureRadarChart: React.FC<{ analysis: AnalysisResult['linguisticAnalysis'] }> = ({ analysis }) => {
+interface FeatureRadarChartProps {
+  analysis: AnalysisResult['linguisticAnalysis'];
+  // Optional second dataset drawn over the first, e.g. a revised resume
+  comparison?: AnalysisResult['linguisticAnalysis'];
+  names?: [string, string];
+}
+
+export const FeatureRadarChart: React.FC<FeatureRadarChartProps> = ({ analysis, comparison, names = ['Original', 'Revised'] }) => {
   const data = [
-    { subject: 'Perplexity', A: analysis.perplexityScore, fullMark: 100 },
-    { subject: 'Burstiness', A: analysis.burstinessScore, fullMark: 100 },
-    { subject: 'Vocab Richness', A: analysis.vocabularyRichness, fullMark: 100 },
-    { subject: 'Sentence Variety', A: analysis.sentenceVariety, fullMark: 100 },
+    { subject: 'Perplexity', A: analysis.perplexityScore, B: comparison?.perplexityScore, fullMark: 100 },
+    { subject: 'Burstiness', A: analysis.burstinessScore, B: comparison?.burstinessScore, fullMark: 100 },
+    { subject: 'Vocab Richness', A: analysis.vocabularyRichness, B: comparison?.vocabularyRichness, fullMark: 100 },
+    { subject: 'Sentence Variety', A: analysis.sentenceVariety, B: comparison?.sentenceVariety, fullMark: 100 },
+    // Stylometry axes, for results from analyzer 1.10.0 on and the features measured for the language
+    ...STYLOMETRY_FEATURES
+      .filter(({ key }) => analysis.stylometry?.[key] !== undefined)
+      .map(({ key, label }) => ({ subject: label, A: analysis.stylometry![key]!, B: comparison?.stylometry?.[key], fullMark: 100 })),
   ];
+  const crowded = data.length > 6;
 
   return (
-    <div className="h-64 w-full">
+    <div className={`${crowded ? 'h-96' : 'h-64'} w-full`}>
       <ResponsiveContainer width="100%" height="100%">
-        <RadarChart cx="50%" cy="50%" outerRadius="80%" data={data}>
+        <RadarChart cx="50%" cy="50%" outerRadius={crowded ? '70%' : '80%'} data={data}>
           <PolarGrid stroke="#e2e8f0" />
-          <PolarAngleAxis dataKey="subject" tick={{ fill: '#64748b', fontSize: 12 }} />
+          <PolarAngleAxis dataKey="subject" tick={{ fill: '#64748b', fontSize: crowded ? 10 : 12 }} />
           <PolarRadiusAxis angle={30} domain={[0, 100]} tick={false} axisLine={false} />
           <Radar
-            name="Score"
+            name={comparison ? names[0] : 'Score'}
             dataKey="A"
             stroke="#3b82f6"
             strokeWidth={3}
             fill="#3b82f6"
             fillOpacity={0.3}
           />
+          {comparison && (
+            <Radar
+              name={names[1]}
+              dataKey="B"
+              stroke="#f97316"
+              strokeWidth={3}
+              fill="#f97316"
+              fillOpacity={0.2}
+            />
+          )}
+          {comparison && <Legend wrapperStyle={{ fontSize: 12 }} />}
           <Tooltip 
              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
           />
@@ -82,4 +119,134 @@ export const FeatureRadarChart: React.FC<{ analysis: AnalysisResult['linguisticA
       </ResponsiveContainer>
     </div>
   );
-};
\ No newline at end of file
+};
+
+// ROC curves for one or more scorings of the same corpus; the diagonal is chance.
+export const RocCurveChart: React.FC<{ series: { name: string; color: string; metrics: ClassificationMetrics }[] }> = ({ series }) => (
+  <div className="h-64 w-full">
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart margin={{ top: 5, right: 20, left: 0, bottom: 15 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+        <XAxis dataKey="x" type="number" domain={[0, 1]} tick={{ fontSize: 11 }} label={{ value: 'False positive rate', position: 'insideBottom', offset: -10, fontSize: 11 }} />
+        <YAxis type="number" domain={[0, 1]} tick={{ fontSize: 11 }} />
+        <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#cbd5e1" strokeDasharray="4 4" />
+        {series.map(({ name, color, metrics }) => (
+          <Line
+            key={name}
+            data={metrics.roc.map(p => ({ x: p.fpr, y: p.tpr }))}
+            dataKey="y"
+            name={`${name} (AUC ${metrics.rocAuc.toFixed(3)})`}
+            stroke={color}
+            strokeWidth={2}
+            dot={false}
+            type="stepAfter"
+          />
+        ))}
+        <Legend verticalAlign="top" wrapperStyle={{ fontSize: 12 }} />
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+// Observed AI rate per predicted-probability bin; a calibrated model sits on the diagonal.
+export const ReliabilityChart: React.FC<{ series: { name: string; color: string; metrics: ClassificationMetrics }[] }> = ({ series }) => (
+  <div className="h-64 w-full">
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart margin={{ top: 5, right: 20, left: 0, bottom: 15 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+        <XAxis dataKey="x" type="number" domain={[0, 1]} tick={{ fontSize: 11 }} label={{ value: 'Predicted probability', position: 'insideBottom', offset: -10, fontSize: 11 }} />
+        <YAxis type="number" domain={[0, 1]} tick={{ fontSize: 11 }} />
+        <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#cbd5e1" strokeDasharray="4 4" />
+        {series.map(({ name, color, metrics }) => (
+          <Line
+            key={name}
+            data={metrics.reliability.filter(bin => bin.count > 0).map(bin => ({ x: bin.meanPredicted, y: bin.observedRate }))}
+            dataKey="y"
+            name={name}
+            stroke={color}
+            strokeWidth={2}
+          />
+        ))}
+        <Tooltip
+          formatter={(value: number) => value.toFixed(2)}
+          contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+        />
+        <Legend verticalAlign="top" wrapperStyle={{ fontSize: 12 }} />
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+// Factors beyond this are folded into one "Other features" step
+const WATERFALL_FACTORS = 8;
+
+interface WaterfallStep {
+  name: string;
+  base: number; // Invisible offset, so the visible bar starts where the last step ended
+  delta: number;
+  color: string;
+  detail: string;
+}
+
+// Baseline -> signed feature pushes -> final score. Red steps push toward AI, green toward human.
+export const ContributionWaterfallChart: React.FC<{ explanation: Explanation }> = ({ explanation }) => {
+  const { baseline, factors, adjustment, final } = explanation;
+  const shown = factors.slice(0, WATERFALL_FACTORS);
+  const rest = factors.slice(WATERFALL_FACTORS);
+  const restImpact = rest.reduce((sum, f) => sum + f.impact, 0);
+  const against = explanation.method === 'classifier' ? 'training avg' : 'neutral';
+
+  const steps: WaterfallStep[] = [
+    { name: explanation.method === 'classifier' ? 'Model intercept' : 'Neutral baseline', base: 0, delta: baseline, color: '#94a3b8', detail: `${baseline.toFixed(1)}%` }
+  ];
+  let running = baseline;
+  const push = (name: string, impact: number, detail: string) => {
+    steps.push({
+      name,
+      base: Math.min(running, running + impact),
+      delta: Math.abs(impact),
+      color: impact > 0 ? '#ef4444' : '#22c55e',
+      detail: `${impact > 0 ? '+' : ''}${impact.toFixed(2)} pts · ${detail}`
+    });
+    running += impact;
+  };
+  shown.forEach(f => push(
+    f.label,
+    f.impact,
+    `value ${+f.value.toFixed(3)}${f.threshold !== undefined ? ` (${against} ${+f.threshold.toFixed(3)})` : ''}`
+  ));
+  if (rest.length > 0) push(`Other features (${rest.length})`, restImpact, `${rest.length} smaller pushes`);
+  if (Math.abs(adjustment) >= 0.01) push('Calibration & limits', adjustment, 'calibration, noise and clamping');
+  steps.push({ name: 'Final score', base: 0, delta: final, color: '#334155', detail: `${final}%` });
+
+  return (
+    <div className="w-full" style={{ height: Math.max(200, steps.length * 30 + 40) }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={steps} layout="vertical" margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e2e8f0" />
+          <XAxis type="number" domain={[0, 100]} tick={{ fontSize: 11 }} unit="%" />
+          <YAxis dataKey="name" type="category" width={170} tick={{ fontSize: 11, fill: '#475569' }} interval={0} />
+          <ReferenceLine x={50} stroke="#cbd5e1" strokeDasharray="4 4" />
+          <Tooltip
+            cursor={{ fill: '#f8fafc' }}
+            content={({ active, payload }) => {
+              const step = active && payload?.[0]?.payload as WaterfallStep | undefined;
+              return step ? (
+                <div className="bg-white rounded-lg shadow-md px-3 py-2 text-xs">
+                  <div className="font-semibold text-slate-700">{step.name}</div>
+                  <div className="text-slate-500 font-mono">{step.detail}</div>
+                </div>
+              ) : null;
+            }}
+          />
+          <Bar dataKey="base" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+          <Bar dataKey="delta" stackId="waterfall" isAnimationActive={false}>
+            {steps.map((step, index) => (
+              <Cell key={`cell-${index}`} fill={step.color} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
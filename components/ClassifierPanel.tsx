@@ -0,0 +1,94 @@
+import React, { useRef, useState } from 'react';
+import { BrainCircuit, Upload, Download, Trash2, AlertCircle } from 'lucide-react';
+import { ClassifierSettings } from '../types';
+import { exportClassifier, importClassifier, loadClassifierSettings, resetClassifierSettings, saveClassifierSettings } from '../services/classifier';
+import { ANALYZER_VERSION } from '../services/reproducibility';
+import { downloadFile } from '../services/reportExport';
+
+const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-slate-200 text-sm text-slate-600 hover:bg-slate-50 disabled:text-slate-300 disabled:hover:bg-white';
+
+export const ClassifierPanel: React.FC = () => {
+  const [settings, setSettings] = useState<ClassifierSettings>(() => loadClassifierSettings());
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { model } = settings;
+
+  const update = (patch: Partial<ClassifierSettings>) => {
+    setSettings(saveClassifierSettings({ ...settings, ...patch }));
+    setError(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ model: importClassifier(await file.text()) });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleExport = () => {
+    if (model) downloadFile(exportClassifier(model), 'resumeguard-classifier.json', 'application/json');
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <BrainCircuit size={20} className="text-blue-500" /> Custom Classifier
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            A logistic regression trained on your own labeled resumes (under Evaluate, or <code className="text-xs bg-slate-100 px-1 rounded">npm run train-classifier</code>) replaces the built-in detector weights and calibration for the local engine.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+            <Upload size={14} /> Import
+          </button>
+          <button onClick={handleExport} disabled={!model} className={buttonClass}>
+            <Download size={14} /> Export
+          </button>
+          <button onClick={() => { setSettings(resetClassifierSettings()); setError(null); }} disabled={!model} className={buttonClass}>
+            <Trash2 size={14} /> Remove
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="sr-only" onChange={handleImport} />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 flex items-center gap-2 text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
+          <AlertCircle size={16} /> {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className={`p-4 rounded-xl border cursor-pointer transition-colors ${!settings.enabled ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'}`}>
+          <div className="flex items-center gap-2 font-semibold text-slate-800 text-sm">
+            <input type="radio" name="classifier" checked={!settings.enabled} onChange={() => update({ enabled: false })} />
+            Built-in ensemble
+          </div>
+          <p className="text-xs text-slate-500 mt-1">Hand-tuned detector weights, then the active calibration.</p>
+        </label>
+        <label className={`p-4 rounded-xl border transition-colors ${
+          !model ? 'border-slate-100 text-slate-400 cursor-not-allowed' : settings.enabled ? 'border-blue-500 bg-blue-50 cursor-pointer' : 'border-slate-200 hover:bg-slate-50 cursor-pointer'
+        }`}>
+          <div className="flex items-center gap-2 font-semibold text-slate-800 text-sm">
+            <input type="radio" name="classifier" checked={settings.enabled} disabled={!model} onChange={() => update({ enabled: true })} />
+            {model ? model.name : 'No custom model'}
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            {model
+              ? `${model.features.length} features · ${model.sampleCount} training samples${model.trainedAt ? ` · ${new Date(model.trainedAt).toLocaleDateString()}` : ''}`
+              : 'Import a model JSON or train one under Evaluate.'}
+          </p>
+          {model && model.analyzerVersion && model.analyzerVersion !== ANALYZER_VERSION && (
+            <p className="text-xs text-amber-600 mt-1">Trained on analyzer v{model.analyzerVersion}; retrain if the detectors have changed.</p>
+          )}
+        </label>
+      </div>
+    </div>
+  );
+};
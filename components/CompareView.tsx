@@ -0,0 +1,272 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GitCompare, Loader2, Upload, X, AlertTriangle, CheckCircle2, ArrowRight } from 'lucide-react';
+import { FeatureRadarChart } from './Charts';
+import { extractDocument } from '../services/extraction';
+import { analyzeInWorker, isAbortError } from '../services/analysisWorkerClient';
+import { compareResults } from '../services/resumeDiff';
+import { AnalysisResult, MetricDelta, ResumeComparison, SentenceDiffKind, SentenceScore } from '../types';
+
+interface ComparedVersion {
+  text: string;
+  result: AnalysisResult;
+}
+
+const VERSION_NAMES: [string, string] = ['Original', 'Revised'];
+
+const ROW_STYLES: Record<SentenceDiffKind, string> = {
+  unchanged: 'bg-white',
+  modified: 'bg-amber-50',
+  added: 'bg-green-50',
+  removed: 'bg-red-50'
+};
+
+// AI probability rises toward AI; every other metric falls toward AI (Low = AI).
+const movesTowardAi = (metric: MetricDelta) =>
+  metric.key === 'aiProbability' ? metric.delta > 0 : metric.delta < 0;
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+const VersionInput: React.FC<{
+  label: string;
+  text: string;
+  onChange: (text: string) => void;
+  disabled: boolean;
+}> = ({ label, text, onChange, disabled }) => {
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setIsExtracting(true);
+    try {
+      onChange((await extractDocument(file)).text);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to read file.');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">{label}</h3>
+        <label className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-500 cursor-pointer">
+          {isExtracting ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+          <span>Load file</span>
+          <input
+            type="file"
+            className="sr-only"
+            accept=".txt,.md,.json,.pdf,.docx,.doc,.png,.jpg,.jpeg"
+            onChange={handleFile}
+            disabled={disabled || isExtracting}
+          />
+        </label>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={`Paste the ${label.toLowerCase()} resume here...`}
+        className="w-full h-56 p-4 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm text-slate-700 shadow-sm"
+        disabled={disabled || isExtracting}
+      />
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+    </div>
+  );
+};
+
+const SentenceCell: React.FC<{ sentence: SentenceScore | null }> = ({ sentence }) => (
+  <td className="p-3 align-top w-1/2">
+    {sentence ? (
+      <div className="flex items-start gap-2">
+        <span className="flex-1 text-slate-700">{sentence.text}</span>
+        <span className={`flex-shrink-0 text-xs font-mono ${sentence.score > 55 ? 'text-red-500' : 'text-slate-400'}`}>
+          {sentence.score}
+        </span>
+      </div>
+    ) : (
+      <span className="text-slate-300">—</span>
+    )}
+  </td>
+);
+
+export const CompareView: React.FC = () => {
+  const [texts, setTexts] = useState<[string, string]>(['', '']);
+  const [versions, setVersions] = useState<[ComparedVersion, ComparedVersion] | null>(null);
+  const [comparison, setComparison] = useState<ResumeComparison | null>(null);
+  const [progressLabel, setProgressLabel] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isComparing = progressLabel !== null;
+
+  // Leaving the tab abandons a running comparison
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const setText = (index: 0 | 1) => (text: string) =>
+    setTexts(prev => (index === 0 ? [text, prev[1]] : [prev[0], text]));
+
+  const handleCompare = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setComparison(null);
+    setProgressLabel('Starting...');
+
+    try {
+      const analyzed: ComparedVersion[] = [];
+      for (let i = 0; i < 2; i++) {
+        const result = await analyzeInWorker(texts[i], {
+          signal: controller.signal,
+          onProgress: ({ label, percent }) => setProgressLabel(`${VERSION_NAMES[i]}: ${label} (${percent}%)`)
+        });
+        analyzed.push({ text: texts[i], result });
+      }
+      const [before, after] = analyzed;
+      setVersions([before, after]);
+      setComparison(compareResults(before, after));
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err.message || 'Comparison failed.');
+    } finally {
+      setProgressLabel(null);
+      abortRef.current = null;
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+          <GitCompare size={24} className="text-blue-500" /> Compare Versions
+        </h2>
+        <p className="text-slate-500 mb-6">
+          Analyze two versions of a resume side by side — a resubmission, or an AI draft that may have been reworded.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <VersionInput label={VERSION_NAMES[0]} text={texts[0]} onChange={setText(0)} disabled={isComparing} />
+          <VersionInput label={VERSION_NAMES[1]} text={texts[1]} onChange={setText(1)} disabled={isComparing} />
+        </div>
+        <div className="flex flex-col items-center gap-3 mt-6">
+          <button
+            onClick={handleCompare}
+            disabled={!texts[0].trim() || !texts[1].trim() || isComparing}
+            className={`flex items-center space-x-2 px-8 py-3 rounded-full font-semibold text-white shadow-lg transition-all ${
+              !texts[0].trim() || !texts[1].trim() || isComparing
+                ? 'bg-slate-300 cursor-not-allowed'
+                : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:shadow-xl'
+            }`}
+          >
+            {isComparing ? <Loader2 size={18} className="animate-spin" /> : <GitCompare size={18} />}
+            <span>{isComparing ? progressLabel : 'Compare'}</span>
+          </button>
+          {isComparing && (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="flex items-center gap-1 text-sm font-medium text-slate-500 hover:text-red-600 transition-colors"
+            >
+              <X size={16} /> Cancel
+            </button>
+          )}
+          {error && <p className="text-red-600 text-sm font-medium">{error}</p>}
+        </div>
+      </div>
+
+      {versions && comparison && (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+              <h3 className="text-lg font-semibold text-slate-800 mb-6">Linguistic Features</h3>
+              <FeatureRadarChart
+                analysis={versions[0].result.linguisticAnalysis}
+                comparison={versions[1].result.linguisticAnalysis}
+                names={VERSION_NAMES}
+              />
+            </div>
+
+            <div className="lg:col-span-2 bg-white p-8 rounded-2xl shadow-sm border border-slate-200 space-y-6">
+              <div>
+                <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Metric Changes</h4>
+                <div className="space-y-2">
+                  {comparison.metrics.map(metric => (
+                    <div key={metric.key} className="flex items-center gap-4 text-sm">
+                      <span className="w-40 font-medium text-slate-700">{metric.label}</span>
+                      <span className="font-mono text-slate-500">{metric.before}</span>
+                      <ArrowRight size={14} className="text-slate-300" />
+                      <span className="font-mono text-slate-800 font-bold">{metric.after}</span>
+                      <span className={`ml-auto font-mono text-xs px-2 py-0.5 rounded ${
+                        metric.delta === 0
+                          ? 'bg-slate-50 text-slate-400'
+                          : movesTowardAi(metric) ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
+                      }`}>
+                        {formatDelta(metric.delta)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="border-t border-slate-100 pt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Flags Added</h4>
+                  {comparison.flagsAdded.length === 0 ? (
+                    <p className="text-sm text-slate-400">None</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {comparison.flagsAdded.map(flag => (
+                        <span key={flag} className="inline-flex items-center px-3 py-1 rounded-lg bg-orange-50 text-orange-700 text-sm font-medium border border-orange-100">
+                          <AlertTriangle size={14} className="mr-1.5" /> {flag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Flags Removed</h4>
+                  {comparison.flagsRemoved.length === 0 ? (
+                    <p className="text-sm text-slate-400">None</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {comparison.flagsRemoved.map(flag => (
+                        <span key={flag} className="inline-flex items-center px-3 py-1 rounded-lg bg-green-50 text-green-700 text-sm font-medium border border-green-100 line-through decoration-green-300">
+                          <CheckCircle2 size={14} className="mr-1.5" /> {flag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+            <h3 className="text-xl font-bold text-slate-900 mb-2">Sentence Diff</h3>
+            <p className="text-sm text-slate-500 mb-6">
+              Reworded sentences are paired with their originals. Numbers are per-sentence AI scores.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr className="text-left text-xs font-bold text-slate-400 uppercase tracking-wider border-b border-slate-200">
+                    <th className="p-3">{VERSION_NAMES[0]}</th>
+                    <th className="p-3">{VERSION_NAMES[1]}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.sentences.map((row, idx) => (
+                    <tr key={idx} className={`border-b border-slate-100 ${ROW_STYLES[row.kind]}`}>
+                      <SentenceCell sentence={row.before} />
+                      <SentenceCell sentence={row.after} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
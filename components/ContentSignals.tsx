@@ -0,0 +1,101 @@
+import React from 'react';
+import { Crosshair, Briefcase } from 'lucide-react';
+import { JobMatchReport, SpecificityReport } from '../types';
+import { GENERIC_SPECIFICITY } from '../services/specificity';
+
+const pct = (share: number) => `${Math.round(share * 100)}%`;
+
+export const SpecificityPanel: React.FC<{ specificity: SpecificityReport }> = ({ specificity }) => {
+  const counts = [
+    { label: 'Figures', value: specificity.numbers },
+    { label: 'Dates', value: specificity.dates },
+    { label: 'Names', value: specificity.properNouns },
+    { label: 'Technologies', value: specificity.technologies },
+    { label: 'Vague claims', value: specificity.vagueClaims }
+  ];
+  const generic = specificity.score < GENERIC_SPECIFICITY;
+
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+      <h3 className="text-xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+        <Crosshair size={20} className="text-blue-500" /> Specificity
+      </h3>
+      <p className="text-sm text-slate-500 mb-6">
+        Concrete details per 100 prose words against unquantified claims. Reported separately; it does not change the AI probability.
+      </p>
+
+      <div className="flex items-center gap-4 text-sm mb-6">
+        <span className="w-40 font-medium text-slate-700">{generic ? 'Generic' : 'Specific'}</span>
+        <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+          <div className={`h-full ${generic ? 'bg-orange-500' : 'bg-green-500'}`} style={{ width: `${specificity.score}%` }} />
+        </div>
+        <span className="w-16 text-right font-bold text-slate-700">{specificity.score}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+        {counts.map(({ label, value }) => (
+          <div key={label} className="p-3 rounded-xl bg-slate-50 border border-slate-100 text-center">
+            <div className="text-xl font-bold text-slate-800">{value}</div>
+            <div className="text-xs text-slate-500">{label}</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-slate-400 font-mono">
+        {specificity.concretePer100Words} concrete / {specificity.vaguePer100Words} vague per 100 words
+      </p>
+
+      {specificity.vaguePhrases.length > 0 && (
+        <div className="border-t border-slate-100 pt-6 mt-6">
+          <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Vague Claims</h4>
+          <div className="flex flex-wrap gap-2">
+            {specificity.vaguePhrases.map(phrase => (
+              <span key={phrase} className="px-2 py-0.5 rounded-md bg-orange-50 text-orange-700 border border-orange-100 text-xs">{phrase}</span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const JobMatchPanel: React.FC<{ jobMatch: JobMatchReport }> = ({ jobMatch }) => (
+  <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+    <h3 className="text-xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+      <Briefcase size={20} className="text-indigo-500" /> Job Description Match
+    </h3>
+    <p className="text-sm text-slate-500 mb-6">
+      Covers {pct(jobMatch.keywordCoverage)} of the posting's key terms; {jobMatch.paraphrases.length} sentence{jobMatch.paraphrases.length === 1 ? '' : 's'} ({pct(jobMatch.paraphraseShare)}) closely restate it.
+    </p>
+
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Key Terms</h4>
+        <div className="flex flex-wrap gap-2">
+          {jobMatch.matchedKeywords.map(word => (
+            <span key={word} className="px-2 py-0.5 rounded-md bg-green-50 text-green-700 border border-green-100 text-xs">{word}</span>
+          ))}
+          {jobMatch.missingKeywords.map(word => (
+            <span key={word} className="px-2 py-0.5 rounded-md bg-slate-50 text-slate-400 border border-slate-200 text-xs line-through">{word}</span>
+          ))}
+        </div>
+      </div>
+
+      {jobMatch.paraphrases.length > 0 && (
+        <div className="border-t border-slate-100 pt-6">
+          <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Paraphrased From the Posting</h4>
+          <ul className="space-y-4">
+            {jobMatch.paraphrases.map(p => (
+              <li key={p.start} className="text-sm">
+                <div className="flex items-start justify-between gap-4">
+                  <span className="text-slate-800">{p.text}</span>
+                  <span className="flex-shrink-0 font-mono text-xs text-orange-600">{pct(p.similarity)} similar</span>
+                </div>
+                <div className="mt-1 pl-3 border-l-2 border-slate-200 text-slate-500 italic">{p.jobSentence}</div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,363 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FlaskConical, Upload, Loader2, X, Download, RotateCcw, CheckCircle2, AlertCircle, BrainCircuit } from 'lucide-react';
+import { RocCurveChart, ReliabilityChart } from './Charts';
+import { analyzeInWorker, isAbortError } from '../services/analysisWorkerClient';
+import { parseLabeledCorpus, runClassifierTraining, runEvaluation } from '../services/evaluation';
+import { CALIBRATION_METHODS, loadCalibration, resetCalibration, saveCalibration } from '../services/calibration';
+import { exportClassifier, saveClassifierSettings } from '../services/classifier';
+import { downloadFile } from '../services/reportExport';
+import { CalibrationMethod, CalibrationModel, ClassificationMetrics, ClassifierTrainingReport, EvaluationReport, LabeledSample } from '../types';
+
+const FITTABLE_METHODS: CalibrationMethod[] = ['platt', 'isotonic'];
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const METRIC_ROWS: { label: string; format: (m: ClassificationMetrics) => string }[] = [
+  { label: 'ROC-AUC', format: m => m.rocAuc.toFixed(3) },
+  { label: 'Precision', format: m => pct(m.precision) },
+  { label: 'Recall', format: m => pct(m.recall) },
+  { label: 'F1', format: m => m.f1.toFixed(3) },
+  { label: 'Accuracy', format: m => pct(m.accuracy) },
+  { label: 'Brier score', format: m => m.brierScore.toFixed(3) },
+  { label: 'Calibration error (ECE)', format: m => m.expectedCalibrationError.toFixed(3) }
+];
+
+const describeCalibration = (model: CalibrationModel) =>
+  `${CALIBRATION_METHODS[model.method]}${model.sampleCount ? ` · ${model.sampleCount} samples` : ''}${model.analyzerVersion ? ` · v${model.analyzerVersion}` : ''}`;
+
+const ConfusionMatrixGrid: React.FC<{ metrics: ClassificationMetrics }> = ({ metrics: { confusion } }) => (
+  <table className="text-sm text-center border-collapse">
+    <thead>
+      <tr className="text-xs text-slate-400 uppercase">
+        <th className="p-2"></th>
+        <th className="p-2">Predicted AI</th>
+        <th className="p-2">Predicted Human</th>
+      </tr>
+    </thead>
+    <tbody>
+      <tr>
+        <th className="p-2 text-xs text-slate-400 uppercase text-right">Actual AI</th>
+        <td className="p-4 bg-green-50 text-green-700 font-bold rounded-tl-lg">{confusion.truePositives}</td>
+        <td className="p-4 bg-red-50 text-red-700 font-bold rounded-tr-lg">{confusion.falseNegatives}</td>
+      </tr>
+      <tr>
+        <th className="p-2 text-xs text-slate-400 uppercase text-right">Actual Human</th>
+        <td className="p-4 bg-red-50 text-red-700 font-bold rounded-bl-lg">{confusion.falsePositives}</td>
+        <td className="p-4 bg-green-50 text-green-700 font-bold rounded-br-lg">{confusion.trueNegatives}</td>
+      </tr>
+    </tbody>
+  </table>
+);
+
+export const EvaluationView: React.FC = () => {
+  const [samples, setSamples] = useState<LabeledSample[] | null>(null);
+  const [corpusName, setCorpusName] = useState<string | null>(null);
+  const [method, setMethod] = useState<CalibrationMethod>('platt');
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [training, setTraining] = useState<ClassifierTrainingReport | null>(null);
+  const [modelName, setModelName] = useState('');
+  const [modelApplied, setModelApplied] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [active, setActive] = useState<CalibrationModel>(() => loadCalibration());
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Leaving the tab abandons a running evaluation
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleCorpus = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setReport(null);
+    setTraining(null);
+    try {
+      setSamples(parseLabeledCorpus(await file.text()));
+      setCorpusName(file.name);
+      setError(null);
+    } catch (err: any) {
+      setSamples(null);
+      setError(err.message);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!samples) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setReport(null);
+    setProgress({ done: 0, total: samples.length });
+    try {
+      setReport(await runEvaluation(samples, {
+        method,
+        analyze: analyzeInWorker,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total })
+      }));
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err.message || 'Evaluation failed.');
+    } finally {
+      setProgress(null);
+      abortRef.current = null;
+    }
+  };
+
+  const handleTrain = async () => {
+    if (!samples) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setTraining(null);
+    setModelApplied(false);
+    setProgress({ done: 0, total: samples.length });
+    try {
+      setTraining(await runClassifierTraining(samples, {
+        name: modelName.trim() || corpusName?.replace(/\.[^.]+$/, '') || undefined,
+        analyze: analyzeInWorker,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total })
+      }));
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err.message || 'Training failed.');
+    } finally {
+      setProgress(null);
+      abortRef.current = null;
+    }
+  };
+
+  const handleUseModel = () => {
+    if (!training) return;
+    saveClassifierSettings({ enabled: true, model: training.model });
+    setModelApplied(true);
+  };
+
+  const handleApply = () => {
+    if (!report) return;
+    saveCalibration(report.calibration);
+    setActive(report.calibration);
+  };
+
+  const handleReset = () => setActive(resetCalibration());
+
+  const handleDownload = () => {
+    if (!report) return;
+    downloadFile(JSON.stringify(report.calibration, null, 2), 'calibration.json', 'application/json');
+  };
+
+  const series = report ? [
+    { name: 'Raw', color: '#94a3b8', metrics: report.raw },
+    { name: 'Calibrated', color: '#3b82f6', metrics: report.calibrated }
+  ] : [];
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+          <FlaskConical size={24} className="text-blue-500" /> Evaluation & Calibration
+        </h2>
+        <p className="text-slate-500 mb-6">
+          Score a labeled corpus (JSONL, one <code className="text-xs bg-slate-100 px-1 rounded">{'{"text": ..., "label": "ai" | "human"}'}</code> per line)
+          to measure accuracy and fit a calibration for the AI probability, or to train a custom classifier on the detectors' features.
+          The same harness runs headless with <code className="text-xs bg-slate-100 px-1 rounded">npm run evaluate</code> and <code className="text-xs bg-slate-100 px-1 rounded">npm run train-classifier</code>.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 px-4 py-2 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 cursor-pointer">
+            <Upload size={16} />
+            <span>{corpusName ? `${corpusName} (${samples?.length} samples)` : 'Load corpus'}</span>
+            <input type="file" className="sr-only" accept=".jsonl,.json,.txt" onChange={handleCorpus} disabled={!!progress} />
+          </label>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as CalibrationMethod)}
+            className="px-3 py-2 border border-slate-200 rounded-lg text-sm text-slate-700 bg-white"
+            disabled={!!progress}
+          >
+            {FITTABLE_METHODS.map(m => <option key={m} value={m}>{CALIBRATION_METHODS[m]}</option>)}
+          </select>
+          <button
+            onClick={handleRun}
+            disabled={!samples || !!progress}
+            className={`flex items-center gap-2 px-5 py-2 rounded-lg text-sm font-semibold text-white ${
+              !samples || progress ? 'bg-slate-300 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {progress ? <Loader2 size={16} className="animate-spin" /> : <FlaskConical size={16} />}
+            <span>{progress ? `Scoring ${progress.done}/${progress.total}` : 'Run Evaluation'}</span>
+          </button>
+          <input
+            type="text"
+            value={modelName}
+            onChange={(e) => setModelName(e.target.value)}
+            placeholder="Model name"
+            className="px-3 py-2 border border-slate-200 rounded-lg text-sm text-slate-700 bg-white w-40"
+            disabled={!!progress}
+          />
+          <button
+            onClick={handleTrain}
+            disabled={!samples || !!progress}
+            className={`flex items-center gap-2 px-5 py-2 rounded-lg text-sm font-semibold ${
+              !samples || progress ? 'bg-slate-100 text-slate-400 cursor-not-allowed' : 'border border-blue-200 text-blue-700 hover:bg-blue-50'
+            }`}
+          >
+            <BrainCircuit size={16} />
+            <span>Train Classifier</span>
+          </button>
+          {progress && (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="flex items-center gap-1 text-sm font-medium text-slate-500 hover:text-red-600 transition-colors"
+            >
+              <X size={16} /> Cancel
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <p className="mt-4 flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle size={16} /> {error}
+          </p>
+        )}
+
+        <div className="mt-6 pt-6 border-t border-slate-100 flex flex-wrap items-center gap-4 text-sm">
+          <span className="text-slate-500">Active calibration:</span>
+          <span className="font-medium text-slate-800">{describeCalibration(active)}</span>
+          <button onClick={handleReset} className="ml-auto flex items-center gap-1 text-slate-500 hover:text-slate-700">
+            <RotateCcw size={14} /> Reset to bundled
+          </button>
+        </div>
+      </div>
+
+      {training && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+            <h3 className="text-lg font-semibold text-slate-800 mb-1">Classifier vs. Ensemble</h3>
+            <p className="text-xs text-slate-400 mb-4">
+              {training.testCount} held-out samples; classifier trained on {training.trainCount}. Threshold {pct(training.classifier.threshold)}.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-400 uppercase">
+                  <th className="text-left py-2"></th>
+                  <th className="text-right py-2">Ensemble</th>
+                  <th className="text-right py-2">Classifier</th>
+                </tr>
+              </thead>
+              <tbody>
+                {METRIC_ROWS.map(({ label, format }) => (
+                  <tr key={label} className="border-t border-slate-100">
+                    <td className="py-2 text-slate-600">{label}</td>
+                    <td className="py-2 text-right font-mono text-slate-500">{format(training.ensemble)}</td>
+                    <td className="py-2 text-right font-mono font-bold text-slate-800">{format(training.classifier)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+            <h3 className="text-lg font-semibold text-slate-800 mb-4">ROC Curve</h3>
+            <RocCurveChart series={[
+              { name: 'Ensemble', color: '#94a3b8', metrics: training.ensemble },
+              { name: 'Classifier', color: '#3b82f6', metrics: training.classifier }
+            ]} />
+          </div>
+
+          <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+            <h3 className="text-lg font-semibold text-slate-800">Trained Model</h3>
+            <p className="text-sm text-slate-500">
+              "{training.model.name}": logistic regression over {training.model.features.length} detector features,
+              retrained on all {training.trainCount + training.testCount} samples. Using it replaces the ensemble and calibration
+              for every new local analysis in this browser; switch back under Settings.
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={handleUseModel}
+                disabled={modelApplied}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-green-600"
+              >
+                <CheckCircle2 size={16} /> {modelApplied ? 'In Use' : 'Use This Model'}
+              </button>
+              <button
+                onClick={() => downloadFile(exportClassifier(training.model), 'resumeguard-classifier.json', 'application/json')}
+                className="flex items-center gap-2 px-4 py-2 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50"
+              >
+                <Download size={16} /> Download JSON
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+              <h3 className="text-lg font-semibold text-slate-800 mb-1">Test Split Metrics</h3>
+              <p className="text-xs text-slate-400 mb-4">
+                {report.testCount} held-out samples; calibration fitted on {report.trainCount}. Threshold {pct(report.calibrated.threshold)}.
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-slate-400 uppercase">
+                    <th className="text-left py-2"></th>
+                    <th className="text-right py-2">Raw</th>
+                    <th className="text-right py-2">Calibrated</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {METRIC_ROWS.map(({ label, format }) => (
+                    <tr key={label} className="border-t border-slate-100">
+                      <td className="py-2 text-slate-600">{label}</td>
+                      <td className="py-2 text-right font-mono text-slate-500">{format(report.raw)}</td>
+                      <td className="py-2 text-right font-mono font-bold text-slate-800">{format(report.calibrated)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">ROC Curve</h3>
+              <RocCurveChart series={series} />
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">Reliability Diagram</h3>
+              <ReliabilityChart series={series} />
+            </div>
+          </div>
+
+          <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-center gap-8">
+            <div>
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">Confusion Matrix (calibrated)</h3>
+              <ConfusionMatrixGrid metrics={report.calibrated} />
+            </div>
+            <div className="flex-1 space-y-3">
+              <h3 className="text-lg font-semibold text-slate-800">Fitted Calibration</h3>
+              <p className="text-sm text-slate-500">
+                {describeCalibration(report.calibration)}, refit on all {report.trainCount + report.testCount} samples.
+                Applying it changes the AI probability of every new analysis in this browser.
+              </p>
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={handleApply}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700"
+                >
+                  <CheckCircle2 size={16} /> Apply Calibration
+                </button>
+                <button
+                  onClick={handleDownload}
+                  className="flex items-center gap-2 px-4 py-2 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50"
+                >
+                  <Download size={16} /> Download JSON
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
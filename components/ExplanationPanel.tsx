@@ -0,0 +1,59 @@
+import React from 'react';
+import { Scale } from 'lucide-react';
+import { Explanation } from '../types';
+import { ContributionWaterfallChart } from './Charts';
+
+const formatValue = (value: number) => +value.toFixed(3);
+
+export const ExplanationPanel: React.FC<{ explanation: Explanation }> = ({ explanation }) => {
+  const classifier = explanation.method === 'classifier';
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+      <h3 className="text-xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+        <Scale size={20} className="text-blue-500" /> Why This Score
+      </h3>
+      <p className="text-sm text-slate-500 mb-6">
+        {classifier
+          ? `Starting from the custom classifier's intercept (${explanation.baseline.toFixed(1)}%), each feature moves the score by the amount shown; values are compared with the training average.`
+          : 'Starting from a neutral 50%, each measured feature moves the score by its detector\'s weight times how far it sits from the neutral threshold.'}
+      </p>
+
+      <ContributionWaterfallChart explanation={explanation} />
+
+      <div className="mt-6 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-400 uppercase tracking-wider border-b border-slate-100">
+              <th className="py-2 pr-4 font-semibold">Feature</th>
+              <th className="py-2 pr-4 font-semibold">Detector</th>
+              <th className="py-2 pr-4 font-semibold text-right">Value</th>
+              <th className="py-2 pr-4 font-semibold text-right">{classifier ? 'Training Avg' : 'Neutral'}</th>
+              <th className="py-2 font-semibold text-right">Impact</th>
+            </tr>
+          </thead>
+          <tbody>
+            {explanation.factors.map(factor => (
+              <tr key={factor.id} className="border-b border-slate-50">
+                <td className="py-2 pr-4 text-slate-700">{factor.label}</td>
+                <td className="py-2 pr-4 text-slate-500">{factor.source}</td>
+                <td className="py-2 pr-4 text-right font-mono text-slate-700">{formatValue(factor.value)}</td>
+                <td className="py-2 pr-4 text-right font-mono text-slate-400">
+                  {factor.threshold !== undefined ? formatValue(factor.threshold) : '—'}
+                </td>
+                <td className={`py-2 text-right font-mono font-semibold ${factor.impact > 0 ? 'text-red-600' : factor.impact < 0 ? 'text-green-600' : 'text-slate-400'}`}>
+                  {factor.impact > 0 ? '+' : ''}{factor.impact.toFixed(2)} pts
+                </td>
+              </tr>
+            ))}
+            {explanation.adjustment !== 0 && (
+              <tr className="text-slate-500">
+                <td className="py-2 pr-4 italic" colSpan={4}>Calibration, noise and 0–100 limits</td>
+                <td className="py-2 text-right font-mono">{explanation.adjustment > 0 ? '+' : ''}{explanation.adjustment.toFixed(2)} pts</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { FileDown, FileJson, FileSpreadsheet } from 'lucide-react';
+
+interface ExportMenuProps {
+  onExportPdf?: () => void;
+  onExportJson?: () => void;
+  onExportCsv?: () => void;
+}
+
+const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-slate-200 bg-white text-sm text-slate-600 hover:bg-slate-50 hover:text-slate-900 transition-colors';
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExportPdf, onExportJson, onExportCsv }) => (
+  <div className="flex items-center gap-2">
+    <span className="text-xs font-semibold uppercase text-slate-400 mr-1">Export</span>
+    {onExportPdf && (
+      <button onClick={onExportPdf} className={buttonClass}><FileDown size={14} /> PDF</button>
+    )}
+    {onExportJson && (
+      <button onClick={onExportJson} className={buttonClass}><FileJson size={14} /> JSON</button>
+    )}
+    {onExportCsv && (
+      <button onClick={onExportCsv} className={buttonClass}><FileSpreadsheet size={14} /> CSV</button>
+    )}
+  </div>
+);
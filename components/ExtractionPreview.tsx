@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Columns2, LayoutTemplate } from 'lucide-react';
+import { LayoutBlock, LayoutPage } from '../types';
+
+const BLOCK_STYLES: Record<LayoutBlock['kind'], string> = {
+  heading: 'bg-indigo-50 text-indigo-700 border-indigo-100',
+  paragraph: 'bg-slate-50 text-slate-600 border-slate-200',
+  bullet: 'bg-emerald-50 text-emerald-700 border-emerald-100'
+};
+
+/**
+ * Shows how a PDF was reconstructed (columns, headings, bullets, paragraphs)
+ * so the user can spot extraction problems before running the analysis.
+ */
+export const ExtractionPreview: React.FC<{ layout: LayoutPage[] }> = ({ layout }) => {
+  const [open, setOpen] = useState(false);
+  const counts: Record<string, number> = {};
+  layout.forEach(page => page.blocks.forEach(block => {
+    counts[block.kind] = (counts[block.kind] || 0) + 1;
+  }));
+  const multiColumn = layout.filter(p => p.columns > 1).length;
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl shadow-sm">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between px-4 py-3 text-sm">
+        <span className="flex items-center gap-2 font-semibold text-slate-700">
+          <LayoutTemplate size={16} className="text-blue-500" /> Extracted Structure
+        </span>
+        <span className="flex items-center gap-3 text-xs text-slate-500">
+          <span>{layout.length} page{layout.length === 1 ? '' : 's'}</span>
+          {multiColumn > 0 && <span className="flex items-center gap-1"><Columns2 size={12} /> {multiColumn} two-column</span>}
+          <span>{counts.heading || 0} headings · {counts.bullet || 0} bullets · {counts.paragraph || 0} paragraphs</span>
+          {open ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        </span>
+      </button>
+      {open && (
+        <div className="border-t border-slate-100 p-4 space-y-4 max-h-80 overflow-y-auto">
+          {layout.map(page => (
+            <div key={page.pageNumber}>
+              <div className="text-xs font-semibold uppercase text-slate-400 mb-2">
+                Page {page.pageNumber} · {page.columns === 1 ? 'single column' : 'two columns, left read first'}
+              </div>
+              <div className="space-y-1.5">
+                {page.blocks.map((block, idx) => (
+                  <div key={idx} className={`flex gap-2 items-start text-xs border rounded px-2 py-1 ${BLOCK_STYLES[block.kind]}`}>
+                    <span className="uppercase font-bold w-16 flex-shrink-0">{block.kind}</span>
+                    <span className="whitespace-pre-wrap">{block.lines.join('\n')}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
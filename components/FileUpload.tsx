@@ -1,26 +1,29 @@
-import React, { useCallback, useState, useEffect } from 'react';
-import { Upload, FileText, Search, Loader2, FileType, AlertCircle } from 'lucide-react';
-// @ts-ignore
-import * as pdfjsLib from 'pdfjs-dist';
-// @ts-ignore
-import mammoth from 'mammoth';
+import React, { useCallback, useState } from 'react';
+import { Upload, FileText, Search, Loader2, FileType, AlertCircle, ScanText, X, Briefcase } from 'lucide-react';
+import { extractDocument, isZipFile } from '../services/extraction';
+import { AnalysisProgress, LayoutPage, OcrReport } from '../types';
+import { ExtractionPreview } from './ExtractionPreview';
 
 interface FileUploadProps {
-  onAnalyze: (text: string) => void;
+  // jobDescription is undefined when the optional field is left empty
+  onAnalyze: (text: string, fileName?: string, ocr?: OcrReport, jobDescription?: string) => void;
+  onAnalyzeBatch: (files: File[], jobDescription?: string) => void;
+  onCancel: () => void;
   isAnalyzing: boolean;
+  progress: AnalysisProgress | null;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onAnalyze, isAnalyzing }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({ onAnalyze, onAnalyzeBatch, onCancel, isAnalyzing, progress }) => {
   const [text, setText] = useState('');
+  const [jobDescription, setJobDescription] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>(undefined);
+  const [layout, setLayout] = useState<LayoutPage[] | null>(null);
+  const [ocr, setOcr] = useState<OcrReport | undefined>(undefined);
+  const [extractionProgress, setExtractionProgress] = useState<AnalysisProgress | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [isExtracting, setIsExtracting] = useState(false);
   const [extractionError, setExtractionError] = useState<string | null>(null);
 
-  useEffect(() => {
-    // Initialize PDF worker
-    pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@3.11.174/build/pdf.worker.min.js`;
-  }, []);
-
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -36,76 +39,61 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onAnalyze, isAnalyzing }
     e.stopPropagation();
     setDragActive(false);
     
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      readFile(file);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(Array.from(e.dataTransfer.files));
     }
-  }, []);
+  }, [onAnalyzeBatch, jobDescription]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      readFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      handleFiles(Array.from(e.target.files));
+      e.target.value = '';
     }
   };
 
-  const extractTextFromPdf = async (file: File): Promise<string> => {
-    const arrayBuffer = await file.arrayBuffer();
-    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-    const pdf = await loadingTask.promise;
-    let fullText = '';
-
-    for (let i = 1; i <= pdf.numPages; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      const pageText = textContent.items.map((item: any) => item.str).join(' ');
-      fullText += pageText + '\n';
+  // One plain resume goes to the editor; several files or any ZIP become a batch.
+  const handleFiles = (files: File[]) => {
+    if (files.length === 1 && !isZipFile(files[0])) {
+      readFile(files[0]);
+    } else {
+      onAnalyzeBatch(files, jobDescription.trim() || undefined);
     }
-    return fullText;
-  };
-
-  const extractTextFromDocx = async (file: File): Promise<string> => {
-    const arrayBuffer = await file.arrayBuffer();
-    const result = await mammoth.extractRawText({ arrayBuffer });
-    return result.value;
   };
 
   const readFile = async (file: File) => {
     setExtractionError(null);
     setIsExtracting(true);
     setText('');
+    setFileName(undefined);
+    setLayout(null);
+    setOcr(undefined);
     
-    const name = file.name.toLowerCase();
-
     try {
-      let extractedText = '';
-
-      if (name.endsWith('.pdf')) {
-        extractedText = await extractTextFromPdf(file);
-      } else if (name.endsWith('.docx') || name.endsWith('.doc')) {
-        extractedText = await extractTextFromDocx(file);
-      } else {
-        // Plain text / standard reading
-        extractedText = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.onerror = (e) => reject(e);
-          reader.readAsText(file);
-        });
-      }
-
-      if (!extractedText.trim()) {
-        throw new Error("No text content could be found in this file.");
-      }
-
-      setText(extractedText);
+      const extracted = await extractDocument(file, setExtractionProgress);
+      setText(extracted.text);
+      setFileName(file.name);
+      setLayout(extracted.layout ?? null);
+      setOcr(extracted.ocr);
     } catch (err: any) {
       console.error("Extraction error:", err);
-      setExtractionError("Failed to read file. Please ensure it is a valid text-based PDF or DOCX, or copy-paste the text manually.");
+      setExtractionError(err?.message?.startsWith('OCR')
+        ? `${err.message} Try a sharper scan, or copy-paste the text manually.`
+        : "Failed to read file. Please ensure it is a valid PDF, DOCX or image, or copy-paste the text manually.");
     } finally {
       setIsExtracting(false);
+      setExtractionProgress(null);
     }
   };
 
+  // Typed or pasted text no longer matches the file it came from, so drop
+  // the name, layout and OCR report rather than report them for new text
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setFileName(undefined);
+    setLayout(null);
+    setOcr(undefined);
+  };
+
   const isBusy = isAnalyzing || isExtracting;
 
   return (
@@ -127,10 +115,11 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onAnalyze, isAnalyzing }
             {isExtracting ? <Loader2 className="animate-spin" size={32} /> : extractionError ? <AlertCircle size={32} /> : <Upload size={32} />}
           </div>
           <h3 className="text-xl font-semibold text-slate-800">
-            {isExtracting ? 'Extracting Text...' : 'Upload Resume'}
+            {isExtracting ? (extractionProgress ? `${extractionProgress.label}...` : 'Extracting Text...') : 'Upload Resume'}
           </h3>
           <p className="text-slate-500 max-w-md mx-auto">
-            Drag & drop your resume file (PDF, DOCX, TXT) to automatically extract text and detect AI patterns.
+            Drag & drop your resume file (PDF, DOCX, TXT, or a PNG/JPG scan) to automatically extract text and detect AI patterns.
+            Drop several files or a ZIP archive to screen a whole batch.
           </p>
           
           {extractionError && (
@@ -139,13 +128,14 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onAnalyze, isAnalyzing }
 
           <div className="flex justify-center mt-4">
             <label className="relative cursor-pointer bg-white rounded-md font-medium text-blue-600 hover:text-blue-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-500">
-              <span>Select a file</span>
+              <span>Select files</span>
               <input 
                 id="file-upload" 
                 name="file-upload" 
                 type="file" 
                 className="sr-only" 
-                accept=".txt,.md,.json,.pdf,.docx,.doc"
+                accept=".txt,.md,.json,.pdf,.docx,.doc,.png,.jpg,.jpeg,.zip"
+                multiple
                 onChange={handleFileChange}
               />
             </label>
@@ -153,25 +143,54 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onAnalyze, isAnalyzing }
         </div>
       </div>
 
-      <div className="relative">
-        <div className="absolute top-3 left-3 text-slate-400">
-          {isExtracting ? <Loader2 className="animate-spin" size={20} /> : <FileText size={20} />}
+      {ocr && (
+        <div className="flex items-start gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-100 rounded-xl px-4 py-3">
+          <ScanText size={18} className="flex-shrink-0 mt-0.5" />
+          <span>
+            Text recognized with OCR (mean confidence {ocr.meanConfidence}%).
+            {ocr.lowConfidenceRegions.length > 0 && ` ${ocr.lowConfidenceRegions.length} low-confidence line${ocr.lowConfidenceRegions.length === 1 ? ' was' : 's were'} left out and will not affect scoring.`}
+            {' '}Please review the text below before analyzing.
+          </span>
         </div>
-        <textarea
-          value={text}
-          onChange={(e) => setText(e.target.value)}
-          placeholder={isExtracting ? "Reading file content..." : "Or paste resume content here..."}
-          className="w-full h-64 p-4 pl-10 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-slate-700 shadow-sm"
-          disabled={isBusy}
-        />
-        <div className="absolute bottom-4 right-4 text-xs text-slate-400">
-          {text.length} chars
+      )}
+
+      {layout && <ExtractionPreview layout={layout} />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="relative lg:col-span-2">
+          <div className="absolute top-3 left-3 text-slate-400">
+            {isExtracting ? <Loader2 className="animate-spin" size={20} /> : <FileText size={20} />}
+          </div>
+          <textarea
+            value={text}
+            onChange={(e) => handleTextChange(e.target.value)}
+            placeholder={isExtracting ? "Reading file content..." : "Or paste resume content here..."}
+            className="w-full h-64 p-4 pl-10 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-slate-700 shadow-sm"
+            disabled={isBusy}
+          />
+          <div className="absolute bottom-4 right-4 text-xs text-slate-400">
+            {text.length} chars
+          </div>
+        </div>
+
+        {/* Also applies to dropped batches */}
+        <div className="relative">
+          <div className="absolute top-3 left-3 text-slate-400">
+            <Briefcase size={20} />
+          </div>
+          <textarea
+            value={jobDescription}
+            onChange={(e) => setJobDescription(e.target.value)}
+            placeholder="Optional: paste the job description to check keyword coverage and sentences copied from it..."
+            className="w-full h-64 p-4 pl-10 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-slate-700 text-sm shadow-sm"
+            disabled={isBusy}
+          />
         </div>
       </div>
 
-      <div className="flex justify-center pt-4">
+      <div className="flex flex-col items-center gap-4 pt-4">
         <button
-          onClick={() => onAnalyze(text)}
+          onClick={() => onAnalyze(text, fileName, ocr, jobDescription.trim() || undefined)}
           disabled={!text.trim() || isBusy}
           className={`
             flex items-center space-x-2 px-8 py-4 rounded-full text-lg font-semibold text-white shadow-lg transform transition-all
@@ -183,7 +202,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onAnalyze, isAnalyzing }
           {isAnalyzing ? (
             <>
               <Loader2 className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" />
-              <span>Analyzing Patterns...</span>
+              <span>{progress ? `${progress.label}... ${progress.percent}%` : 'Analyzing Patterns...'}</span>
             </>
           ) : (
             <>
@@ -192,6 +211,20 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onAnalyze, isAnalyzing }
             </>
           )}
         </button>
+
+        {isAnalyzing && (
+          <div className="w-full max-w-md flex items-center gap-3">
+            <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all duration-200" style={{ width: `${progress?.percent ?? 0}%` }} />
+            </div>
+            <button
+              onClick={onCancel}
+              className="flex items-center gap-1 text-sm font-medium text-slate-500 hover:text-red-600 transition-colors"
+            >
+              <X size={16} /> Cancel
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,96 @@
+import React from 'react';
+import { HighlightSpan, SentenceScore, SharedPassage } from '../types';
+
+interface HighlightedTextProps {
+  text: string;
+  sentences: SentenceScore[];
+  highlights: HighlightSpan[];
+  sharedPassages?: SharedPassage[]; // Outlined; passages outside the scored sentences are not shown
+}
+
+// Heat-map background for a 0-100 AI score; cool sentences stay unshaded.
+const heatClass = (score: number) => {
+  if (score >= 80) return 'bg-red-200/80';
+  if (score >= 65) return 'bg-orange-200/70';
+  if (score >= 50) return 'bg-amber-100/80';
+  return '';
+};
+
+const Tooltip: React.FC<{ group: 'sentence' | 'marker'; children: React.ReactNode }> = ({ group, children }) => (
+  <span
+    className={`pointer-events-none absolute left-0 bottom-full mb-2 z-20 hidden w-72 rounded-lg bg-slate-900 px-3 py-2 text-xs font-normal leading-snug text-white shadow-xl ${
+      group === 'sentence' ? 'group-hover/sentence:block' : 'group-hover/marker:block'
+    }`}
+  >
+    {children}
+  </span>
+);
+
+/**
+ * Renders the analyzed text with each sentence shaded by its AI score and
+ * every matched marker phrase underlined. Sentences other resumes repeat get
+ * a dashed outline. Hovering explains the highlight.
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, sentences, highlights, sharedPassages = [] }) => {
+  const nodes: React.ReactNode[] = [];
+  let cursor = 0;
+
+  sentences.forEach((sentence, sIdx) => {
+    if (sentence.start > cursor) nodes.push(text.slice(cursor, sentence.start));
+
+    const parts: React.ReactNode[] = [];
+    let inner = sentence.start;
+    highlights
+      .filter(h => h.start >= sentence.start && h.end <= sentence.end)
+      .forEach((marker, mIdx) => {
+        if (marker.start < inner) return; // Overlapping match, already rendered
+        if (marker.start > inner) parts.push(text.slice(inner, marker.start));
+        parts.push(
+          <span key={mIdx} className="group/marker relative font-semibold text-red-700 underline decoration-red-400 decoration-2 underline-offset-2">
+            {text.slice(marker.start, marker.end)}
+            <Tooltip group="marker">{marker.explanation}</Tooltip>
+          </span>
+        );
+        inner = marker.end;
+      });
+    if (inner < sentence.end) parts.push(text.slice(inner, sentence.end));
+
+    const shared = sharedPassages.find(p => p.start < sentence.end && p.end > sentence.start);
+    nodes.push(
+      <span key={`s-${sIdx}`} className={`group/sentence relative rounded px-0.5 ${heatClass(sentence.score)} ${shared ? 'outline-dashed outline-2 outline-violet-400' : ''}`}>
+        {parts}
+        <Tooltip group="sentence">
+          <span className="block font-semibold mb-1">AI likelihood: {sentence.score}%</span>
+          {sentence.reasons.length > 0
+            ? sentence.reasons.map((reason, rIdx) => <span key={rIdx} className="block">• {reason}</span>)
+            : <span className="block text-slate-300">No sentence-level signals</span>}
+          {shared && (
+            <span className="block mt-1 text-violet-200">
+              Shared with {shared.matches.length} other applicant{shared.matches.length === 1 ? '' : 's'}: {shared.matches.map(m => m.name).join(', ')}
+            </span>
+          )}
+        </Tooltip>
+      </span>
+    );
+    cursor = sentence.end;
+  });
+
+  if (cursor < text.length) nodes.push(text.slice(cursor));
+
+  return (
+    <div>
+      <div className="whitespace-pre-wrap text-slate-700 leading-7 text-sm">
+        {nodes}
+      </div>
+      <div className="mt-4 flex items-center gap-4 text-xs text-slate-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-amber-100" /> 50%+</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-orange-200" /> 65%+</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-200" /> 80%+</span>
+        <span className="flex items-center gap-1"><span className="font-semibold text-red-700 underline">marker</span> AI phrase</span>
+        {sharedPassages.length > 0 && (
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded outline-dashed outline-2 outline-violet-400" /> Shared with other applicants</span>
+        )}
+      </div>
+    </div>
+  );
+};
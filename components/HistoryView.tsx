@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { History, Search, Trash2, ExternalLink, RotateCw, AlertCircle, Loader2 } from 'lucide-react';
+import { HistoryRecord } from '../types';
+import { deleteAnalysis, listAnalyses, matchesHistoryQuery } from '../services/historyStore';
+import { ANALYZER_VERSION } from '../services/reproducibility';
+import { isInconclusive } from '../services/uncertainty';
+
+interface HistoryViewProps {
+  onOpen: (record: HistoryRecord) => void;
+  onReanalyze: (record: HistoryRecord) => void;
+}
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ onOpen, onReanalyze }) => {
+  const [records, setRecords] = useState<HistoryRecord[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listAnalyses()
+      .then(setRecords)
+      .catch((err) => {
+        console.error(err);
+        setError(err.message || "Could not open the local history database.");
+        setRecords([]);
+      });
+  }, []);
+
+  const handleDelete = async (record: HistoryRecord) => {
+    if (!window.confirm(`Delete the analysis of "${record.fileName ?? 'pasted text'}"? This cannot be undone.`)) return;
+    try {
+      await deleteAnalysis(record.id);
+      setRecords(prev => (prev ?? []).filter(r => r.id !== record.id));
+    } catch (err: any) {
+      setError(err.message || "Could not delete the analysis.");
+    }
+  };
+
+  const visible = (records ?? []).filter(r => matchesHistoryQuery(r, query));
+
+  return (
+    <div className="w-full max-w-5xl mx-auto space-y-8 animate-fade-in-up">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-slate-900 mb-4">Analysis History</h2>
+        <p className="text-slate-600 max-w-2xl mx-auto">
+          Every analysis is stored in this browser with its text hash and analyzer version, as an audit trail of screening decisions.
+        </p>
+      </div>
+
+      <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <History size={20} className="text-blue-500" /> Saved Analyses
+            {records && <span className="text-sm font-medium text-slate-400">{records.length}</span>}
+          </h3>
+          <div className="relative">
+            <Search size={14} className="absolute left-2.5 top-2.5 text-slate-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search name, hash, verdict, flags"
+              className="pl-8 pr-3 py-1.5 border border-slate-200 rounded-lg text-sm w-72"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 flex items-center gap-2 text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
+            <AlertCircle size={16} /> {error}
+          </div>
+        )}
+
+        {records === null ? (
+          <div className="flex justify-center py-12 text-slate-400"><Loader2 className="animate-spin" size={24} /></div>
+        ) : visible.length === 0 ? (
+          <p className="text-center text-slate-400 py-12">
+            {records.length === 0 ? "No analyses saved yet." : "No analyses match your search."}
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {visible.map(record => (
+              <li key={record.id} className="py-4 flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-slate-800 truncate">{record.fileName ?? 'Pasted text'}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${
+                      isInconclusive(record.result) ? 'bg-slate-100 text-slate-600'
+                        : record.result.isAiGenerated ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+                    }`}>
+                      {record.result.aiProbability}% AI
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-400 font-mono mt-1 flex flex-wrap gap-x-3">
+                    <span>{new Date(record.createdAt).toLocaleString()}</span>
+                    <span title={record.contentHash}>{record.contentHash.slice(0, 19)}…</span>
+                    <span className={record.analyzerVersion === ANALYZER_VERSION ? '' : 'text-amber-600'}>
+                      v{record.analyzerVersion}{record.analyzerVersion !== ANALYZER_VERSION && ' (outdated)'}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex gap-2 text-sm">
+                  <button onClick={() => onOpen(record)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50">
+                    <ExternalLink size={14} /> Open
+                  </button>
+                  <button onClick={() => onReanalyze(record)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50" title={`Re-run with analyzer v${ANALYZER_VERSION}`}>
+                    <RotateCw size={14} /> Re-analyze
+                  </button>
+                  <button onClick={() => handleDelete(record)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-slate-200 text-slate-400 hover:text-red-600 hover:bg-red-50" aria-label="Delete">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Trash2, Download, Upload, RotateCcw, BookOpen, AlertCircle } from 'lucide-react';
+import { LexiconCategory, LexiconEntry } from '../types';
+import { LEXICON_CATEGORIES, exportLexicon, importLexicon, loadLexicon, resetLexicon, saveLexicon } from '../services/lexicon';
+
+export const LexiconEditor: React.FC = () => {
+  const [entries, setEntries] = useState<LexiconEntry[]>(() => loadLexicon());
+  const [newPhrase, setNewPhrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const commit = (next: LexiconEntry[]) => {
+    try {
+      saveLexicon(next);
+      setEntries(next);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const updateEntry = (idx: number, patch: Partial<LexiconEntry>) => {
+    commit(entries.map((entry, i) => (i === idx ? { ...entry, ...patch } : entry)));
+  };
+
+  const handleAdd = () => {
+    const phrase = newPhrase.trim().toLowerCase();
+    if (!phrase) return;
+    commit([{ phrase, category: 'ai-cliche', weight: 1 }, ...entries]);
+    setNewPhrase('');
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportLexicon(entries)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'resumeguard-lexicon.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      commit(importLexicon(await file.text()));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <BookOpen size={20} className="text-blue-500" /> Buzzword Lexicon
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            Phrases match inflections ("leverage" also finds "leveraging") and treat hyphens as spaces. Applies to English resumes; German and Spanish resumes use built-in lists. Changes are saved in this browser.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-slate-200 text-sm text-slate-600 hover:bg-slate-50">
+            <Upload size={14} /> Import
+          </button>
+          <button onClick={handleExport} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-slate-200 text-sm text-slate-600 hover:bg-slate-50">
+            <Download size={14} /> Export
+          </button>
+          <button onClick={() => { setEntries(resetLexicon()); setError(null); }} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-slate-200 text-sm text-slate-600 hover:bg-slate-50">
+            <RotateCcw size={14} /> Reset
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="sr-only" onChange={handleImport} />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 flex items-center gap-2 text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
+          <AlertCircle size={16} /> {error}
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-4">
+        <input
+          value={newPhrase}
+          onChange={(e) => setNewPhrase(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Add a phrase, e.g. 'thought leader'"
+          className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button onClick={handleAdd} disabled={!newPhrase.trim()} className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium disabled:bg-slate-300">
+          <Plus size={16} /> Add
+        </button>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto border border-slate-100 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-500 text-xs uppercase sticky top-0">
+            <tr>
+              <th className="text-left px-3 py-2">Phrase</th>
+              <th className="text-left px-3 py-2">Category</th>
+              <th className="text-left px-3 py-2 w-24">Weight</th>
+              <th className="w-10" />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, idx) => (
+              <tr key={`${entry.phrase}-${idx}`} className="border-t border-slate-100">
+                <td className="px-3 py-1.5 font-medium text-slate-700">{entry.phrase}</td>
+                <td className="px-3 py-1.5">
+                  <select
+                    value={entry.category}
+                    onChange={(e) => updateEntry(idx, { category: e.target.value as LexiconCategory })}
+                    className="bg-transparent text-slate-600 border border-slate-200 rounded px-2 py-1"
+                  >
+                    {Object.entries(LEXICON_CATEGORIES).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-3 py-1.5">
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={entry.weight}
+                    onChange={(e) => updateEntry(idx, { weight: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-20 border border-slate-200 rounded px-2 py-1 text-slate-600"
+                  />
+                </td>
+                <td className="px-3 py-1.5 text-right">
+                  <button onClick={() => commit(entries.filter((_, i) => i !== idx))} className="text-slate-400 hover:text-red-500" aria-label={`Remove ${entry.phrase}`}>
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
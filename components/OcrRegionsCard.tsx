@@ -0,0 +1,27 @@
+import React from 'react';
+import { ScanText } from 'lucide-react';
+import { OcrReport } from '../types';
+
+export const OcrRegionsCard: React.FC<{ ocr: OcrReport }> = ({ ocr }) => (
+  <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+    <h3 className="text-xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+      <ScanText size={20} className="text-amber-500" /> OCR Extraction
+    </h3>
+    <p className="text-sm text-slate-500 mb-4">
+      {ocr.pages.length} page{ocr.pages.length === 1 ? '' : 's'} recognized from images, mean confidence {ocr.meanConfidence}%.
+      Lines below {ocr.confidenceThreshold}% confidence were excluded from scoring.
+    </p>
+    {ocr.lowConfidenceRegions.length === 0 ? (
+      <p className="text-sm text-slate-400">No low-confidence regions.</p>
+    ) : (
+      <ul className="space-y-2 max-h-64 overflow-y-auto">
+        {ocr.lowConfidenceRegions.map((region, idx) => (
+          <li key={idx} className="flex items-start gap-3 text-sm">
+            <span className="flex-shrink-0 w-24 text-xs font-mono text-slate-400">p{region.page} · {region.confidence}%</span>
+            <span className="text-slate-600 italic">{region.text}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -158,6 +158,10 @@ export const PythonCodeViewer: React.FC = () => {
           This project can be deployed as a self-contained Python microservice using <strong>FastAPI</strong> and 
           <strong>Hugging Face Transformers</strong>. No external APIs are required.
         </p>
+        <p className="text-sm text-slate-500 max-w-2xl mx-auto mt-2">
+          The same <code className="text-xs bg-slate-100 px-1 rounded">/analyze</code> contract is also implemented in Node on top of this app's analyzer:
+          run <code className="text-xs bg-slate-100 px-1 rounded">npm run serve</code> (OpenAPI document at <code className="text-xs bg-slate-100 px-1 rounded">/openapi.json</code>).
+        </p>
       </div>
 
       <div className="bg-slate-900 rounded-xl shadow-2xl overflow-hidden border border-slate-700">
@@ -0,0 +1,49 @@
+import React from 'react';
+import { LayoutList } from 'lucide-react';
+import { ResumeSectionKind, SectionScore } from '../types';
+
+const SECTION_LABELS: Record<ResumeSectionKind, string> = {
+  contact: 'Contact',
+  summary: 'Summary',
+  experience: 'Experience',
+  education: 'Education',
+  skills: 'Skills',
+  projects: 'Projects',
+  other: 'Other',
+  body: 'Full Text'
+};
+
+export const SectionBreakdown: React.FC<{ sections: SectionScore[] }> = ({ sections }) => (
+  <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+    <h3 className="text-xl font-bold text-slate-900 mb-6 flex items-center gap-2">
+      <LayoutList size={20} className="text-blue-500" /> Section Breakdown
+    </h3>
+    <div className="space-y-3">
+      {sections.map((section, idx) => (
+        <div key={idx} className="flex items-center gap-4 text-sm">
+          <div className="w-40">
+            <div className="font-medium text-slate-700 truncate" title={section.heading ?? undefined}>
+              {section.heading ?? SECTION_LABELS[section.kind]}
+            </div>
+            <div className="text-xs text-slate-400">
+              {section.wordCount} words{section.bulletCount > 0 && ` · ${section.bulletCount} bullets`}
+            </div>
+          </div>
+          {section.aiProbability !== null ? (
+            <>
+              <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${section.aiProbability > 55 ? 'bg-red-500' : 'bg-green-500'}`}
+                  style={{ width: `${section.aiProbability}%` }}
+                />
+              </div>
+              <span className="w-16 text-right font-bold text-slate-700">{section.aiProbability}%</span>
+            </>
+          ) : (
+            <span className="flex-1 text-xs text-slate-400 italic">Not prose — excluded from linguistic metrics</span>
+          )}
+        </div>
+      ))}
+    </div>
+  </div>
+);
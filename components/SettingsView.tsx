@@ -0,0 +1,18 @@
+import React from 'react';
+import { LexiconEditor } from './LexiconEditor';
+import { BackendSettingsPanel } from './BackendSettingsPanel';
+import { ClassifierPanel } from './ClassifierPanel';
+
+export const SettingsView: React.FC = () => (
+  <div className="w-full max-w-5xl mx-auto space-y-8 animate-fade-in-up">
+    <div className="text-center">
+      <h2 className="text-3xl font-bold text-slate-900 mb-4">Detection Settings</h2>
+      <p className="text-slate-600 max-w-2xl mx-auto">
+        Choose the analysis backend and tune what the local analyzer looks for. Settings are stored in this browser only.
+      </p>
+    </div>
+    <BackendSettingsPanel />
+    <ClassifierPanel />
+    <LexiconEditor />
+  </div>
+);
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Copy } from 'lucide-react';
+import { SimilarityReport } from '../types';
+
+export const SimilarityPanel: React.FC<{ similarity: SimilarityReport }> = ({ similarity }) => (
+  <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+    <h3 className="text-xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+      <Copy size={20} className="text-violet-500" /> Shared With {similarity.sharedWith} Other Applicant{similarity.sharedWith === 1 ? '' : 's'}
+      {similarity.cluster && <span className="text-sm font-medium text-violet-600">{similarity.cluster}</span>}
+    </h3>
+    <p className="text-sm text-slate-500 mb-6">
+      Compared with {similarity.comparedWith} resume{similarity.comparedWith === 1 ? '' : 's'} from this batch and the saved history. Near-identical text across applicants often means a shared template or prompt.
+    </p>
+
+    <div className="space-y-3">
+      {similarity.matches.map(match => (
+        <div key={match.id} className="flex items-center gap-4 text-sm">
+          <div className="w-40">
+            <div className="font-medium text-slate-700 truncate" title={match.name}>{match.name}</div>
+            <div className="text-xs text-slate-400">{match.source === 'history' ? 'History' : 'This batch'}</div>
+          </div>
+          <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-violet-500" style={{ width: `${Math.round(match.similarity * 100)}%` }} />
+          </div>
+          <span className="w-40 text-right text-slate-500 font-mono text-xs">
+            {Math.round(match.similarity * 100)}% · {match.sharedSentences} shared sentence{match.sharedSentences === 1 ? '' : 's'}
+          </span>
+        </div>
+      ))}
+    </div>
+
+    {similarity.passages.length > 0 && (
+      <div className="border-t border-slate-100 pt-6 mt-6">
+        <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Shared Passages</h4>
+        <ul className="space-y-4">
+          {similarity.passages.map(passage => (
+            <li key={passage.start} className="text-sm">
+              <div className="text-slate-800">{passage.text}</div>
+              {passage.matches.map(m => (
+                <div key={m.id} className="mt-1 pl-3 border-l-2 border-violet-200 text-slate-500">
+                  <span className="italic">{m.text}</span>
+                  <span className="ml-2 text-xs font-mono text-violet-600">{m.name} · {Math.round(m.similarity * 100)}%</span>
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,112 @@
+/**
+ * Trains the bundled character n-gram model and writes
+ * services/models/ngram-en.json.
+ *
+ * The model is trained on data/reference-corpus.txt (narrative prose) and
+ * data/resume-corpus.txt (human-written resumes separated by `---` lines).
+ * Resumes go through the analyzer's own path (parseResume, maskNonProse,
+ * sentence segmentation), so the model sees the same prose it later scores.
+ *
+ * The reference band is the spread of document perplexities of human resumes
+ * the model never saw: the resumes are split into folds, and each fold is
+ * scored by a model trained on everything else. The detector compares a
+ * resume's document perplexity against this band.
+ *
+ * Usage: npm run build:lm            rebuild and write the model
+ *        npm run check:lm            rebuild in memory; exit 1 if the committed model differs
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { NgramModel, loadNgramModel, measurePerplexity, trainNgramModel } from '../services/languageModel';
+import { parseLabeledCorpus } from '../services/evaluation';
+import { MIN_PROSE_WORDS } from '../services/geminiService';
+import { maskNonProse, parseResume } from '../services/resumeParser';
+import { countWords, splitSentences } from '../services/tokenizer';
+
+const ORDER = 4;
+const FOLDS = 5;
+
+const check = process.argv.includes('--check');
+const root = resolve(import.meta.dirname, '..');
+const read = (path: string) => readFileSync(resolve(root, path), 'utf8');
+const outPath = resolve(root, 'services/models/ngram-en.json');
+
+/** The sentences the analyzer would score for a resume. */
+const proseSentences = (text: string): string[] => {
+  const prose = maskNonProse(text, parseResume(text));
+  return splitSentences(countWords(prose) >= MIN_PROSE_WORDS ? prose : text);
+};
+
+const referenceSentences = read('data/reference-corpus.txt')
+  .split('\n')
+  .flatMap((line) => splitSentences(line));
+const resumes = read('data/resume-corpus.txt')
+  .split(/^---$/m)
+  .map((resume) => resume.trim())
+  .filter(Boolean)
+  .map(proseSentences);
+
+// --- 1. Reference band from held-out resumes ---
+const heldOut: number[] = [];
+for (let fold = 0; fold < FOLDS; fold++) {
+  const training = resumes.filter((_, i) => i % FOLDS !== fold).flat();
+  const probe = loadNgramModel(trainNgramModel([...referenceSentences, ...training], ORDER));
+  resumes
+    .filter((_, i) => i % FOLDS === fold)
+    .forEach((sentences) => heldOut.push(measurePerplexity(probe, sentences).documentPerplexity));
+}
+heldOut.sort((a, b) => a - b);
+const percentile = (p: number) => heldOut[Math.min(heldOut.length - 1, Math.floor(p * heldOut.length))];
+
+// --- 2. Final model on everything ---
+const model = trainNgramModel([...referenceSentences, ...resumes.flat()], ORDER);
+model.reference = {
+  p05: +percentile(0.05).toFixed(3),
+  p50: +percentile(0.5).toFixed(3),
+  p95: +percentile(0.95).toFixed(3)
+};
+model.discounts = model.discounts.map((d) => +d.toFixed(4));
+
+/**
+ * One top-level field per line and one line per order of counts, with grams
+ * in a fixed order, so a rebuild shows up as a readable diff.
+ */
+const serialize = (m: NgramModel): string => {
+  const counts = m.counts.map((level) =>
+    JSON.stringify(Object.fromEntries(Object.entries(level).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))))
+  );
+  const fields = [
+    `"version": ${m.version}`,
+    `"order": ${m.order}`,
+    `"alphabet": ${JSON.stringify(m.alphabet)}`,
+    `"discounts": ${JSON.stringify(m.discounts)}`,
+    `"counts": [\n    ${counts.join(',\n    ')}\n  ]`,
+    `"reference": ${JSON.stringify(m.reference)}`
+  ];
+  return `{\n  ${fields.join(',\n  ')}\n}\n`;
+};
+const output = serialize(model);
+
+if (check) {
+  if (read('services/models/ngram-en.json') !== output) {
+    console.error('services/models/ngram-en.json is out of date; run npm run build:lm');
+    process.exit(1);
+  }
+  console.log('services/models/ngram-en.json is up to date');
+} else {
+  writeFileSync(outPath, output);
+  console.log(`Trained order-${ORDER} model on ${referenceSentences.length} prose and ${resumes.flat().length} resume sentences`);
+  console.log(`Held-out resume perplexity p05=${model.reference.p05} p50=${model.reference.p50} p95=${model.reference.p95}`);
+
+  // Sanity check: human samples should land inside the band
+  const lm = loadNgramModel(model);
+  const samples = parseLabeledCorpus(read('data/eval-sample.jsonl'));
+  const median = (label: 0 | 1) => {
+    const values = samples
+      .filter((s) => s.label === label)
+      .map((s) => measurePerplexity(lm, proseSentences(s.text)).documentPerplexity)
+      .sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)].toFixed(2);
+  };
+  console.log(`data/eval-sample.jsonl median perplexity: human ${median(0)}, AI ${median(1)}`);
+}
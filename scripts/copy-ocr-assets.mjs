@@ -0,0 +1,39 @@
+/**
+ * Copies the OCR runtime (tesseract.js worker, WASM core and English
+ * language data) from node_modules into public/tesseract, so OCR runs fully
+ * offline from the app's own origin. Runs automatically after npm install.
+ * Plain JavaScript so it runs under node without devDependencies
+ * (npm install --omit=dev).
+ */
+import { copyFileSync, existsSync, mkdirSync, readdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const modules = resolve(root, 'node_modules');
+const target = resolve(root, 'public/tesseract');
+
+const copy = (from, to) => {
+  if (!existsSync(from)) {
+    console.warn(`OCR asset missing, skipping: ${from}`);
+    return;
+  }
+  mkdirSync(resolve(to, '..'), { recursive: true });
+  copyFileSync(from, to);
+};
+
+copy(resolve(modules, 'tesseract.js/dist/worker.min.js'), resolve(target, 'worker.min.js'));
+
+const coreDir = resolve(modules, 'tesseract.js-core');
+if (existsSync(coreDir)) {
+  for (const file of readdirSync(coreDir).filter(f => f.startsWith('tesseract-core'))) {
+    copy(resolve(coreDir, file), resolve(target, 'core', file));
+  }
+}
+
+copy(
+  resolve(modules, '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz'),
+  resolve(target, 'lang/eng.traineddata.gz')
+);
+
+console.log(`OCR assets ready in ${target}`);
@@ -0,0 +1,67 @@
+/**
+ * Evaluates the analyzer on a labeled JSONL corpus and fits a calibration.
+ *
+ * Usage: npm run evaluate -- <corpus.jsonl> [--method platt|isotonic] [--json] [--write]
+ *
+ * --json   print the full EvaluationReport instead of the summary table
+ * --write  save the fitted calibration to services/models/calibration.json,
+ *          making it the bundled default
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { CalibrationMethod, ClassificationMetrics } from '../types';
+import { analyzeResume } from '../services/geminiService';
+import { parseLabeledCorpus, runEvaluation } from '../services/evaluation';
+import { CALIBRATION_METHODS } from '../services/calibration';
+
+const args = process.argv.slice(2);
+const flag = (name: string) => args.includes(`--${name}`);
+const option = (name: string) => {
+  const idx = args.indexOf(`--${name}`);
+  return idx >= 0 ? args[idx + 1] : undefined;
+};
+
+const corpusPath = args.find((arg, i) => !arg.startsWith('--') && args[i - 1] !== '--method');
+const method = (option('method') ?? 'platt') as CalibrationMethod;
+if (!corpusPath || !(method in CALIBRATION_METHODS)) {
+  console.error('Usage: npm run evaluate -- <corpus.jsonl> [--method platt|isotonic] [--json] [--write]');
+  process.exit(2);
+}
+
+const root = resolve(import.meta.dirname, '..');
+const samples = parseLabeledCorpus(readFileSync(resolve(corpusPath), 'utf8'));
+
+const report = await runEvaluation(samples, {
+  method,
+  analyze: analyzeResume,
+  onProgress: (done, total) => process.stderr.write(`\rScoring ${done}/${total}`)
+});
+process.stderr.write('\n');
+
+if (flag('json')) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  const row = (label: string, raw: string, calibrated: string) =>
+    console.log(`${label.padEnd(22)}${raw.padStart(12)}${calibrated.padStart(14)}`);
+  const both = (pick: (m: ClassificationMetrics) => string) => [pick(report.raw), pick(report.calibrated)] as const;
+
+  console.log(`Analyzer ${report.analyzerVersion}: ${samples.length} samples (${report.trainCount} train / ${report.testCount} test)`);
+  console.log(`Calibration: ${CALIBRATION_METHODS[method]}\n`);
+  row('Test split', 'Raw', 'Calibrated');
+  row('ROC-AUC', ...both(m => m.rocAuc.toFixed(3)));
+  row('Precision', ...both(m => pct(m.precision)));
+  row('Recall', ...both(m => pct(m.recall)));
+  row('F1', ...both(m => m.f1.toFixed(3)));
+  row('Accuracy', ...both(m => pct(m.accuracy)));
+  row('Brier score', ...both(m => m.brierScore.toFixed(3)));
+  row('Calibration error', ...both(m => m.expectedCalibrationError.toFixed(3)));
+  row('TP / FP / TN / FN', ...both(({ confusion: c }) =>
+    `${c.truePositives}/${c.falsePositives}/${c.trueNegatives}/${c.falseNegatives}`));
+}
+
+if (flag('write')) {
+  const outPath = resolve(root, 'services/models/calibration.json');
+  writeFileSync(outPath, JSON.stringify(report.calibration, null, 2) + '\n');
+  console.error(`Wrote ${CALIBRATION_METHODS[method]} fitted on ${samples.length} samples to ${outPath}`);
+}
@@ -0,0 +1,87 @@
+/**
+ * Stand-in for a self-hosted analysis service, for trying the HTTP backend's
+ * timeouts, retries and local fallback without a real model. Answers
+ * POST /analyze and GET /health with the contract in docs/openapi.json.
+ *
+ * Usage: npm run mock-backend -- [options]
+ *
+ * --port <n>            listen port (default 8001)
+ * --delay <ms>          wait before every response (default 0)
+ * --fail-first <n>      answer the first n analyze requests with --status (default 0)
+ * --status <code>       status code for failures (default 503)
+ * --ai-probability <n>  probability returned by every successful analysis (default 80)
+ */
+import { createServer } from 'node:http';
+import { API_VERDICTS } from '../services/apiContract';
+
+const USAGE = 'Usage: npm run mock-backend -- [--port 8001] [--delay ms] [--fail-first n] [--status 503] [--ai-probability 80]';
+
+const options = { port: 8001, delay: 0, failFirst: 0, status: 503, aiProbability: 80 };
+const FLAGS: Record<string, keyof typeof options> = {
+  '--port': 'port',
+  '--delay': 'delay',
+  '--fail-first': 'failFirst',
+  '--status': 'status',
+  '--ai-probability': 'aiProbability'
+};
+
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i++) {
+  const key = FLAGS[args[i]];
+  const value = Number(args[++i]);
+  if (!key || !Number.isFinite(value)) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+  options[key] = value;
+}
+
+let analyzeCount = 0;
+
+const server = createServer((req, res) => {
+  // Consume the upload; its content does not matter here
+  req.resume();
+  req.on('end', () => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    let status = 200;
+    let body: unknown;
+
+    if (req.method === 'OPTIONS') {
+      status = 204;
+    } else if (req.method === 'GET' && url.pathname === '/health') {
+      body = { status: 'ok', analyzer_version: 'mock' };
+    } else if (req.method === 'POST' && url.pathname === '/analyze') {
+      if (++analyzeCount <= options.failFirst) {
+        status = options.status;
+        body = { detail: `Mock failure ${analyzeCount} of ${options.failFirst}` };
+      } else {
+        const isAi = options.aiProbability > 50;
+        body = {
+          is_ai_generated: isAi,
+          ai_probability: options.aiProbability,
+          verdict: isAi ? API_VERDICTS.ai : API_VERDICTS.human,
+          flags: isAi ? ['Mock backend verdict'] : [],
+          linguistic_score: 100 - options.aiProbability
+        };
+      }
+    } else {
+      status = 404;
+      body = { detail: 'Not Found' };
+    }
+
+    setTimeout(() => {
+      res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type'
+      });
+      res.end(body === undefined ? undefined : JSON.stringify(body));
+      console.error(`${req.method} ${url.pathname} ${status}`);
+    }, options.delay);
+  });
+});
+
+server.listen(options.port, () => {
+  console.error(`Mock backend listening on http://localhost:${options.port}`);
+});
@@ -0,0 +1,14 @@
+/**
+ * Points OCR at the language data in node_modules, for the Node entry points
+ * (the browser loads it from public/tesseract instead).
+ */
+import { resolve } from 'node:path';
+import { configureOcr } from '../services/ocr';
+
+export const configureLocalOcr = () => {
+  configureOcr({
+    langPath: resolve(import.meta.dirname, '../node_modules/@tesseract.js-data/eng/4.0.0_best_int'),
+    gzip: true,
+    cacheMethod: 'none'
+  });
+};
@@ -0,0 +1,205 @@
+/**
+ * Screens resume files from the command line with the same extraction and
+ * analysis code as the app, e.g. an ATS export folder from a cron job.
+ *
+ * Usage: npm run -s scan -- <file-or-directory>... [options]
+ *
+ * --format table|json|csv  output format (default: table); json and csv
+ *                          match the app's batch exports (docs/report-schema.md)
+ * --threshold <0-100>      AI probability above which a resume is flagged
+ *                          (default: the app's verdict threshold); inconclusive
+ *                          results are never flagged
+ * --watch                  keep running and screen files as they are added
+ *                          or changed
+ * --job <file>             plain-text job description to match every resume
+ *                          against (keyword coverage and paraphrased sentences)
+ *
+ * Resumes are compared with each other for near-duplicates, and in watch
+ * mode also with every file screened earlier.
+ *
+ * Exit codes: 0 nothing flagged, 1 at least one resume above the threshold,
+ * 2 bad arguments, 3 some files could not be analyzed (and none flagged).
+ */
+import { existsSync, readdirSync, readFileSync, statSync, watch } from 'node:fs';
+import { basename, join, relative, resolve } from 'node:path';
+import { BatchItem } from '../types';
+import { addSimilarity, createBatchItems, runBatch } from '../services/batchAnalysis';
+import { batchDocuments } from '../services/similarity';
+import { isSupportedFile } from '../services/extraction';
+import { terminateOcr } from '../services/ocr';
+import { AI_PROBABILITY_THRESHOLD } from '../services/geminiService';
+import { buildBatchJsonReport, buildCsv } from '../services/reportExport';
+import { inconclusiveLabel, isInconclusive } from '../services/uncertainty';
+import { configureLocalOcr } from './nodeOcr';
+
+type OutputFormat = 'table' | 'json' | 'csv';
+
+const EXIT_FLAGGED = 1;
+const EXIT_USAGE = 2;
+const EXIT_FAILED = 3;
+// Editors often write a file in several steps; wait for them to settle.
+const WATCH_DEBOUNCE_MS = 500;
+
+const USAGE = 'Usage: npm run -s scan -- <file-or-directory>... [--format table|json|csv] [--threshold 0-100] [--watch] [--job posting.txt]';
+
+const fail = (message: string): never => {
+  console.error(`${message}\n${USAGE}`);
+  process.exit(EXIT_USAGE);
+};
+
+// --- 1. Arguments ---
+
+const args = process.argv.slice(2);
+const paths: string[] = [];
+let format: OutputFormat = 'table';
+let threshold = AI_PROBABILITY_THRESHOLD;
+let watchMode = false;
+let jobDescription: string | undefined;
+
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+  if (arg === '--format') {
+    const value = args[++i];
+    if (value !== 'table' && value !== 'json' && value !== 'csv') fail(`Unknown format "${value}".`);
+    format = value as OutputFormat;
+  } else if (arg === '--threshold') {
+    threshold = Number(args[++i]);
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) fail('--threshold must be a number from 0 to 100.');
+  } else if (arg === '--watch') {
+    watchMode = true;
+  } else if (arg === '--job') {
+    const path = args[++i];
+    if (!path || !existsSync(path)) fail(`Job description file "${path ?? ''}" does not exist.`);
+    jobDescription = readFileSync(path, 'utf8');
+  } else if (arg === '--help' || arg === '-h') {
+    console.log(USAGE);
+    process.exit(0);
+  } else if (arg.startsWith('--')) {
+    fail(`Unknown option ${arg}.`);
+  } else {
+    paths.push(resolve(arg));
+  }
+}
+
+if (paths.length === 0) fail('No file or directory given.');
+paths.filter(path => !existsSync(path)).forEach(path => fail(`${path} does not exist.`));
+
+configureLocalOcr();
+
+// --- 2. Collecting files ---
+
+const isCandidate = (path: string) => {
+  const name = basename(path);
+  return !name.startsWith('.') && (isSupportedFile({ name } as File) || name.toLowerCase().endsWith('.zip'));
+};
+
+const walk = (path: string): string[] => {
+  if (!statSync(path).isDirectory()) return [path];
+  return readdirSync(path)
+    .filter(name => !name.startsWith('.'))
+    .sort()
+    .flatMap(name => walk(join(path, name)))
+    .filter(isCandidate);
+};
+
+// Named relative to the working directory so reports stay readable
+const toFile = (path: string) => new File([readFileSync(path)], relative(process.cwd(), path) || basename(path));
+
+// --- 3. Screening and output ---
+
+// Inconclusive results sit at 50% without a verdict, so no threshold flags them
+const isFlagged = (item: BatchItem) =>
+  !!item.result && !isInconclusive(item.result) && item.result.aiProbability > threshold;
+
+const formatTable = (items: BatchItem[]): string => {
+  const rows = items.map(item => [
+    isFlagged(item) ? '!' : ' ',
+    item.fileName,
+    !item.result ? 'Error'
+      : isInconclusive(item.result) ? `Inconclusive (${inconclusiveLabel(item.result).toLowerCase()})`
+      : item.result.isAiGenerated ? 'AI' : 'Human',
+    item.result ? `${item.result.aiProbability}%` : '-',
+    item.result ? item.result.flags.join('; ') : item.error ?? ''
+  ]);
+  const header = [' ', 'File', 'Verdict', 'AI', 'Flags'];
+  const widths = header.map((h, col) =>
+    col === header.length - 1 ? 0 : Math.max(h.length, ...rows.map(row => row[col].length)));
+  const line = (cells: string[]) => cells.map((cell, col) => cell.padEnd(widths[col])).join('  ').trimEnd();
+  const flagged = items.filter(isFlagged).length;
+  const inconclusive = items.filter(item => item.result && isInconclusive(item.result)).length;
+  return [
+    line(header),
+    ...rows.map(line),
+    '',
+    `${items.length} file(s), ${flagged} above ${threshold}% AI probability, ${inconclusive} inconclusive`
+  ].join('\n');
+};
+
+const render = (items: BatchItem[]): string =>
+  format === 'json' ? JSON.stringify(buildBatchJsonReport(items), null, 2)
+    : format === 'csv' ? buildCsv(items).trimEnd()
+    : formatTable(items);
+
+// Everything screened so far, by file name; in watch mode new files are
+// compared with these (there is no saved history under Node)
+const screened = new Map<string, BatchItem>();
+
+const screen = async (filePaths: string[]): Promise<BatchItem[]> => {
+  const { items, files } = await createBatchItems(filePaths.map(toFile));
+  const finished = await runBatch(items, files, () => {}, { jobDescription });
+  const names = new Set(finished.map(item => item.fileName));
+  const earlier = batchDocuments([...screened.values()].filter(item => !names.has(item.fileName)), 'history')
+    .map(doc => ({ ...doc, id: doc.name }));
+  const { items: compared } = await addSimilarity(finished, earlier);
+  compared.forEach(item => screened.set(item.fileName, item));
+  return compared;
+};
+
+const exitCode = (items: BatchItem[]) =>
+  items.some(isFlagged) ? EXIT_FLAGGED : items.some(item => item.status === 'error') ? EXIT_FAILED : 0;
+
+// --- 4. One-shot or watch mode ---
+
+const initialPaths = paths.flatMap(walk);
+const initial = await screen(initialPaths);
+if (initial.length > 0) console.log(render(initial));
+else console.error('No supported resume files found.');
+
+if (!watchMode) {
+  await terminateOcr();
+  process.exit(exitCode(initial));
+}
+
+console.error(`Watching ${paths.length} path(s) for changes. Press Ctrl+C to stop.`);
+const lastSeen = new Map(initialPaths.map(path => [path, statSync(path).mtimeMs]));
+const changed = new Set<string>();
+let timer: ReturnType<typeof setTimeout> | null = null;
+let running = Promise.resolve();
+
+const flush = () => {
+  const batch = [...changed].filter(path => {
+    if (!existsSync(path) || !statSync(path).isFile()) return false;
+    const mtime = statSync(path).mtimeMs;
+    if (lastSeen.get(path) === mtime) return false;
+    lastSeen.set(path, mtime);
+    return true;
+  });
+  changed.clear();
+  if (batch.length === 0) return;
+  // Scans run one after another so output from two batches never interleaves
+  running = running.then(async () => {
+    const items = await screen(batch);
+    console.log(render(items));
+  }).catch(err => console.error(`Scan failed: ${err.message}`));
+};
+
+paths.forEach(path => {
+  const isDirectory = statSync(path).isDirectory();
+  watch(path, { recursive: isDirectory }, (_event, name) => {
+    const target = isDirectory && name ? join(path, name.toString()) : path;
+    if (!isCandidate(target)) return;
+    changed.add(target);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, WATCH_DEBOUNCE_MS);
+  });
+});
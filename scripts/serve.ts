@@ -0,0 +1,233 @@
+/**
+ * HTTP API server implementing the contract of the Python reference service
+ * (Python Code tab) on top of the real analyzer. Endpoints and payloads are
+ * described in docs/openapi.json, which is also served at /openapi.json.
+ *
+ * Usage: npm run serve
+ *
+ * Environment:
+ *   PORT, HOST          listen address (default 8000 on 0.0.0.0, like uvicorn.run in main.py)
+ *   MAX_UPLOAD_MB       cap on a request body before it is parsed (default 10)
+ *   CORS_ORIGIN         Access-Control-Allow-Origin value (default *)
+ *
+ * Multipart limits and error messages follow Starlette 0.35, pinned through
+ * fastapi 0.109: at most 1000 files and 1000 fields per request, no limit on
+ * a single part, and errors as `{ "detail": "..." }`. As in main.py, files
+ * other than PDF and Word documents are decoded as UTF-8 text; images are
+ * the one addition and go through OCR.
+ */
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { ApiBatchItem, ApiErrorBody } from '../types';
+import { analyzeResume } from '../services/geminiService';
+import { expandZipArchive, extractDocument, isZipFile } from '../services/extraction';
+import { toApiResult } from '../services/apiContract';
+import { isRecord } from '../services/shared';
+import { ANALYZER_VERSION } from '../services/reproducibility';
+import { configureLocalOcr } from './nodeOcr';
+
+const PORT = Number(process.env.PORT ?? 8000);
+const HOST = process.env.HOST ?? '0.0.0.0';
+const MAX_BODY_BYTES = Number(process.env.MAX_UPLOAD_MB ?? 10) * 1024 * 1024;
+const CORS_ORIGIN = process.env.CORS_ORIGIN ?? '*';
+
+// Starlette MultiPartParser defaults
+const MAX_FILES = 1000;
+const MAX_FIELDS = 1000;
+
+const openApiDocument = readFileSync(resolve(import.meta.dirname, '../docs/openapi.json'), 'utf8');
+
+/** Ends the request with a FastAPI-shaped error body. */
+class HttpError extends Error {
+  constructor(public status: number, public body: ApiErrorBody) {
+    super(typeof body.detail === 'string' ? body.detail : 'Validation error');
+  }
+}
+
+const httpError = (status: number, detail: string) => new HttpError(status, { detail });
+
+// --- 1. Request parsing ---
+
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolveBody, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // Keep draining the rest so the 413 response can still be delivered
+      if (size > MAX_BODY_BYTES) {
+        chunks.length = 0;
+        reject(httpError(413, `Request body exceeds the ${MAX_BODY_BYTES / 1024 / 1024} MB upload limit.`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolveBody(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+interface ParsedRequest {
+  files: { field: string; file: File }[];
+  fields: Map<string, string>;
+}
+
+const parseBody = async (req: IncomingMessage): Promise<ParsedRequest> => {
+  const contentType = req.headers['content-type'] ?? '';
+  const body = await readBody(req);
+  const parsed: ParsedRequest = { files: [], fields: new Map() };
+  if (body.length === 0) return parsed;
+
+  if (contentType.startsWith('application/json')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(body.toString('utf8'));
+    } catch {
+      throw new HttpError(422, { detail: [{ loc: ['body', 0], msg: 'JSON decode error', type: 'json_invalid' }] });
+    }
+    if (isRecord(json) && typeof json.text === 'string') parsed.fields.set('text', json.text);
+    return parsed;
+  }
+
+  if (contentType.startsWith('multipart/form-data') || contentType.startsWith('application/x-www-form-urlencoded')) {
+    let form: FormData;
+    try {
+      // undici's multipart parser, via the fetch Request built into Node
+      form = await new Request('http://localhost/', { method: 'POST', headers: { 'content-type': contentType }, body }).formData();
+    } catch {
+      throw httpError(400, 'There was an error parsing the body');
+    }
+    let fieldCount = 0;
+    form.forEach((value, field) => {
+      if (typeof value === 'string') {
+        if (++fieldCount > MAX_FIELDS) throw httpError(400, `Too many fields. Maximum number of fields is ${MAX_FIELDS}.`);
+        parsed.fields.set(field, value);
+      } else {
+        if (parsed.files.length >= MAX_FILES) throw httpError(400, `Too many files. Maximum number of files is ${MAX_FILES}.`);
+        parsed.files.push({ field, file: value });
+      }
+    });
+  }
+  return parsed;
+};
+
+// --- 2. Handlers ---
+
+// extractDocument rejects empty documents; the reference service reports those separately
+const EMPTY_DOCUMENT = /^(No text content could be found|OCR could not read)/;
+
+// Read with the document extractors; anything else is UTF-8 text, like main.py
+const DOCUMENT_FILE = /\.(pdf|docx?|png|jpe?g)$/i;
+
+const extractText = async (file: File): Promise<string> => {
+  try {
+    if (!DOCUMENT_FILE.test(file.name)) {
+      return new TextDecoder('utf-8', { fatal: true }).decode(await file.arrayBuffer());
+    }
+    return (await extractDocument(file)).text;
+  } catch (err: any) {
+    if (EMPTY_DOCUMENT.test(err.message)) return '';
+    throw httpError(400, `Text extraction failed: ${err.message}`);
+  }
+};
+
+const analyzeText = async (text: string) => {
+  try {
+    return toApiResult(await analyzeResume(text));
+  } catch (err: any) {
+    throw httpError(500, err.message || 'Analysis failed.');
+  }
+};
+
+const handleAnalyze = async (req: IncomingMessage, url: URL) => {
+  const { files, fields } = await parseBody(req);
+  const upload = files.find(f => f.field === 'file')?.file;
+  const text = upload
+    ? await extractText(upload)
+    : url.searchParams.get('text') ?? fields.get('text') ?? '';
+
+  if (!upload && !text) throw httpError(400, 'No resume provided');
+  if (!text.trim()) throw httpError(400, 'Could not extract text from file');
+  return analyzeText(text);
+};
+
+const handleBatch = async (req: IncomingMessage) => {
+  const { files } = await parseBody(req);
+  const uploads = files.filter(f => f.field === 'files' || f.field === 'file').map(f => f.file);
+  if (uploads.length === 0) throw httpError(400, 'No resume provided');
+
+  const results: ApiBatchItem[] = [];
+  for (const upload of uploads) {
+    const resumes = isZipFile(upload) ? await expandZipArchive(upload).catch(() => [upload]) : [upload];
+    for (const file of resumes) {
+      try {
+        const text = await extractText(file);
+        if (!text.trim()) throw httpError(400, 'Could not extract text from file');
+        results.push({ filename: file.name, result: await analyzeText(text), error: null });
+      } catch (err: any) {
+        results.push({ filename: file.name, result: null, error: err.message });
+      }
+    }
+  }
+  return { results };
+};
+
+// --- 3. Routing ---
+
+type Handler = (req: IncomingMessage, url: URL) => Promise<unknown> | unknown;
+
+const ROUTES: Record<string, Partial<Record<string, Handler>>> = {
+  '/analyze': { POST: handleAnalyze },
+  '/analyze/batch': { POST: handleBatch },
+  '/health': { GET: () => ({ status: 'ok', analyzer_version: ANALYZER_VERSION }) },
+  '/openapi.json': { GET: () => JSON.parse(openApiDocument) }
+};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': CORS_ORIGIN
+  });
+  res.end(JSON.stringify(body));
+};
+
+const server = createServer(async (req, res) => {
+  const started = Date.now();
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  let status = 200;
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': CORS_ORIGIN,
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Max-Age': '600'
+      });
+      res.end();
+      status = 204;
+      return;
+    }
+    const route = ROUTES[url.pathname];
+    if (!route) throw httpError(404, 'Not Found');
+    const handler = route[req.method ?? ''];
+    if (!handler) throw httpError(405, 'Method Not Allowed');
+    send(res, status, await handler(req, url));
+  } catch (err: any) {
+    if (err instanceof HttpError) {
+      status = err.status;
+      send(res, status, err.body);
+    } else {
+      status = 500;
+      console.error(err);
+      send(res, status, { detail: 'Internal Server Error' });
+    }
+  } finally {
+    console.error(`${req.method} ${url.pathname} ${status} ${Date.now() - started}ms`);
+  }
+});
+
+configureLocalOcr();
+server.listen(PORT, HOST, () => {
+  console.error(`ResumeGuard API listening on http://${HOST}:${PORT} (analyzer ${ANALYZER_VERSION})`);
+});
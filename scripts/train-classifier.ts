@@ -0,0 +1,66 @@
+/**
+ * Trains a custom classifier on a labeled JSONL corpus (same format as
+ * `npm run evaluate`) and writes it as JSON, ready to import under
+ * Settings > Custom Classifier.
+ *
+ * Usage: npm run train-classifier -- <corpus.jsonl> [--out classifier.json] [--name "Our pool"] [--l2 1] [--json]
+ *
+ * --out    where to write the model (default classifier.json)
+ * --name   model name shown in the app and recorded on every result
+ * --l2     ridge penalty; raise it for small corpora (default 1)
+ * --json   print the full training report instead of the summary table
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { ClassificationMetrics } from '../types';
+import { analyzeResume } from '../services/geminiService';
+import { parseLabeledCorpus, runClassifierTraining } from '../services/evaluation';
+import { DEFAULT_L2, exportClassifier } from '../services/classifier';
+
+const USAGE = 'Usage: npm run train-classifier -- <corpus.jsonl> [--out classifier.json] [--name "Our pool"] [--l2 1] [--json]';
+const VALUE_OPTIONS = ['--out', '--name', '--l2'];
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const idx = args.indexOf(`--${name}`);
+  return idx >= 0 ? args[idx + 1] : undefined;
+};
+
+const corpusPath = args.find((arg, i) => !arg.startsWith('--') && !VALUE_OPTIONS.includes(args[i - 1]));
+const l2 = Number(option('l2') ?? DEFAULT_L2);
+if (!corpusPath || !Number.isFinite(l2) || l2 < 0) {
+  console.error(USAGE);
+  process.exit(2);
+}
+
+const samples = parseLabeledCorpus(readFileSync(resolve(corpusPath), 'utf8'));
+const report = await runClassifierTraining(samples, {
+  name: option('name'),
+  l2,
+  analyze: analyzeResume,
+  onProgress: (done, total) => process.stderr.write(`\rScoring ${done}/${total}`)
+});
+process.stderr.write('\n');
+
+if (args.includes('--json')) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  const row = (label: string, ensemble: string, classifier: string) =>
+    console.log(`${label.padEnd(22)}${ensemble.padStart(12)}${classifier.padStart(14)}`);
+  const both = (pick: (m: ClassificationMetrics) => string) => [pick(report.ensemble), pick(report.classifier)] as const;
+
+  console.log(`Analyzer ${report.analyzerVersion}: ${samples.length} samples (${report.trainCount} train / ${report.testCount} test)`);
+  console.log(`Features: ${report.model.features.length}, L2 penalty ${l2}\n`);
+  row('Test split', 'Ensemble', 'Classifier');
+  row('ROC-AUC', ...both(m => m.rocAuc.toFixed(3)));
+  row('Precision', ...both(m => pct(m.precision)));
+  row('Recall', ...both(m => pct(m.recall)));
+  row('F1', ...both(m => m.f1.toFixed(3)));
+  row('Accuracy', ...both(m => pct(m.accuracy)));
+  row('Brier score', ...both(m => m.brierScore.toFixed(3)));
+}
+
+const outPath = resolve(option('out') ?? 'classifier.json');
+writeFileSync(outPath, exportClassifier(report.model) + '\n');
+console.error(`Wrote "${report.model.name}" trained on ${samples.length} samples to ${outPath}`);
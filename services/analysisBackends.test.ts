@@ -0,0 +1,89 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { AnalyzeOptions, BackendSettings } from "../types";
+import { analyzeWithBackend, RemoteBackendError } from "./analysisBackends";
+import { DEFAULT_BACKEND_SETTINGS } from "./backendSettings";
+
+const RESUME = `Senior Software Engineer at Acme Inc. from 2019 to 2023.
+• Built the billing service in Go and cut invoice errors by 40%.
+• Moved 12 services from Heroku to AWS ECS over six months.
+• Mentored 5 engineers and ran the weekly on-call review.
+Before that I spent two years fixing printers and writing Perl scripts for a law firm in Leeds.`;
+
+let nextPort = 18301;
+
+/** Starts scripts/mock-backend.ts with `args` and returns its base URL. */
+const startMock = async (t: TestContext, args: string[]): Promise<string> => {
+  const port = nextPort++;
+  const child = spawn(process.execPath, ['--import', 'tsx', 'scripts/mock-backend.ts', '--port', String(port), ...args], {
+    stdio: ['ignore', 'ignore', 'pipe']
+  });
+  t.after(() => child.kill());
+  await new Promise<void>((resolve, reject) => {
+    child.stderr.on('data', chunk => {
+      if (String(chunk).includes('listening')) resolve();
+    });
+    child.on('exit', code => reject(new Error(`Mock backend exited with ${code}`)));
+  });
+  return `http://localhost:${port}`;
+};
+
+/** Analyzes RESUME over HTTP and counts the attempts made on the remote. */
+const analyzeRemote = (settings: Partial<BackendSettings>) => {
+  let attempts = 0;
+  const options: AnalyzeOptions = {
+    onProgress: progress => {
+      if (progress.stage === 'remote') attempts++;
+    }
+  };
+  const run = analyzeWithBackend(RESUME, options, { ...DEFAULT_BACKEND_SETTINGS, kind: 'http', ...settings });
+  return { run, attempts: () => attempts };
+};
+
+test("a 5xx response is retried and the retry's verdict is used", async t => {
+  const httpUrl = await startMock(t, ['--fail-first', '1', '--status', '503', '--ai-probability', '80']);
+  const { run, attempts } = analyzeRemote({ httpUrl, retries: 2 });
+  const result = await run;
+  assert.equal(attempts(), 2);
+  assert.equal(result.backend?.id, 'http');
+  assert.equal(result.aiProbability, 80);
+});
+
+test("a service that keeps failing with 5xx falls back to the local verdict", async t => {
+  const httpUrl = await startMock(t, ['--fail-first', '99', '--status', '502']);
+  const { run, attempts } = analyzeRemote({ httpUrl, retries: 1 });
+  const result = await run;
+  assert.equal(attempts(), 2);
+  assert.equal(result.backend?.id, 'local');
+  assert.equal(result.backend?.requested, 'http');
+  assert.match(result.backend?.fallbackReason ?? '', /502/);
+});
+
+test("timeouts are retried and then fall back", async t => {
+  const httpUrl = await startMock(t, ['--delay', '1000']);
+  const { run, attempts } = analyzeRemote({ httpUrl, retries: 1, timeoutMs: 100 });
+  const result = await run;
+  assert.equal(attempts(), 2);
+  assert.equal(result.backend?.id, 'local');
+  assert.match(result.backend?.fallbackReason ?? '', /Timed out after 100 ms/);
+});
+
+test("a 4xx response is neither retried nor replaced by the local verdict", async t => {
+  const httpUrl = await startMock(t, ['--fail-first', '99', '--status', '422']);
+  const { run, attempts } = analyzeRemote({ httpUrl, retries: 2 });
+  await assert.rejects(run, (err: unknown) => {
+    assert.ok(err instanceof RemoteBackendError);
+    assert.equal(err.retryable, false);
+    assert.match(err.message, /Service returned 422: Mock failure 1 of 99/);
+    return true;
+  });
+  assert.equal(attempts(), 1);
+});
+
+test("without fallback a service that keeps failing is an error", async t => {
+  const httpUrl = await startMock(t, ['--fail-first', '99', '--status', '503']);
+  const { run, attempts } = analyzeRemote({ httpUrl, retries: 1, fallbackToLocal: false });
+  await assert.rejects(run, /Service returned 503/);
+  assert.equal(attempts(), 2);
+});
@@ -0,0 +1,284 @@
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { AnalysisBackend, AnalysisResult, AnalyzeOptions, ApiAnalysisResult, BackendKind, BackendSettings } from "../types";
+import { analyzeInWorker, isAbortError } from "./analysisWorkerClient";
+import { API_RESULT_SCHEMA, fromApiResult, parseApiResult } from "./apiContract";
+import { BACKEND_KINDS, loadBackendSettings } from "./backendSettings";
+import { isRecord } from "./shared";
+
+/**
+ * ANALYSIS BACKENDS
+ *
+ * Where the verdict comes from. The local engine is always run, because the
+ * remote contract (docs/openapi.json) only carries the verdict, probability
+ * and flags; a remote backend overrides those and the sentence-level detail
+ * stays local. Remote calls get a timeout per attempt and are retried on
+ * timeouts, network errors and 5xx/429 responses. If every attempt fails that
+ * way and fallback is enabled, the local verdict is returned with the reason
+ * recorded in `result.backend.fallbackReason`.
+ */
+
+const RETRY_BASE_DELAY_MS = 500;
+// Keeps LLM prompts within a predictable token budget
+const MAX_LLM_CHARS = 20000;
+
+/** A remote failure; `retryable` ones mean the service may be unreachable. */
+export class RemoteBackendError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message);
+  }
+}
+
+const isRetryable = (err: unknown): boolean =>
+  (err instanceof RemoteBackendError && err.retryable) ||
+  // fetch rejects with a TypeError when the host is down or CORS blocks the call
+  err instanceof TypeError;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface RetryOptions {
+  timeoutMs: number;
+  retries: number;
+  signal?: AbortSignal;
+  onAttempt?: (attempt: number, total: number) => void;
+}
+
+/**
+ * Runs `call` with a fresh timeout per attempt, retrying retryable failures
+ * with exponential backoff. Aborting `signal` stops immediately with its reason.
+ */
+export const withRetries = async <T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  { timeoutMs, retries, signal, onAttempt }: RetryOptions
+): Promise<T> => {
+  const total = retries + 1;
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= total; attempt++) {
+    signal?.throwIfAborted();
+    onAttempt?.(attempt, total);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      return await call(controller.signal);
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason;
+      lastError = controller.signal.aborted
+        ? new RemoteBackendError(`Timed out after ${timeoutMs} ms.`, true)
+        : err;
+      if (!isRetryable(lastError)) throw lastError;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (attempt < total) await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+  }
+  throw lastError;
+};
+
+// --- 1. Remote calls ---
+
+const errorDetail = (body: unknown): string => {
+  const detail = isRecord(body) ? body.detail : undefined;
+  return typeof detail === 'string' ? detail
+    : Array.isArray(detail) ? detail.map(d => (isRecord(d) && typeof d.msg === 'string' ? d.msg : '')).filter(Boolean).join('; ')
+    : '';
+};
+
+const endpoint = (baseUrl: string, path: string) => `${baseUrl.replace(/\/+$/, '')}${path}`;
+
+const isRetryableStatus = (status: number) => status >= 500 || status === 429;
+
+/**
+ * POST /analyze on a self-hosted service. The text goes as a multipart
+ * `file` upload, which both the Python reference service and scripts/serve.ts
+ * accept without length limits on the query string.
+ */
+const callHttpBackend = async (baseUrl: string, text: string, signal: AbortSignal): Promise<ApiAnalysisResult> => {
+  const form = new FormData();
+  form.append('file', new Blob([text], { type: 'text/plain' }), 'resume.txt');
+  const url = endpoint(baseUrl, '/analyze');
+  const response = await fetch(url, { method: 'POST', body: form, signal }).catch(err => {
+    throw err instanceof TypeError ? new RemoteBackendError(`Could not connect to ${url}.`, true) : err;
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const detail = errorDetail(body);
+    throw new RemoteBackendError(
+      `Service returned ${response.status}${detail ? `: ${detail}` : ''}.`,
+      isRetryableStatus(response.status)
+    );
+  }
+  try {
+    return parseApiResult(body);
+  } catch (err: any) {
+    throw new RemoteBackendError(err.message, false);
+  }
+};
+
+// Vite replaces process.env.GEMINI_API_KEY at build time; Node reads the environment.
+const buildTimeApiKey = (): string | undefined => {
+  try {
+    return process.env.GEMINI_API_KEY || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const LLM_INSTRUCTION = `You are a forensic linguist screening resumes for AI-generated writing.
+Judge whether the resume was written or heavily rewritten by a language model. Look for generic
+buzzwords, uniform sentence rhythm, absent concrete metrics, and polished but unspecific claims.
+Set ai_probability from 0 (certainly human) to 100 (certainly AI), linguistic_score to
+100 - ai_probability, and list at most five short flags naming the evidence you relied on.`;
+
+const callLlmBackend = async (settings: BackendSettings, text: string, signal: AbortSignal): Promise<ApiAnalysisResult> => {
+  const apiKey = settings.llmApiKey || buildTimeApiKey();
+  if (!apiKey) throw new RemoteBackendError("No Gemini API key configured.", false);
+
+  const ai = new GoogleGenAI({ apiKey });
+  let responseText: string | undefined;
+  try {
+    const response = await ai.models.generateContent({
+      model: settings.llmModel,
+      contents: text.slice(0, MAX_LLM_CHARS),
+      config: {
+        systemInstruction: LLM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseJsonSchema: API_RESULT_SCHEMA,
+        temperature: 0,
+        abortSignal: signal
+      }
+    });
+    responseText = response.text;
+  } catch (err: any) {
+    if (err instanceof ApiError) {
+      throw new RemoteBackendError(`Gemini returned ${err.status}: ${err.message}`, isRetryableStatus(err.status));
+    }
+    throw err;
+  }
+
+  try {
+    return parseApiResult(JSON.parse(responseText ?? ''));
+  } catch {
+    throw new RemoteBackendError("Gemini returned a response that does not match the /analyze contract.", false);
+  }
+};
+
+// --- 2. Backends ---
+
+export const createLocalBackend = (): AnalysisBackend => ({
+  id: 'local',
+  name: BACKEND_KINDS.local,
+  analyze: async (text, options) => ({
+    ...(await analyzeInWorker(text, options)),
+    backend: { id: 'local', requested: 'local' }
+  })
+});
+
+// Share of the progress bar given to the local pass before the remote call
+const LOCAL_PROGRESS_SHARE = 0.7;
+
+const createRemoteBackend = (
+  id: BackendKind,
+  settings: BackendSettings,
+  call: (text: string, signal: AbortSignal) => Promise<ApiAnalysisResult>
+): AnalysisBackend => {
+  const name = BACKEND_KINDS[id];
+  return {
+    id,
+    name,
+    analyze: async (text, options) => {
+      const { onProgress, signal } = options;
+      const local = await analyzeInWorker(text, {
+        ...options,
+        onProgress: onProgress && (p => onProgress({ ...p, percent: Math.round(p.percent * LOCAL_PROGRESS_SHARE) }))
+      });
+
+      try {
+        const api = await withRetries(attemptSignal => call(text, attemptSignal), {
+          timeoutMs: settings.timeoutMs,
+          retries: settings.retries,
+          signal,
+          onAttempt: (attempt, total) => onProgress?.({
+            stage: 'remote',
+            label: `Waiting for ${name}${attempt > 1 ? ` (attempt ${attempt} of ${total})` : ''}`,
+            percent: Math.round(LOCAL_PROGRESS_SHARE * 100) + 5
+          })
+        });
+        const result = fromApiResult(api, local, { id, requested: id }, name);
+        onProgress?.({ stage: 'done', label: 'Done', percent: 100 });
+        return result;
+      } catch (err: any) {
+        if (isAbortError(err) || !settings.fallbackToLocal || !isRetryable(err)) throw err;
+        return { ...local, backend: { id: 'local', requested: id, fallbackReason: `${name} unreachable: ${err.message}` } };
+      }
+    }
+  };
+};
+
+export const createHttpBackend = (settings: BackendSettings): AnalysisBackend =>
+  createRemoteBackend('http', settings, (text, signal) => callHttpBackend(settings.httpUrl, text, signal));
+
+export const createLlmBackend = (settings: BackendSettings): AnalysisBackend =>
+  createRemoteBackend('llm', settings, (text, signal) => callLlmBackend(settings, text, signal));
+
+export const createBackend = (settings: BackendSettings): AnalysisBackend => {
+  switch (settings.kind) {
+    case 'http': return createHttpBackend(settings);
+    case 'llm': return createLlmBackend(settings);
+    default: return createLocalBackend();
+  }
+};
+
+/** Analyzes with the backend chosen in settings (local unless configured otherwise). */
+export const analyzeWithBackend = (
+  text: string,
+  options: AnalyzeOptions = {},
+  settings: BackendSettings = loadBackendSettings()
+): Promise<AnalysisResult> => createBackend(settings).analyze(text, options);
+
+/**
+ * Checks that the configured remote answers without analyzing anything:
+ * GET /health for the HTTP service, a model lookup for the LLM.
+ */
+export const testBackendConnection = async (settings: BackendSettings, signal?: AbortSignal): Promise<string> => {
+  const once = { timeoutMs: settings.timeoutMs, retries: 0, signal };
+  switch (settings.kind) {
+    case 'http':
+      return withRetries(async attemptSignal => {
+        const response = await fetch(endpoint(settings.httpUrl, '/health'), { signal: attemptSignal });
+        const body = await response.json().catch(() => null);
+        if (!response.ok) throw new RemoteBackendError(`Service returned ${response.status}.`, false);
+        return `Connected${body?.analyzer_version ? ` (analyzer ${body.analyzer_version})` : ''}.`;
+      }, once);
+    case 'llm':
+      return withRetries(async attemptSignal => {
+        const apiKey = settings.llmApiKey || buildTimeApiKey();
+        if (!apiKey) throw new RemoteBackendError("No Gemini API key configured.", false);
+        try {
+          const model = await new GoogleGenAI({ apiKey }).models.get({ model: settings.llmModel, config: { abortSignal: attemptSignal } });
+          return `Connected to ${model.displayName ?? settings.llmModel}.`;
+        } catch (err: any) {
+          if (err instanceof ApiError) throw new RemoteBackendError(`Gemini returned ${err.status}: ${err.message}`, false);
+          throw err;
+        }
+      }, once);
+    default:
+      return "The local engine runs in this browser.";
+  }
+};
@@ -0,0 +1,48 @@
+import { AnalysisProgress, AnalysisWorkerRequest, AnalysisWorkerResponse } from "../types";
+import { analyzeResume } from "./geminiService";
+import { compareWithPool } from "./similarity";
+
+/**
+ * ANALYSIS WORKER
+ *
+ * Runs analyzeResume, and the comparison with the saved history
+ * (compareWithPool), off the UI thread. Each request gets its own
+ * AbortController so a 'cancel' with the same id stops it at the next stage
+ * boundary. Talk to it through analysisWorkerClient.ts, not directly.
+ */
+
+const scope = self as unknown as Worker;
+const running = new Map<number, AbortController>();
+
+const reply = (message: AnalysisWorkerResponse) => scope.postMessage(message);
+
+scope.addEventListener('message', async (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    running.get(request.id)?.abort();
+    return;
+  }
+
+  const { id } = request;
+  const controller = new AbortController();
+  running.set(id, controller);
+  const control = {
+    signal: controller.signal,
+    onProgress: (progress: AnalysisProgress) => reply({ type: 'progress', id, progress })
+  };
+
+  try {
+    if (request.type === 'compare') {
+      const comparison = await compareWithPool(request.current, request.earlier, control);
+      reply({ type: 'comparison', id, comparison });
+    } else {
+      const result = await analyzeResume(request.text, { ...request.options, ...control });
+      reply({ type: 'result', id, result });
+    }
+  } catch (err: any) {
+    reply({ type: 'error', id, message: err?.message || "Analysis failed.", aborted: controller.signal.aborted });
+  } finally {
+    running.delete(id);
+  }
+});
@@ -0,0 +1,133 @@
+import {
+  AnalysisProgress, AnalysisResult, AnalysisWorkerRequest, AnalysisWorkerResponse, AnalyzeOptions, SimilarityComparison,
+  SimilarityDocument
+} from "../types";
+import { analyzeResume } from "./geminiService";
+import { compareWithPool } from "./similarity";
+import { loadLexicon } from "./lexicon";
+import { loadCalibration } from "./calibration";
+import { loadActiveClassifier } from "./classifier";
+
+/**
+ * ANALYSIS WORKER CLIENT
+ *
+ * Same contracts as analyzeResume and compareWithPool, but the work happens
+ * in analysisWorker.ts. Progress events are forwarded to `options.onProgress`, and aborting
+ * `options.signal` rejects immediately with an AbortError while the worker
+ * drops the job at its next stage boundary.
+ *
+ * Where workers are unavailable the analysis runs in-thread instead.
+ */
+
+interface PendingJob {
+  resolve: (value: AnalysisResult | SimilarityComparison) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pending = new Map<number, PendingJob>();
+
+const abortError = () => new DOMException("Analysis was cancelled.", "AbortError");
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === "AbortError";
+
+const handleMessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+  const message = event.data;
+  const job = pending.get(message.id);
+  // Jobs cancelled on this side may still report until the worker notices
+  if (!job) return;
+
+  switch (message.type) {
+    case 'progress':
+      job.onProgress?.(message.progress);
+      break;
+    case 'result':
+      pending.delete(message.id);
+      job.resolve(message.result);
+      break;
+    case 'comparison':
+      pending.delete(message.id);
+      job.resolve(message.comparison);
+      break;
+    case 'error':
+      pending.delete(message.id);
+      job.reject(message.aborted ? abortError() : new Error(message.message));
+      break;
+  }
+};
+
+// A worker that fails to load or crashes takes its jobs with it; the next call starts a fresh one.
+const handleCrash = (event: ErrorEvent) => {
+  console.error("Analysis worker failed:", event.message);
+  worker?.terminate();
+  worker = null;
+  pending.forEach(job => job.reject(new Error("The analysis worker stopped unexpectedly.")));
+  pending.clear();
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleCrash);
+  }
+  return worker;
+};
+
+const post = (message: AnalysisWorkerRequest) => getWorker().postMessage(message);
+
+// Requests without their id, which runJob assigns
+type WorkerJob =
+  | Omit<Extract<AnalysisWorkerRequest, { type: 'analyze' }>, 'id'>
+  | Omit<Extract<AnalysisWorkerRequest, { type: 'compare' }>, 'id'>;
+
+const runJob = <T extends AnalysisResult | SimilarityComparison>(
+  job: WorkerJob,
+  { onProgress, signal }: Pick<AnalyzeOptions, 'onProgress' | 'signal'>
+): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(abortError());
+  const id = nextJobId++;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      if (!pending.delete(id)) return;
+      post({ type: 'cancel', id });
+      reject(abortError());
+    };
+    const settle = <V>(fn: (value: V) => void) => (value: V) => {
+      signal?.removeEventListener('abort', onAbort);
+      fn(value);
+    };
+
+    pending.set(id, { resolve: settle(resolve as PendingJob['resolve']), reject: settle(reject), onProgress });
+    signal?.addEventListener('abort', onAbort);
+    post({ ...job, id });
+  });
+};
+
+export const analyzeInWorker = (text: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  if (typeof Worker === 'undefined') return analyzeResume(text, options);
+
+  const { onProgress, signal, ...rest } = options;
+  // The worker has no localStorage, so saved settings are resolved here
+  const serializable = {
+    ...rest,
+    lexicon: rest.lexicon ?? loadLexicon(),
+    calibration: rest.calibration ?? loadCalibration(),
+    // null is meaningful here (force the ensemble), so only undefined falls back
+    classifier: rest.classifier !== undefined ? rest.classifier : loadActiveClassifier()
+  };
+  return runJob<AnalysisResult>({ type: 'analyze', text, options: serializable }, { onProgress, signal });
+};
+
+export const compareInWorker = (
+  current: SimilarityDocument[],
+  earlier: SimilarityDocument[] = [],
+  options: Pick<AnalyzeOptions, 'onProgress' | 'signal'> = {}
+): Promise<SimilarityComparison> => {
+  if (typeof Worker === 'undefined') return compareWithPool(current, earlier, options);
+  return runJob<SimilarityComparison>({ type: 'compare', current, earlier }, options);
+};
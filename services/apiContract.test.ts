@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AnalysisResult } from "../types";
+import { API_VERDICTS, parseApiResult, toApiResult } from "./apiContract";
+
+const result = (fields: Partial<AnalysisResult>): AnalysisResult =>
+  ({ isAiGenerated: true, aiProbability: 72.456, flags: ["Buzzword density"], ...fields }) as AnalysisResult;
+
+test("a verdict maps onto the reference service's fields", () => {
+  assert.deepEqual(toApiResult(result({})), {
+    is_ai_generated: true,
+    ai_probability: 72.46,
+    verdict: API_VERDICTS.ai,
+    flags: ["Buzzword density"],
+    linguistic_score: 27.54,
+    inconclusive_reason: null
+  });
+  assert.equal(toApiResult(result({ isAiGenerated: false, aiProbability: 30 })).verdict, API_VERDICTS.human);
+});
+
+test("results without a verdict are Inconclusive with a reason", () => {
+  const api = toApiResult(result({ isAiGenerated: false, aiProbability: 50, inconclusive: 'insufficient-text' }));
+  assert.equal(api.verdict, API_VERDICTS.inconclusive);
+  assert.equal(api.inconclusive_reason, 'insufficient-text');
+  // Results from 1.8.0 mark an unsupported language only on `language`
+  const legacy = toApiResult(result({ language: { code: 'fr', name: 'French', confidence: 0.9, supported: false } }));
+  assert.equal(legacy.inconclusive_reason, 'unsupported-language');
+});
+
+test("our own responses parse back unchanged", () => {
+  [result({}), result({ isAiGenerated: false, aiProbability: 50, inconclusive: 'unsupported-language' })].forEach(r => {
+    const api = toApiResult(r);
+    assert.deepEqual(parseApiResult(JSON.parse(JSON.stringify(api))), api);
+  });
+});
+
+test("a reference service response without the optional fields is accepted", () => {
+  assert.deepEqual(parseApiResult({ is_ai_generated: false, ai_probability: "12.5", flags: [] }), {
+    is_ai_generated: false,
+    ai_probability: 12.5,
+    verdict: API_VERDICTS.human,
+    flags: [],
+    linguistic_score: 87.5,
+    inconclusive_reason: null
+  });
+});
+
+test("out-of-range probabilities are clamped and unknown reasons dropped", () => {
+  const api = parseApiResult({ is_ai_generated: true, ai_probability: 130, flags: [1], inconclusive_reason: 'other' });
+  assert.equal(api.ai_probability, 100);
+  assert.deepEqual(api.flags, ["1"]);
+  assert.equal(api.inconclusive_reason, null);
+  assert.equal(api.verdict, API_VERDICTS.ai);
+});
+
+test("responses missing required fields are rejected", () => {
+  [null, [], "AI", { ai_probability: 50, flags: [] }, { is_ai_generated: true, ai_probability: "high", flags: [] }, { is_ai_generated: true, ai_probability: 50 }]
+    .forEach(value => assert.throws(() => parseApiResult(value), /does not match the \/analyze contract/));
+});
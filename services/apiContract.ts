@@ -0,0 +1,107 @@
+import { AnalysisResult, ApiAnalysisResult, BackendProvenance, InconclusiveReason } from "../types";
+import { isInconclusive } from "./uncertainty";
+import { isRecord, round2 } from "./shared";
+
+/**
+ * HTTP API CONTRACT
+ *
+ * Maps analyzer results onto the wire format of the Python reference
+ * service (`POST /analyze` in the Python Code tab), which the Node server in
+ * scripts/serve.ts implements. docs/openapi.json describes the endpoints.
+ *
+ * One deliberate, breaking deviation: results without a verdict are sent as
+ * "Inconclusive" with an `inconclusive_reason`, which the reference service
+ * never returns. The OpenAPI document carries version 2.0.0 for it.
+ */
+
+export const API_VERDICTS = {
+  ai: "Likely AI-Generated",
+  human: "Likely Human-Written",
+  inconclusive: "Inconclusive"
+};
+
+const INCONCLUSIVE_REASONS: InconclusiveReason[] = ['insufficient-text', 'unsupported-language'];
+
+const isInconclusiveReason = (value: unknown): value is InconclusiveReason =>
+  INCONCLUSIVE_REASONS.includes(value as InconclusiveReason);
+
+export const toApiResult = (result: AnalysisResult): ApiAnalysisResult => {
+  // Results from before 1.9.0 mark an unsupported language only on `language`
+  const reason = isInconclusive(result) ? (result.inconclusive ?? 'unsupported-language') : null;
+  return {
+    is_ai_generated: result.isAiGenerated,
+    ai_probability: round2(result.aiProbability),
+    verdict: reason ? API_VERDICTS.inconclusive : result.isAiGenerated ? API_VERDICTS.ai : API_VERDICTS.human,
+    flags: result.flags,
+    // As in the reference service: the complement of the AI probability
+    linguistic_score: round2(100 - result.aiProbability),
+    inconclusive_reason: reason
+  };
+};
+
+// JSON Schema of ApiAnalysisResult, for validating remote responses and
+// constraining LLM output. Kept in step with docs/openapi.json.
+export const API_RESULT_SCHEMA = {
+  type: "object",
+  properties: {
+    is_ai_generated: { type: "boolean" },
+    ai_probability: { type: "number", minimum: 0, maximum: 100 },
+    verdict: { type: "string", enum: [API_VERDICTS.ai, API_VERDICTS.human, API_VERDICTS.inconclusive] },
+    flags: { type: "array", items: { type: "string" } },
+    linguistic_score: { type: "number", minimum: 0, maximum: 100 },
+    inconclusive_reason: { type: ["string", "null"], enum: [...INCONCLUSIVE_REASONS, null] }
+  },
+  required: ["is_ai_generated", "ai_probability", "verdict", "flags", "linguistic_score"]
+};
+
+/** Throws unless the value has the fields of ApiAnalysisResult. */
+export const parseApiResult = (value: unknown): ApiAnalysisResult => {
+  const { is_ai_generated, ai_probability, verdict, flags, linguistic_score, inconclusive_reason } = isRecord(value) ? value : {};
+  const probability = Number(ai_probability);
+  if (typeof is_ai_generated !== 'boolean' || !Number.isFinite(probability) || !Array.isArray(flags)) {
+    throw new Error("Response does not match the /analyze contract.");
+  }
+  // Optional: services without an inconclusive state never send it
+  const reason = isInconclusiveReason(inconclusive_reason) ? inconclusive_reason : null;
+  const fallbackVerdict = reason ? API_VERDICTS.inconclusive : is_ai_generated ? API_VERDICTS.ai : API_VERDICTS.human;
+  return {
+    is_ai_generated,
+    ai_probability: Math.max(0, Math.min(100, probability)),
+    verdict: typeof verdict === 'string' ? verdict : fallbackVerdict,
+    flags: flags.map(String),
+    linguistic_score: Number.isFinite(Number(linguistic_score)) ? Number(linguistic_score) : round2(100 - probability),
+    inconclusive_reason: reason
+  };
+};
+
+/**
+ * Builds a full AnalysisResult from a remote verdict. The contract only
+ * carries the verdict, probability and flags, so everything sentence-level
+ * (highlights, sections, detectors, charts) comes from the local result.
+ */
+export const fromApiResult = (
+  api: ApiAnalysisResult,
+  local: AnalysisResult,
+  backend: BackendProvenance,
+  backendName: string
+): AnalysisResult => {
+  const aiProbability = Math.round(api.ai_probability);
+  const agrees = api.is_ai_generated === local.isAiGenerated;
+  // The local interval, explanation and evidence rule describe the local score, not this one
+  const { interval, inconclusive, explanation, ...detail } = local;
+  return {
+    ...detail,
+    ...(api.inconclusive_reason && { inconclusive: api.inconclusive_reason }),
+    isAiGenerated: api.is_ai_generated,
+    aiProbability,
+    humanProbability: 100 - aiProbability,
+    verdictHeadline: api.verdict,
+    summary: agrees
+      ? local.summary
+      : `${backendName} reached a different verdict than the local engine (${local.aiProbability}% AI). The sentence-level detail below comes from the local engine.`,
+    flags: api.flags.length > 0 ? api.flags : ["No significant AI anomalies detected"],
+    rawProbability: api.ai_probability,
+    calibration: 'none',
+    backend
+  };
+};
@@ -0,0 +1,67 @@
+import { BackendKind, BackendSettings } from "../types";
+import { isFiniteNumber, isRecord, storage } from "./shared";
+
+/**
+ * BACKEND SETTINGS
+ *
+ * Which engine scores resumes (see analysisBackends.ts) and how patiently it
+ * waits for remote ones. Stored in localStorage, like the lexicon; the Gemini
+ * API key entered here never leaves this browser except in calls to Gemini.
+ */
+
+export const BACKEND_KINDS: Record<BackendKind, string> = {
+  local: 'Local engine',
+  http: 'Self-hosted API',
+  llm: 'Gemini (LLM)'
+};
+
+export const DEFAULT_BACKEND_SETTINGS: BackendSettings = {
+  kind: 'local',
+  httpUrl: 'http://localhost:8000',
+  llmModel: 'gemini-2.5-flash',
+  llmApiKey: '',
+  timeoutMs: 15000,
+  retries: 2,
+  fallbackToLocal: true
+};
+
+const STORAGE_KEY = 'resumeguard.backend.v1';
+const MAX_RETRIES = 5;
+
+const isBackendKind = (value: unknown): value is BackendKind =>
+  typeof value === 'string' && value in BACKEND_KINDS;
+
+const validateSettings = (value: unknown): BackendSettings => {
+  const settings = { ...DEFAULT_BACKEND_SETTINGS };
+  if (!isRecord(value)) return settings;
+  const { kind, httpUrl, llmModel, llmApiKey, timeoutMs, retries, fallbackToLocal } = value;
+  if (isBackendKind(kind)) settings.kind = kind;
+  if (typeof httpUrl === 'string') settings.httpUrl = httpUrl.trim();
+  if (typeof llmModel === 'string' && llmModel.trim()) settings.llmModel = llmModel.trim();
+  if (typeof llmApiKey === 'string') settings.llmApiKey = llmApiKey.trim();
+  if (isFiniteNumber(timeoutMs) && timeoutMs > 0) settings.timeoutMs = Math.round(timeoutMs);
+  if (isFiniteNumber(retries)) settings.retries = Math.max(0, Math.min(MAX_RETRIES, Math.round(retries)));
+  if (typeof fallbackToLocal === 'boolean') settings.fallbackToLocal = fallbackToLocal;
+  return settings;
+};
+
+export const loadBackendSettings = (): BackendSettings => {
+  const stored = storage()?.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_BACKEND_SETTINGS;
+  try {
+    return validateSettings(JSON.parse(stored));
+  } catch {
+    return DEFAULT_BACKEND_SETTINGS;
+  }
+};
+
+export const saveBackendSettings = (settings: BackendSettings): BackendSettings => {
+  const valid = validateSettings(settings);
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(valid));
+  return valid;
+};
+
+export const resetBackendSettings = (): BackendSettings => {
+  storage()?.removeItem(STORAGE_KEY);
+  return DEFAULT_BACKEND_SETTINGS;
+};
@@ -0,0 +1,102 @@
+import { AnalyzeOptions, BatchItem, SimilarityDocument, SimilaritySignature } from "../types";
+import { collectResumeFiles, extractDocument } from "./extraction";
+import { compareInWorker, isAbortError } from "./analysisWorkerClient";
+import { analyzeWithBackend } from "./analysisBackends";
+import { batchDocuments, withSimilarity } from "./similarity";
+
+/**
+ * BATCH QUEUE
+ *
+ * Expands the dropped files (including ZIP archives) into a queue and
+ * analyzes them one at a time, reporting every state change so the UI can
+ * show per-file progress. A failure on one file never stops the batch;
+ * aborting `options.signal` does, and marks the unfinished files as cancelled.
+ * Cross-resume similarity needs the whole batch, so it is added afterwards
+ * (addSimilarity).
+ */
+
+// Share of a file's progress bar used by extraction; analysis fills the rest.
+const EXTRACTION_START = 10;
+const EXTRACTION_SHARE = 30;
+
+export const createBatchItems = async (files: File[]): Promise<{ items: BatchItem[]; files: File[] }> => {
+  const resumes = await collectResumeFiles(files);
+  const items = resumes.map((file, idx) => ({
+    id: `${idx}-${file.name}`,
+    fileName: file.name,
+    status: 'queued' as const,
+    progress: 0
+  }));
+  return { items, files: resumes };
+};
+
+export const runBatch = async (
+  items: BatchItem[],
+  files: File[],
+  onUpdate: (item: BatchItem) => void,
+  options: AnalyzeOptions = {}
+): Promise<BatchItem[]> => {
+  const { signal, ...analyzeOptions } = options;
+  // Final state of every item, returned at the end
+  const final = [...items];
+  const update = (index: number, item: BatchItem) => {
+    final[index] = item;
+    onUpdate(item);
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    if (signal?.aborted) {
+      items.slice(i).forEach((pendingItem, offset) => update(i + offset, { ...pendingItem, status: 'error', progress: 100, error: "Cancelled." }));
+      return final;
+    }
+
+    let item: BatchItem = { ...items[i], status: 'extracting', progress: EXTRACTION_START };
+    update(i, item);
+
+    try {
+      const extracting = item;
+      const { text, ocr } = await extractDocument(files[i], ({ percent }) => onUpdate({
+        ...extracting,
+        progress: Math.round(EXTRACTION_START + ((EXTRACTION_SHARE - EXTRACTION_START) * percent) / 100)
+      }));
+      item = { ...item, text, status: 'analyzing', progress: EXTRACTION_SHARE };
+      update(i, item);
+
+      const analyzing = item;
+      const result = await analyzeWithBackend(text, {
+        ...analyzeOptions,
+        ocr,
+        signal,
+        onProgress: ({ percent }) => onUpdate({
+          ...analyzing,
+          progress: Math.round(EXTRACTION_SHARE + ((100 - EXTRACTION_SHARE) * percent) / 100)
+        })
+      });
+      update(i, { ...item, result, status: 'done', progress: 100 });
+    } catch (err: any) {
+      update(i, { ...item, status: 'error', progress: 100, error: isAbortError(err) ? "Cancelled." : (err.message || "Analysis failed.") });
+    }
+  }
+  return final;
+};
+
+/**
+ * Adds a similarity report and "Shared with" flag to every analyzed item,
+ * comparing it with the rest of the batch, `earlier` resumes and the saved
+ * history. Also returns each item's signature, by item id, for saving with
+ * its history record. Not cancellable: files finished before a cancel still
+ * get compared.
+ */
+export const addSimilarity = async (
+  items: BatchItem[],
+  earlier: SimilarityDocument[] = []
+): Promise<{ items: BatchItem[]; signatures: Map<string, SimilaritySignature> }> => {
+  const { reports, signatures } = await compareInWorker(batchDocuments(items, 'current'), earlier);
+  return {
+    items: items.map(item => {
+      const report = reports.get(item.id);
+      return report && item.result ? { ...item, result: withSimilarity(item.result, report) } : item;
+    }),
+    signatures
+  };
+};
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ScoredSample } from "../types";
+import { applyCalibration, fitIsotonic, fitPlatt, validateCalibration } from "./calibration";
+
+const repeat = (sample: ScoredSample, count: number): ScoredSample[] => Array.from({ length: count }, () => sample);
+
+test("the identity calibration returns the raw score", () => {
+  assert.equal(applyCalibration({ method: 'none' }, 73.4), 73.4);
+});
+
+test("isotonic regression pools adjacent violators", () => {
+  const model = fitIsotonic([
+    { probability: 0.1, label: 0 },
+    { probability: 0.2, label: 1 },
+    { probability: 0.3, label: 0 },
+    { probability: 0.4, label: 1 }
+  ]);
+  assert.deepEqual(model, {
+    method: 'isotonic',
+    points: [{ x: 0.1, y: 0 }, { x: 0.25, y: 0.5 }, { x: 0.4, y: 1 }],
+    sampleCount: 4
+  });
+});
+
+test("isotonic calibration interpolates between points and clamps at the ends", () => {
+  const model = { method: 'isotonic' as const, points: [{ x: 0.1, y: 0 }, { x: 0.25, y: 0.5 }, { x: 0.4, y: 1 }] };
+  assert.equal(applyCalibration(model, 5), 0);
+  assert.ok(Math.abs(applyCalibration(model, 32.5) - 75) < 1e-9);
+  assert.equal(applyCalibration(model, 90), 100);
+});
+
+test("Platt scaling on a symmetric corpus keeps 50 at 50 and stays increasing", () => {
+  const model = fitPlatt([
+    ...repeat({ probability: 0.8, label: 1 }, 9), ...repeat({ probability: 0.2, label: 1 }, 1),
+    ...repeat({ probability: 0.2, label: 0 }, 9), ...repeat({ probability: 0.8, label: 0 }, 1)
+  ]);
+  assert.equal(model.method, 'platt');
+  if (model.method !== 'platt') return;
+  assert.ok(model.a > 0);
+  assert.ok(Math.abs(model.b) < 1e-6);
+  assert.ok(Math.abs(applyCalibration(model, 50) - 50) < 1e-6);
+  // 9 of 10 resumes scored 80 are AI; Platt's smoothed targets pull that slightly toward 50
+  const at80 = applyCalibration(model, 80);
+  assert.ok(at80 > 80 && at80 < 90, `calibrated 80 was ${at80}`);
+});
+
+test("stored models are validated field by field", () => {
+  assert.deepEqual(validateCalibration({ method: 'platt', a: 1.5, b: -0.2, sampleCount: 40, extra: true }), {
+    method: 'platt', a: 1.5, b: -0.2, sampleCount: 40
+  });
+  assert.throws(() => validateCalibration({ method: 'platt', a: '1.5', b: 0 }), /Not a valid calibration model/);
+  assert.throws(() => validateCalibration({ method: 'isotonic', points: [{ x: 0.1 }] }), /Not a valid calibration model/);
+  assert.throws(() => validateCalibration(null), /Not a valid calibration model/);
+});
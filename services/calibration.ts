@@ -0,0 +1,182 @@
+import { AnalysisResult, CalibrationMethod, CalibrationModel, ScoredSample } from "../types";
+import bundledCalibration from "./models/calibration.json";
+import { isFiniteNumber, isRecord, sigmoid, storage } from "./shared";
+
+/**
+ * PROBABILITY CALIBRATION
+ *
+ * The ensemble's weighted mean is a score, not a probability: a raw 70 does
+ * not mean 70% of such resumes are AI-written. A calibration fitted on a
+ * labeled corpus (see evaluation.ts and `npm run evaluate`) maps the raw
+ * score onto observed frequencies:
+ * 1. Platt scaling - a logistic curve over the raw score's log-odds
+ * 2. Isotonic regression - a monotone step fit (pool adjacent violators)
+ *
+ * The bundled calibration lives in models/calibration.json and is the
+ * identity until it is refit on a real corpus, so results say they are
+ * uncalibrated. A calibration fitted in the Evaluate view is kept in
+ * localStorage and takes precedence.
+ */
+
+export const CALIBRATION_METHODS: Record<CalibrationMethod, string> = {
+  none: 'Uncalibrated',
+  platt: 'Platt scaling',
+  isotonic: 'Isotonic regression'
+};
+
+const STORAGE_KEY = 'resumeguard.calibration.v1';
+// Keeps logit() finite at the ends of the scale.
+const EPSILON = 1e-4;
+const NEWTON_ITERATIONS = 100;
+
+const clamp01 = (p: number) => Math.max(EPSILON, Math.min(1 - EPSILON, p));
+const logit = (p: number) => Math.log(clamp01(p) / (1 - clamp01(p)));
+
+/** Maps a raw 0-100 score to a calibrated 0-100 probability. */
+export const applyCalibration = (model: CalibrationModel, rawProbability: number): number => {
+  const p = rawProbability / 100;
+  switch (model.method) {
+    case 'none':
+      return rawProbability;
+    case 'platt':
+      return sigmoid(model.a * logit(p) + model.b) * 100;
+    case 'isotonic': {
+      const { points } = model;
+      if (points.length === 0) return rawProbability;
+      if (p <= points[0].x) return points[0].y * 100;
+      for (let i = 1; i < points.length; i++) {
+        if (p <= points[i].x) {
+          const prev = points[i - 1];
+          const next = points[i];
+          const t = next.x === prev.x ? 1 : (p - prev.x) / (next.x - prev.x);
+          return (prev.y + t * (next.y - prev.y)) * 100;
+        }
+      }
+      return points[points.length - 1].y * 100;
+    }
+  }
+};
+
+/**
+ * Platt scaling fitted by Newton's method on the log-loss, using Platt's
+ * smoothed targets so a perfectly separable corpus doesn't push the curve
+ * to a step.
+ */
+export const fitPlatt = (samples: ScoredSample[]): CalibrationModel => {
+  const positives = samples.filter(s => s.label === 1).length;
+  const negatives = samples.length - positives;
+  const highTarget = (positives + 1) / (positives + 2);
+  const lowTarget = 1 / (negatives + 2);
+  const xs = samples.map(s => logit(s.probability));
+  const ts = samples.map(s => (s.label === 1 ? highTarget : lowTarget));
+
+  let a = 1;
+  let b = 0;
+  for (let iter = 0; iter < NEWTON_ITERATIONS; iter++) {
+    let gA = 0, gB = 0, hAA = 1e-9, hAB = 0, hBB = 1e-9;
+    xs.forEach((x, i) => {
+      const p = sigmoid(a * x + b);
+      const d = p - ts[i];
+      const w = p * (1 - p);
+      gA += d * x;
+      gB += d;
+      hAA += w * x * x;
+      hAB += w * x;
+      hBB += w;
+    });
+    const det = hAA * hBB - hAB * hAB;
+    if (Math.abs(det) < 1e-12) break;
+    const stepA = (hBB * gA - hAB * gB) / det;
+    const stepB = (hAA * gB - hAB * gA) / det;
+    a -= stepA;
+    b -= stepB;
+    if (Math.abs(stepA) < 1e-8 && Math.abs(stepB) < 1e-8) break;
+  }
+
+  return { method: 'platt', a: +a.toFixed(6), b: +b.toFixed(6), sampleCount: samples.length };
+};
+
+/** Isotonic regression by pool-adjacent-violators over the raw probabilities. */
+export const fitIsotonic = (samples: ScoredSample[]): CalibrationModel => {
+  const sorted = [...samples].sort((s, t) => s.probability - t.probability);
+  const blocks: { sumX: number; sumY: number; count: number }[] = [];
+
+  sorted.forEach(({ probability, label }) => {
+    blocks.push({ sumX: probability, sumY: label, count: 1 });
+    // Merge backwards while the fit would decrease
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.sumY / prev.count < last.sumY / last.count) break;
+      blocks.pop();
+      prev.sumX += last.sumX;
+      prev.sumY += last.sumY;
+      prev.count += last.count;
+    }
+  });
+
+  const points = blocks.map(block => ({
+    x: +(block.sumX / block.count).toFixed(6),
+    y: +(block.sumY / block.count).toFixed(6)
+  }));
+  return { method: 'isotonic', points, sampleCount: samples.length };
+};
+
+export const fitCalibration = (method: CalibrationMethod, samples: ScoredSample[]): CalibrationModel =>
+  method === 'platt' ? fitPlatt(samples) : method === 'isotonic' ? fitIsotonic(samples) : { method: 'none' };
+
+/**
+ * True when a local result's AI probability is the raw ensemble score. A
+ * custom classifier already outputs a probability, and remote backends
+ * report their own.
+ */
+export const isUncalibrated = (result: AnalysisResult): boolean =>
+  (result.calibration ?? 'none') === 'none' && !result.classifier && (result.backend?.id ?? 'local') === 'local';
+
+// --- Persistence ---
+
+/** Throws if the value is not a usable calibration model. */
+const isPoint = (value: unknown): value is { x: number; y: number } =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+export const validateCalibration = (value: unknown): CalibrationModel => {
+  if (!isRecord(value)) throw new Error("Not a valid calibration model.");
+  const { method, a, b, points, sampleCount, fittedAt, analyzerVersion } = value;
+  const meta = {
+    ...(isFiniteNumber(sampleCount) && { sampleCount }),
+    ...(typeof fittedAt === 'string' && { fittedAt }),
+    ...(typeof analyzerVersion === 'string' && { analyzerVersion })
+  };
+  switch (method) {
+    case 'none':
+      return { method: 'none', ...meta };
+    case 'platt':
+      if (!isFiniteNumber(a) || !isFiniteNumber(b)) break;
+      return { method: 'platt', a, b, ...meta };
+    case 'isotonic':
+      if (!Array.isArray(points) || !points.every(isPoint)) break;
+      return { method: 'isotonic', points: points.map(({ x, y }) => ({ x, y })), ...meta };
+  }
+  throw new Error("Not a valid calibration model.");
+};
+
+export const DEFAULT_CALIBRATION: CalibrationModel = validateCalibration(bundledCalibration);
+
+export const loadCalibration = (): CalibrationModel => {
+  const stored = storage()?.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_CALIBRATION;
+  try {
+    return validateCalibration(JSON.parse(stored));
+  } catch {
+    return DEFAULT_CALIBRATION;
+  }
+};
+
+export const saveCalibration = (model: CalibrationModel): void => {
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(validateCalibration(model)));
+};
+
+export const resetCalibration = (): CalibrationModel => {
+  storage()?.removeItem(STORAGE_KEY);
+  return DEFAULT_CALIBRATION;
+};
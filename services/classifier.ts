@@ -0,0 +1,207 @@
+import { ClassifierModel, ClassifierSettings, DetectorContribution } from "../types";
+import { ANALYZER_VERSION } from "./reproducibility";
+import { isFiniteNumber, isRecord, sigmoid, storage } from "./shared";
+
+/**
+ * CUSTOM CLASSIFIER
+ *
+ * The ensemble combines detector scores with hand-picked weights. A hiring
+ * team with its own labeled resumes can instead train a logistic regression
+ * on the evidence the detectors already report (training harness in
+ * evaluation.ts, `npm run train-classifier` under Node):
+ * 1. Features: every detector's score and evidence value, keyed
+ *    "<detectorId>.<key>"; values a result lacks count as 0
+ * 2. Standardization with the training means and standard deviations
+ * 3. Ridge-penalized log-loss, minimized by Newton's method
+ *
+ * Models are plain JSON (ClassifierModel) so they can be downloaded, shared
+ * and imported. The active model lives in localStorage next to a switch that
+ * turns it on; when it is on it replaces the ensemble and the calibration.
+ */
+
+export const DEFAULT_L2 = 1;
+const NEWTON_ITERATIONS = 50;
+const STORAGE_KEY = 'resumeguard.classifier.v1';
+
+export const DEFAULT_CLASSIFIER_SETTINGS: ClassifierSettings = { enabled: false, model: null };
+
+export interface FeatureRow {
+  features: Record<string, number>;
+  label: 0 | 1;
+}
+
+// --- 1. Features ---
+
+/** Flattens detector output into named features. */
+export const extractFeatures = (contributions: DetectorContribution[]): Record<string, number> => {
+  const features: Record<string, number> = {};
+  contributions.forEach(c => {
+    features[`${c.id}.score`] = c.score;
+    c.evidence.forEach(e => { features[`${c.id}.${e.key}`] = e.value; });
+  });
+  return features;
+};
+
+const standardize = (model: ClassifierModel, features: Record<string, number>): number[] =>
+  model.features.map((name, i) => ((features[name] ?? 0) - model.means[i]) / model.scales[i]);
+
+/** Each feature's additive share of the log-odds, in model order. */
+export const featureLogOdds = (model: ClassifierModel, contributions: DetectorContribution[]): number[] =>
+  standardize(model, extractFeatures(contributions)).map((x, i) => x * model.weights[i]);
+
+/** P(AI) on the 0-100 scale. */
+export const predictClassifier = (model: ClassifierModel, contributions: DetectorContribution[]): number =>
+  sigmoid(model.bias + featureLogOdds(model, contributions).reduce((a, b) => a + b, 0)) * 100;
+
+// --- 2. Training ---
+
+/** Solves A x = b by Gaussian elimination with partial pivoting; A is square. */
+const solve = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const factor = m[r][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[r][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let k = r + 1; k < n; k++) sum -= m[r][k] * x[k];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+};
+
+export const trainClassifier = (
+  rows: FeatureRow[],
+  { name = 'Custom model', l2 = DEFAULT_L2 }: { name?: string; l2?: number } = {}
+): ClassifierModel => {
+  if (rows.length === 0) throw new Error("No samples to train on.");
+  const features = Array.from(new Set(rows.flatMap(r => Object.keys(r.features)))).sort();
+  const raw = rows.map(r => features.map(f => r.features[f] ?? 0));
+  const means = features.map((_, j) => raw.reduce((sum, x) => sum + x[j], 0) / rows.length);
+  const scales = features.map((_, j) => {
+    const sd = Math.sqrt(raw.reduce((sum, x) => sum + (x[j] - means[j]) ** 2, 0) / rows.length);
+    // Constant features stay at 0 after centering
+    return sd > 1e-9 ? sd : 1;
+  });
+  // Column 0 is the intercept, which is not penalized
+  const xs = raw.map(x => [1, ...x.map((v, j) => (v - means[j]) / scales[j])]);
+  const ys = rows.map(r => r.label);
+  const d = features.length + 1;
+
+  let beta = new Array(d).fill(0);
+  for (let iter = 0; iter < NEWTON_ITERATIONS; iter++) {
+    const gradient = beta.map((b, j) => (j === 0 ? 0 : l2 * b));
+    const hessian = Array.from({ length: d }, (_, i) => Array.from({ length: d }, (_, j) => (i === j && i > 0 ? l2 : 0)));
+    xs.forEach((x, n) => {
+      const p = sigmoid(x.reduce((sum, v, j) => sum + v * beta[j], 0));
+      const w = Math.max(p * (1 - p), 1e-9);
+      for (let i = 0; i < d; i++) {
+        gradient[i] += (p - ys[n]) * x[i];
+        for (let j = i; j < d; j++) hessian[i][j] += w * x[i] * x[j];
+      }
+    });
+    for (let i = 0; i < d; i++) for (let j = 0; j < i; j++) hessian[i][j] = hessian[j][i];
+
+    const step = solve(hessian, gradient);
+    if (!step) break;
+    beta = beta.map((b, j) => b - step[j]);
+    if (Math.max(...step.map(Math.abs)) < 1e-8) break;
+  }
+
+  const round = (v: number) => +v.toFixed(6);
+  return {
+    kind: 'logistic',
+    name,
+    features,
+    means: means.map(round),
+    scales: scales.map(round),
+    weights: beta.slice(1).map(round),
+    bias: round(beta[0]),
+    l2,
+    sampleCount: rows.length,
+    trainedAt: new Date().toISOString(),
+    analyzerVersion: ANALYZER_VERSION
+  };
+};
+
+// --- 3. Serialization and persistence ---
+
+const isFiniteArray = (value: unknown, length: number): value is number[] =>
+  Array.isArray(value) && value.length === length && value.every(v => typeof v === 'number' && Number.isFinite(v));
+
+/** Throws unless the value is a usable classifier model (e.g. an imported JSON file). */
+export const validateClassifier = (value: unknown): ClassifierModel => {
+  const { kind, name, features, means, scales, weights, bias, l2, sampleCount, trainedAt, analyzerVersion } = isRecord(value) ? value : {};
+  if (kind !== 'logistic' || !Array.isArray(features) || !features.every((f: unknown) => typeof f === 'string')) {
+    throw new Error("Not a classifier model: expected a logistic model with a feature list.");
+  }
+  const n = features.length;
+  if (!isFiniteArray(means, n) || !isFiniteArray(scales, n) || !isFiniteArray(weights, n)
+    || scales.some(s => s <= 0) || !isFiniteNumber(bias)) {
+    throw new Error("Classifier model is incomplete: means, scales and weights must match the features.");
+  }
+  return {
+    kind: 'logistic',
+    name: typeof name === 'string' && name.trim() ? name.trim() : 'Imported model',
+    features: [...features],
+    means: [...means],
+    scales: [...scales],
+    weights: [...weights],
+    bias,
+    l2: isFiniteNumber(l2) ? l2 : DEFAULT_L2,
+    sampleCount: isFiniteNumber(sampleCount) ? sampleCount : 0,
+    trainedAt: typeof trainedAt === 'string' ? trainedAt : '',
+    analyzerVersion: typeof analyzerVersion === 'string' ? analyzerVersion : ''
+  };
+};
+
+export const importClassifier = (json: string): ClassifierModel => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error("Classifier file is not valid JSON.");
+  }
+  return validateClassifier(value);
+};
+
+export const exportClassifier = (model: ClassifierModel): string => JSON.stringify(model, null, 2);
+
+export const loadClassifierSettings = (): ClassifierSettings => {
+  const stored = storage()?.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_CLASSIFIER_SETTINGS;
+  try {
+    const value: unknown = JSON.parse(stored);
+    if (!isRecord(value)) return DEFAULT_CLASSIFIER_SETTINGS;
+    const model = value.model ? validateClassifier(value.model) : null;
+    return { enabled: !!model && value.enabled === true, model };
+  } catch {
+    return DEFAULT_CLASSIFIER_SETTINGS;
+  }
+};
+
+export const saveClassifierSettings = (settings: ClassifierSettings): ClassifierSettings => {
+  const model = settings.model ? validateClassifier(settings.model) : null;
+  const valid = { enabled: !!model && settings.enabled, model };
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(valid));
+  return valid;
+};
+
+export const resetClassifierSettings = (): ClassifierSettings => {
+  storage()?.removeItem(STORAGE_KEY);
+  return DEFAULT_CLASSIFIER_SETTINGS;
+};
+
+/** The model to score with, or null for the built-in ensemble. */
+export const loadActiveClassifier = (): ClassifierModel | null => {
+  const { enabled, model } = loadClassifierSettings();
+  return enabled ? model : null;
+};
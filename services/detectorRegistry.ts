@@ -0,0 +1,30 @@
+import { Detector } from "../types";
+import { burstinessDetector } from "./detectors/burstiness";
+import { vocabularyDetector } from "./detectors/vocabulary";
+import { buzzwordDetector } from "./detectors/buzzwords";
+import { perplexityDetector } from "./detectors/perplexity";
+import { stylometryDetector } from "./detectors/stylometry";
+
+/**
+ * DETECTOR REGISTRY
+ *
+ * Every signal that feeds the verdict is a Detector registered here. The
+ * built-ins are registered on import; new signals only need to call
+ * registerDetector() and are picked up by the ensemble automatically.
+ */
+
+const registry = new Map<string, Detector>();
+
+export const registerDetector = (detector: Detector): void => {
+  if (registry.has(detector.id)) {
+    throw new Error(`Detector "${detector.id}" is already registered.`);
+  }
+  registry.set(detector.id, detector);
+};
+
+export const unregisterDetector = (id: string): boolean => registry.delete(id);
+
+// Registration order is preserved, which keeps result ordering stable.
+export const getDetectors = (): Detector[] => Array.from(registry.values());
+
+[burstinessDetector, vocabularyDetector, buzzwordDetector, perplexityDetector, stylometryDetector].forEach(registerDetector);
@@ -0,0 +1,35 @@
+import { Detector } from "../../types";
+import { countWords } from "../tokenizer";
+
+// Neutral and monotonic std. devs. come from the language profile.
+const POINTS_PER_WORD = 4;
+
+/**
+ * Burstiness: humans mix short and long sentences, AI output tends to be
+ * uniformly mid-length. Measured as the std. dev. of sentence word counts.
+ */
+export const burstinessDetector: Detector = {
+  id: 'burstiness',
+  name: 'Burstiness',
+  description: 'Variation in sentence length',
+  defaultWeight: 1.0,
+  detect: ({ sentences, language }) => {
+    const { neutralStdDev, monotonicStdDev } = language.norms;
+    const lengths = sentences.map(s => countWords(s));
+    const avgLen = lengths.reduce((a, b) => a + b, 0) / (lengths.length || 1);
+    const variance = lengths.reduce((a, b) => a + Math.pow(b - avgLen, 2), 0) / (lengths.length || 1);
+    const stdDev = Math.sqrt(variance);
+
+    return {
+      score: Math.min(100, Math.max(0, 50 + (neutralStdDev - stdDev) * POINTS_PER_WORD)),
+      // Variance over a handful of sentences says little
+      confidence: Math.min(1, lengths.length / 8),
+      evidence: [
+        { key: 'stdDev', label: 'Sentence length std. dev.', value: stdDev, threshold: neutralStdDev },
+        { key: 'variance', label: 'Sentence length variance', value: variance },
+        { key: 'avgLength', label: 'Average sentence length', value: avgLen }
+      ],
+      flags: stdDev < monotonicStdDev ? ["Monotonic sentence structure (Low Burstiness)"] : []
+    };
+  }
+};
@@ -0,0 +1,53 @@
+import { Detector, HighlightSpan, LexiconCategory } from "../../types";
+import { LEXICON_CATEGORIES } from "../lexicon";
+import { compileLexicon, findPhrases } from "../phraseMatcher";
+
+// Score with no buzzwords at all; absence is only weak evidence of a human.
+const BASELINE_SCORE = 30;
+const POINTS_PER_DENSITY = 2000;
+const HIGH_COUNT = 2;
+
+/**
+ * Buzzword density: weighted share of words that belong to stock phrases
+ * over-represented in LLM-written resumes. Phrases come from the user's
+ * lexicon and are matched with stemming, so inflections count too.
+ */
+export const buzzwordDetector: Detector = {
+  id: 'buzzwords',
+  name: 'AI Buzzwords',
+  description: 'Density of phrases typical of generated resumes',
+  defaultWeight: 1.2,
+  detect: ({ text, words, lexicon }) => {
+    const matches = findPhrases(text, compileLexicon(lexicon));
+    const spans: HighlightSpan[] = matches.map(m => ({
+      start: m.start,
+      end: m.end,
+      kind: 'marker',
+      label: m.entry.phrase,
+      explanation: `"${m.text}" matches "${m.entry.phrase}" (${LEXICON_CATEGORIES[m.entry.category]}, weight ${m.entry.weight})`
+    }));
+
+    const markerCount = matches.length;
+    const weightedCount = matches.reduce((sum, m) => sum + m.entry.weight, 0);
+    const markerDensity = words.length > 0 ? weightedCount / words.length : 0;
+
+    const perCategory = new Map<LexiconCategory, number>();
+    matches.forEach(m => perCategory.set(m.entry.category, (perCategory.get(m.entry.category) || 0) + 1));
+
+    return {
+      score: Math.min(100, BASELINE_SCORE + markerDensity * POINTS_PER_DENSITY),
+      confidence: Math.min(1, words.length / 100),
+      evidence: [
+        { key: 'markerCount', label: 'Buzzwords found', value: markerCount, threshold: HIGH_COUNT },
+        { key: 'markerDensity', label: 'Weighted buzzword density', value: markerDensity },
+        ...Array.from(perCategory, ([category, count]) => ({
+          key: `category:${category}`,
+          label: LEXICON_CATEGORIES[category],
+          value: count
+        }))
+      ],
+      flags: markerCount > HIGH_COUNT ? [`High density of buzzwords (${markerCount} found)`] : [],
+      spans
+    };
+  }
+};
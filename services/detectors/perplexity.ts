@@ -0,0 +1,27 @@
+import { Detector } from "../../types";
+import { perplexityToScore } from "../languageModel";
+
+/**
+ * Perplexity under the bundled n-gram model. Text the model predicts easily
+ * scores toward AI; the context already carries the measured report. The
+ * model is English-only, so it abstains (zero confidence) for other languages.
+ */
+export const perplexityDetector: Detector = {
+  id: 'perplexity',
+  name: 'Perplexity',
+  description: 'Predictability under a local character language model',
+  defaultWeight: 0.6,
+  detect: ({ text, perplexity, perplexityReference, language }) => {
+    const humanScore = perplexityToScore(perplexity.documentPerplexity, perplexityReference);
+
+    return {
+      score: 100 - humanScore,
+      confidence: language.norms.hasLanguageModel ? Math.min(1, text.length / 600) : 0,
+      evidence: [
+        { key: 'documentPerplexity', label: 'Document perplexity', value: perplexity.documentPerplexity, threshold: perplexityReference.p50 },
+        { key: 'perplexityScore', label: 'Perplexity score', value: humanScore }
+      ],
+      flags: []
+    };
+  }
+};
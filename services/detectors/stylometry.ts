@@ -0,0 +1,49 @@
+import { Detector } from "../../types";
+import { measureStylometry } from "../stylometry";
+
+// Flag thresholds, in the units of the evidence values.
+const FREQUENT_EM_DASHES = 1.5;
+const TEMPLATED_SHARE = 0.3;
+const REPEATED_OPENINGS = 0.5;
+
+/**
+ * Stylometry: the mean of the feature scores in stylometry.ts (lexical
+ * diversity, function words, punctuation, passive voice, readability and
+ * repetition). Each feature's raw value is reported as evidence, with its
+ * neutral value as the threshold.
+ */
+export const stylometryDetector: Detector = {
+  id: 'stylometry',
+  name: 'Stylometry',
+  description: 'Length-robust diversity, function words, punctuation and repetition',
+  defaultWeight: 0.8,
+  detect: (context) => {
+    const measurements = measureStylometry(context);
+    const score = measurements.reduce((sum, m) => sum + m.score, 0) / (measurements.length || 1);
+    const value = (key: string) => measurements.find(m => m.feature.key === key)?.value ?? 0;
+
+    const flags: string[] = [];
+    if (value('emDashes') >= FREQUENT_EM_DASHES) {
+      flags.push(`Frequent em-dashes (${value('emDashes').toFixed(1)} per 100 words)`);
+    }
+    if (value('parallelTemplates') >= TEMPLATED_SHARE) {
+      flags.push(`Templated achievement bullets (${Math.round(value('parallelTemplates') * 100)}% of sentences)`);
+    }
+    if (value('openingRepetition') >= REPEATED_OPENINGS && context.sentences.length >= 4) {
+      flags.push("Repetitive sentence openings");
+    }
+
+    return {
+      score,
+      // Diversity and ratio measures settle after a few hundred words
+      confidence: Math.min(1, context.words.length / 200),
+      evidence: measurements.map(({ feature, value }) => ({
+        key: feature.key,
+        label: feature.description,
+        value,
+        threshold: feature.threshold
+      })),
+      flags
+    };
+  }
+};
@@ -0,0 +1,31 @@
+import { Detector } from "../../types";
+
+// Neutral and repetitive TTRs come from the language profile.
+const POINTS_PER_TTR = 150;
+
+/**
+ * Vocabulary richness via type-token ratio. Generated text recycles the same
+ * safe vocabulary; a TTR of 0.6 is very rich, 0.3 is repetitive.
+ */
+export const vocabularyDetector: Detector = {
+  id: 'vocabulary',
+  name: 'Vocabulary Richness',
+  description: 'Type-token ratio of the word stream',
+  defaultWeight: 0.8,
+  detect: ({ words, language }) => {
+    const { neutralTtr, repetitiveTtr } = language.norms;
+    const uniqueWords = new Set(words);
+    const ttr = words.length > 0 ? uniqueWords.size / words.length : 0;
+
+    return {
+      score: Math.min(100, Math.max(0, 50 + (neutralTtr - ttr) * POINTS_PER_TTR)),
+      confidence: Math.min(1, words.length / 150),
+      evidence: [
+        { key: 'ttr', label: 'Type-token ratio', value: ttr, threshold: neutralTtr },
+        { key: 'uniqueWords', label: 'Unique words', value: uniqueWords.size },
+        { key: 'totalWords', label: 'Total words', value: words.length }
+      ],
+      flags: ttr < repetitiveTtr ? ["Repetitive vocabulary usage"] : []
+    };
+  }
+};
@@ -0,0 +1,59 @@
+import { AnalysisContext, Detector, DetectorContribution, DetectorOutput } from "../types";
+
+export interface EnsembleResult {
+  probability: number; // 0-100, unclamped weighted mean of detector scores
+  contributions: DetectorContribution[];
+}
+
+export interface DetectorRun {
+  detector: Detector;
+  weight: number;
+  output: DetectorOutput;
+}
+
+export const runDetector = (
+  detector: Detector,
+  context: AnalysisContext,
+  weights: Record<string, number> = {}
+): DetectorRun => ({
+  detector,
+  weight: weights[detector.id] ?? detector.defaultWeight,
+  output: detector.detect(context)
+});
+
+/**
+ * Combines detector scores as a mean weighted by weight * confidence. A
+ * detector's contribution is its share of that mean, so contributions always
+ * sum to the ensemble probability.
+ */
+export const combineDetectorRuns = (runs: DetectorRun[]): EnsembleResult => {
+  const totalMass = runs.reduce((sum, { weight, output }) => sum + weight * output.confidence, 0);
+
+  const contributions = runs.map(({ detector, weight, output }) => ({
+    id: detector.id,
+    name: detector.name,
+    weight,
+    ...output,
+    contribution: totalMass > 0 ? (weight * output.confidence * output.score) / totalMass : 0
+  }));
+
+  return {
+    // No usable evidence at all -> stay on the fence
+    probability: totalMass > 0 ? contributions.reduce((sum, c) => sum + c.contribution, 0) : 50,
+    contributions
+  };
+};
+
+/** Runs every detector and combines them in one go (no progress reporting). */
+export const runEnsemble = (
+  detectors: Detector[],
+  context: AnalysisContext,
+  weights: Record<string, number> = {}
+): EnsembleResult => combineDetectorRuns(detectors.map(detector => runDetector(detector, context, weights)));
+
+export const evidenceValue = (
+  contributions: DetectorContribution[],
+  detectorId: string,
+  key: string
+): number | undefined =>
+  contributions.find(c => c.id === detectorId)?.evidence.find(e => e.key === key)?.value;
@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { computeMetrics, parseLabeledCorpus, splitSamples } from "./evaluation";
+
+const close = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+
+test("metrics at a threshold match a hand count", () => {
+  const metrics = computeMetrics([
+    { probability: 0.9, label: 1 },
+    { probability: 0.7, label: 1 },
+    { probability: 0.6, label: 0 },
+    { probability: 0.2, label: 0 }
+  ], 0.5);
+  assert.deepEqual(metrics.confusion, { truePositives: 2, falsePositives: 1, trueNegatives: 1, falseNegatives: 0 });
+  close(metrics.precision, 2 / 3);
+  close(metrics.recall, 1);
+  close(metrics.f1, 0.8);
+  close(metrics.accuracy, 0.75);
+  // Every AI sample outranks every human one
+  close(metrics.rocAuc, 1);
+  close(metrics.brierScore, (0.01 + 0.09 + 0.36 + 0.04) / 4);
+  // One sample per bin, each off by |p - label|
+  close(metrics.expectedCalibrationError, (0.1 + 0.3 + 0.6 + 0.2) / 4);
+});
+
+test("tied scores count half toward the AUC", () => {
+  const metrics = computeMetrics([
+    { probability: 0.5, label: 1 },
+    { probability: 0.5, label: 0 },
+    { probability: 0.8, label: 1 },
+    { probability: 0.1, label: 0 }
+  ]);
+  close(metrics.rocAuc, 3.5 / 4);
+  assert.deepEqual(metrics.roc, [{ fpr: 0, tpr: 0 }, { fpr: 0, tpr: 0.5 }, { fpr: 0.5, tpr: 1 }, { fpr: 1, tpr: 1 }]);
+});
+
+test("the top reliability bin includes a probability of exactly 1", () => {
+  const { reliability } = computeMetrics([{ probability: 1, label: 1 }, { probability: 0, label: 0 }]);
+  assert.equal(reliability[9].count, 1);
+  assert.equal(reliability[0].count, 1);
+});
+
+test("metrics need both labels", () => {
+  assert.throws(() => computeMetrics([{ probability: 0.9, label: 1 }]), /both AI and human/);
+});
+
+test("corpus labels are normalized and bad lines report their number", () => {
+  const samples = parseLabeledCorpus('{"text": "a", "label": "AI"}\n\n{"text": "b", "label": 0, "id": 7}\n');
+  assert.deepEqual(samples, [{ text: "a", label: 1 }, { text: "b", label: 0, id: "7" }]);
+  assert.throws(() => parseLabeledCorpus('{"text": "a", "label": "ai"}\n{"text": "b", "label": "bot"}'), /Line 2 has an unknown label "bot"/);
+  assert.throws(() => parseLabeledCorpus('{"text": "a", "label": "ai"}\nnot json'), /Line 2 is not valid JSON/);
+});
+
+test("the split is stratified and repeatable", () => {
+  const samples = Array.from({ length: 20 }, (_, i) => ({ id: i, label: (i % 4 === 0 ? 1 : 0) as 0 | 1 }));
+  const { train, test: held } = splitSamples(samples, 1);
+  assert.equal(train.length + held.length, 20);
+  assert.equal(held.filter(s => s.label === 1).length, 2);
+  assert.equal(held.filter(s => s.label === 0).length, 5);
+  assert.deepEqual(splitSamples(samples, 1), { train, test: held });
+});
@@ -0,0 +1,265 @@
+import {
+  AnalysisResult, AnalyzeOptions, CalibrationMethod, ClassificationMetrics, ClassifierTrainingReport,
+  DetectorContribution, EvaluationReport, LabeledSample, ReliabilityBin, ScoredSample
+} from "../types";
+import { applyCalibration, fitCalibration } from "./calibration";
+import { extractFeatures, predictClassifier, trainClassifier } from "./classifier";
+import { AI_PROBABILITY_THRESHOLD } from "./geminiService";
+import { ANALYZER_VERSION, createSeededRandom } from "./reproducibility";
+import { isRecord } from "./shared";
+
+/**
+ * EVALUATION HARNESS
+ *
+ * Scores a labeled corpus and reports how well the analyzer separates
+ * AI-written from human-written resumes:
+ * 1. ROC curve and ROC-AUC (threshold-free ranking quality)
+ * 2. Precision, recall, F1 and a confusion matrix at the verdict threshold
+ * 3. A reliability diagram, Brier score and expected calibration error
+ *
+ * The corpus is split (stratified, seeded) into train and test parts. The
+ * calibration is fitted on train and judged on test, then refit on the full
+ * corpus for shipping. A custom classifier (classifier.ts) is trained on the
+ * same train part and compared with the raw ensemble on the same test part.
+ *
+ * Analysis is injected so the same harness runs in the browser (worker) and
+ * headless under Node (scripts/evaluate.ts).
+ */
+
+const TEST_FRACTION = 0.3;
+const SPLIT_SEED = 20240611;
+const RELIABILITY_BINS = 10;
+
+const AI_LABELS = new Set(['ai', 'ai-generated', 'generated', 'machine', '1', 'true']);
+const HUMAN_LABELS = new Set(['human', 'human-written', 'real', '0', 'false']);
+
+/**
+ * Parses JSONL with one `{ "text": ..., "label": ... }` object per line.
+ * Labels may be "ai"/"human", 1/0 or true/false. Blank lines are skipped;
+ * any malformed line fails the whole file with its line number.
+ */
+export const parseLabeledCorpus = (jsonl: string): LabeledSample[] => {
+  const samples: LabeledSample[] = [];
+  jsonl.split(/\r?\n/).forEach((line, idx) => {
+    if (!line.trim()) return;
+    let row: unknown;
+    try {
+      row = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${idx + 1} is not valid JSON.`);
+    }
+    const { text, label: rawLabel, id } = isRecord(row) ? row : {};
+    const label = String(rawLabel ?? '').trim().toLowerCase();
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new Error(`Line ${idx + 1} has no "text".`);
+    }
+    if (!AI_LABELS.has(label) && !HUMAN_LABELS.has(label)) {
+      throw new Error(`Line ${idx + 1} has an unknown label "${rawLabel}". Use "ai" or "human".`);
+    }
+    samples.push({
+      text,
+      label: AI_LABELS.has(label) ? 1 : 0,
+      ...(id !== undefined && { id: String(id) })
+    });
+  });
+  return samples;
+};
+
+/** Stratified, seeded split so both parts contain both labels. */
+export const splitSamples = <T extends { label: 0 | 1 }>(samples: T[], seed = SPLIT_SEED): { train: T[]; test: T[] } => {
+  const random = createSeededRandom(seed);
+  const train: T[] = [];
+  const test: T[] = [];
+  ([0, 1] as const).forEach(label => {
+    const group = samples.filter(s => s.label === label);
+    // Fisher-Yates with the seeded generator
+    for (let i = group.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [group[i], group[j]] = [group[j], group[i]];
+    }
+    const testCount = Math.max(1, Math.round(group.length * TEST_FRACTION));
+    test.push(...group.slice(0, testCount));
+    train.push(...group.slice(testCount));
+  });
+  return { train, test };
+};
+
+/** Mann-Whitney form of the AUC; tied scores count half. */
+const rocAuc = (samples: ScoredSample[]): number => {
+  const sorted = [...samples].sort((a, b) => a.probability - b.probability);
+  let rankSumPositives = 0;
+  let i = 0;
+  while (i < sorted.length) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1].probability === sorted[i].probability) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) if (sorted[k].label === 1) rankSumPositives += averageRank;
+    i = j + 1;
+  }
+  const positives = samples.filter(s => s.label === 1).length;
+  const negatives = samples.length - positives;
+  return (rankSumPositives - (positives * (positives + 1)) / 2) / (positives * negatives);
+};
+
+const rocCurve = (samples: ScoredSample[]): { fpr: number; tpr: number }[] => {
+  const positives = samples.filter(s => s.label === 1).length;
+  const negatives = samples.length - positives;
+  const sorted = [...samples].sort((a, b) => b.probability - a.probability);
+  const points = [{ fpr: 0, tpr: 0 }];
+  let tp = 0;
+  let fp = 0;
+  sorted.forEach((sample, idx) => {
+    if (sample.label === 1) tp++; else fp++;
+    // One point per distinct threshold
+    if (idx === sorted.length - 1 || sorted[idx + 1].probability !== sample.probability) {
+      points.push({ fpr: fp / negatives, tpr: tp / positives });
+    }
+  });
+  return points;
+};
+
+const reliabilityBins = (samples: ScoredSample[]): ReliabilityBin[] =>
+  Array.from({ length: RELIABILITY_BINS }, (_, b) => {
+    const lower = b / RELIABILITY_BINS;
+    const upper = (b + 1) / RELIABILITY_BINS;
+    const inBin = samples.filter(s => s.probability >= lower && (s.probability < upper || (b === RELIABILITY_BINS - 1 && s.probability <= upper)));
+    const count = inBin.length;
+    return {
+      lower,
+      upper,
+      count,
+      meanPredicted: count ? inBin.reduce((sum, s) => sum + s.probability, 0) / count : 0,
+      observedRate: count ? inBin.filter(s => s.label === 1).length / count : 0
+    };
+  });
+
+const safeDivide = (a: number, b: number) => (b > 0 ? a / b : 0);
+
+export const computeMetrics = (
+  samples: ScoredSample[],
+  threshold = AI_PROBABILITY_THRESHOLD / 100
+): ClassificationMetrics => {
+  const positives = samples.filter(s => s.label === 1).length;
+  if (positives === 0 || positives === samples.length) {
+    throw new Error("Evaluation needs both AI and human samples.");
+  }
+
+  const confusion = { truePositives: 0, falsePositives: 0, trueNegatives: 0, falseNegatives: 0 };
+  samples.forEach(({ label, probability }) => {
+    const predicted = probability > threshold;
+    if (predicted && label === 1) confusion.truePositives++;
+    else if (predicted) confusion.falsePositives++;
+    else if (label === 1) confusion.falseNegatives++;
+    else confusion.trueNegatives++;
+  });
+
+  const precision = safeDivide(confusion.truePositives, confusion.truePositives + confusion.falsePositives);
+  const recall = safeDivide(confusion.truePositives, positives);
+  const reliability = reliabilityBins(samples);
+
+  return {
+    sampleCount: samples.length,
+    positives,
+    rocAuc: rocAuc(samples),
+    roc: rocCurve(samples),
+    threshold,
+    precision,
+    recall,
+    f1: safeDivide(2 * precision * recall, precision + recall),
+    accuracy: (confusion.truePositives + confusion.trueNegatives) / samples.length,
+    confusion,
+    reliability,
+    brierScore: samples.reduce((sum, s) => sum + (s.probability - s.label) ** 2, 0) / samples.length,
+    expectedCalibrationError: reliability.reduce(
+      (sum, bin) => sum + (bin.count / samples.length) * Math.abs(bin.meanPredicted - bin.observedRate), 0
+    )
+  };
+};
+
+export interface EvaluationOptions {
+  method: CalibrationMethod;
+  analyze: (text: string, options: AnalyzeOptions) => Promise<AnalysisResult>;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export const runEvaluation = async (
+  samples: LabeledSample[],
+  { method, analyze, onProgress, signal }: EvaluationOptions
+): Promise<EvaluationReport> => {
+  const positives = samples.filter(s => s.label === 1).length;
+  if (positives < 2 || samples.length - positives < 2) {
+    throw new Error("The corpus needs at least two AI and two human samples.");
+  }
+
+  // Raw ensemble scores; calibration is what is being fitted here
+  const scored: ScoredSample[] = [];
+  for (let i = 0; i < samples.length; i++) {
+    signal?.throwIfAborted();
+    const result = await analyze(samples[i].text, { calibration: { method: 'none' }, classifier: null, signal });
+    scored.push({ label: samples[i].label, probability: result.rawProbability / 100 });
+    onProgress?.(i + 1, samples.length);
+  }
+
+  const { train, test } = splitSamples(scored);
+  const trainedOnSplit = fitCalibration(method, train);
+  const calibratedTest = test.map(s => ({
+    label: s.label,
+    probability: applyCalibration(trainedOnSplit, s.probability * 100) / 100
+  }));
+
+  return {
+    analyzerVersion: ANALYZER_VERSION,
+    createdAt: new Date().toISOString(),
+    trainCount: train.length,
+    testCount: test.length,
+    raw: computeMetrics(test),
+    calibrated: computeMetrics(calibratedTest),
+    calibration: {
+      ...fitCalibration(method, scored),
+      fittedAt: new Date().toISOString(),
+      analyzerVersion: ANALYZER_VERSION
+    }
+  };
+};
+
+export interface ClassifierTrainingOptions {
+  name?: string;
+  l2?: number;
+  analyze: (text: string, options: AnalyzeOptions) => Promise<AnalysisResult>;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export const runClassifierTraining = async (
+  samples: LabeledSample[],
+  { name, l2, analyze, onProgress, signal }: ClassifierTrainingOptions
+): Promise<ClassifierTrainingReport> => {
+  const positives = samples.filter(s => s.label === 1).length;
+  if (positives < 2 || samples.length - positives < 2) {
+    throw new Error("The corpus needs at least two AI and two human samples.");
+  }
+
+  // Detector evidence is the training input; the ensemble score is the baseline
+  const scored: { label: 0 | 1; detectors: DetectorContribution[]; rawProbability: number }[] = [];
+  for (let i = 0; i < samples.length; i++) {
+    signal?.throwIfAborted();
+    const result = await analyze(samples[i].text, { calibration: { method: 'none' }, classifier: null, signal });
+    scored.push({ label: samples[i].label, detectors: result.detectors, rawProbability: result.rawProbability });
+    onProgress?.(i + 1, samples.length);
+  }
+
+  const rows = (part: typeof scored) => part.map(s => ({ label: s.label, features: extractFeatures(s.detectors) }));
+  const { train, test } = splitSamples(scored);
+  const trainedOnSplit = trainClassifier(rows(train), { name, l2 });
+
+  return {
+    analyzerVersion: ANALYZER_VERSION,
+    createdAt: new Date().toISOString(),
+    trainCount: train.length,
+    testCount: test.length,
+    ensemble: computeMetrics(test.map(s => ({ label: s.label, probability: s.rawProbability / 100 }))),
+    classifier: computeMetrics(test.map(s => ({ label: s.label, probability: predictClassifier(trainedOnSplit, s.detectors) / 100 }))),
+    model: trainClassifier(rows(scored), { name, l2 })
+  };
+};
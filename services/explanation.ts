@@ -0,0 +1,206 @@
+import { ClassifierModel, DetectorContribution, Explanation, ExplanationFactor, HighlightSpan } from "../types";
+import { extractFeatures, featureLogOdds } from "./classifier";
+import { featureScore, STYLOMETRY_FEATURES } from "./stylometry";
+import { round2, sigmoid } from "./shared";
+
+/**
+ * EXPLANATION
+ *
+ * Breaks the final AI probability into per-feature pushes so the verdict can
+ * be traced back to measured numbers:
+ * 1. Ensemble: from a neutral 50, each detector moves the score by its share
+ *    of the weighted mean times (score - 50). Its driving evidence (the value
+ *    with a threshold, e.g. stdDev or TTR) carries that push; stylometry is
+ *    split across its features by their own scores.
+ * 2. Custom classifier: features are added to the intercept in order of
+ *    their log-odds, largest first, and each gets the probability change it
+ *    caused.
+ * Calibration, demo noise and clamping make up the remaining adjustment, so
+ * baseline + impacts + adjustment is exactly aiProbability.
+ *
+ * The summary and suggestions are written from the factors that moved the
+ * score most, instead of fixed text per verdict.
+ */
+
+const NEUTRAL = 50;
+// Pushes smaller than this (in points) are not worth a sentence.
+const MIN_IMPACT = 1;
+const MAX_REASONS = 3;
+const MAX_SUGGESTIONS = 3;
+
+const finish = (
+  method: Explanation['method'],
+  baseline: number,
+  factors: ExplanationFactor[],
+  aiProbability: number
+): Explanation => {
+  const explained = baseline + factors.reduce((sum, f) => sum + f.impact, 0);
+  return {
+    method,
+    baseline: round2(baseline),
+    factors: factors
+      .map(f => ({ ...f, impact: round2(f.impact) }))
+      .sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact)),
+    adjustment: round2(aiProbability - explained),
+    final: aiProbability
+  };
+};
+
+// --- 1. Ensemble ---
+
+export const explainEnsemble = (contributions: DetectorContribution[], aiProbability: number): Explanation => {
+  const totalMass = contributions.reduce((sum, c) => sum + c.weight * c.confidence, 0);
+  const factors: ExplanationFactor[] = [];
+
+  contributions.forEach(c => {
+    const share = totalMass > 0 ? (c.weight * c.confidence) / totalMass : 0;
+    if (share === 0) return;
+
+    if (c.id === 'stylometry') {
+      // The detector score is the mean of its feature scores
+      const measured = c.evidence.flatMap(e => {
+        const feature = STYLOMETRY_FEATURES.find(f => f.key === e.key);
+        return feature ? [{ e, score: featureScore(feature, e.value) }] : [];
+      });
+      measured.forEach(({ e, score }) => factors.push({
+        id: `${c.id}.${e.key}`,
+        label: e.label,
+        source: c.name,
+        value: e.value,
+        threshold: e.threshold,
+        impact: (share * (score - NEUTRAL)) / measured.length
+      }));
+      return;
+    }
+
+    const driver = c.evidence.find(e => e.threshold !== undefined) ?? c.evidence[0];
+    factors.push({
+      id: `${c.id}.${driver?.key ?? 'score'}`,
+      label: driver?.label ?? `${c.name} score`,
+      source: c.name,
+      value: driver?.value ?? c.score,
+      ...(driver?.threshold !== undefined && { threshold: driver.threshold }),
+      impact: share * (c.score - NEUTRAL)
+    });
+  });
+
+  return finish('ensemble', totalMass > 0 ? NEUTRAL : aiProbability, factors, aiProbability);
+};
+
+// --- 2. Custom classifier ---
+
+export const explainClassifier = (
+  model: ClassifierModel,
+  contributions: DetectorContribution[],
+  aiProbability: number
+): Explanation => {
+  const values = extractFeatures(contributions);
+  const logOdds = featureLogOdds(model, contributions);
+  const order = model.features.map((_, i) => i).sort((a, b) => Math.abs(logOdds[b]) - Math.abs(logOdds[a]));
+
+  let z = model.bias;
+  const factors = order.map(i => {
+    const before = sigmoid(z) * 100;
+    z += logOdds[i];
+    const [detectorId, key] = model.features[i].split(/\.(.*)/s);
+    const detector = contributions.find(c => c.id === detectorId);
+    const evidence = detector?.evidence.find(e => e.key === key);
+    return {
+      id: model.features[i],
+      label: evidence?.label ?? (key === 'score' && detector ? `${detector.name} score` : model.features[i]),
+      source: detector?.name ?? detectorId,
+      value: values[model.features[i]] ?? 0,
+      threshold: model.means[i],
+      impact: sigmoid(z) * 100 - before
+    };
+  });
+
+  return finish('classifier', sigmoid(model.bias) * 100, factors, aiProbability);
+};
+
+// --- 3. Generated text ---
+
+interface FactorText {
+  toAi: string; // What a push toward AI means
+  toHuman: string;
+  advice?: string; // How to lower the push; absent when there is nothing to change
+}
+
+const FACTOR_TEXT: Record<string, FactorText> = {
+  'burstiness.stdDev': { toAi: 'uniform sentence lengths', toHuman: 'varied sentence lengths', advice: 'Vary sentence length: follow a long bullet with a short, blunt one' },
+  'vocabulary.ttr': { toAi: 'a repetitive vocabulary', toHuman: 'a varied vocabulary', advice: 'Replace words you repeat with the specific tool, team or result they stand for' },
+  'buzzwords.markerCount': { toAi: 'stock resume buzzwords', toHuman: 'few stock buzzwords' },
+  'perplexity.documentPerplexity': { toAi: 'highly predictable wording', toHuman: 'unpredictable, personal wording', advice: 'Describe the work in your own words rather than standard resume phrasing' },
+  'stylometry.mtld': { toAi: 'low lexical diversity', toHuman: 'high lexical diversity', advice: 'Use specific nouns and verbs instead of recycling the same general ones' },
+  'stylometry.hdd': { toAi: 'a narrow word choice', toHuman: 'a broad word choice', advice: 'Name concrete systems, numbers and people instead of general terms' },
+  'stylometry.yulesK': { toAi: 'frequent word repetition', toHuman: 'little word repetition', advice: 'Cut words that recur in every bullet' },
+  'stylometry.functionWords': { toAi: 'full-sentence phrasing', toHuman: 'terse, telegraphic phrasing', advice: 'Trim filler words; bullets can start with the verb and skip the articles' },
+  'stylometry.commas': { toAi: 'long comma-chained sentences', toHuman: 'lightly punctuated sentences', advice: 'Split long comma-chained sentences into separate bullets' },
+  'stylometry.emDashes': { toAi: 'frequent em-dashes', toHuman: 'few em-dashes', advice: 'Replace most em-dashes with periods or commas' },
+  'stylometry.passiveVoice': { toAi: 'uniformly active, polished phrasing', toHuman: 'some passive phrasing' },
+  'stylometry.readability': { toAi: 'dense, polysyllabic wording', toHuman: 'plain, readable wording', advice: 'Prefer short, plain words over abstract ones' },
+  'stylometry.openingRepetition': { toAi: 'sentences that open on the same word', toHuman: 'varied sentence openings', advice: 'Start bullets with different verbs' },
+  'stylometry.parallelTemplates': { toAi: 'templated "did X, resulting in Y%" bullets', toHuman: 'bullets that do not follow one template', advice: 'Break the "did X, resulting in Y%" pattern: state some results on their own or give context instead' }
+};
+
+// "Sentence length std. dev." -> "sentence length std. dev.", but "MTLD" stays
+const lowerFirst = (text: string) => /^\p{Lu}\p{Ll}/u.test(text) ? text[0].toLowerCase() + text.slice(1) : text;
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? String(value) : Math.abs(value) >= 10 ? value.toFixed(1) : value.toFixed(2);
+
+/** "uniform sentence lengths (std. dev. 4.20; neutral 12)" */
+const describeFactor = (factor: ExplanationFactor, method: Explanation['method']): string => {
+  const text = FACTOR_TEXT[factor.id];
+  const what = text ? (factor.impact > 0 ? text.toAi : text.toHuman) : lowerFirst(factor.label);
+  const against = factor.threshold === undefined ? ''
+    : `; ${method === 'classifier' ? 'training average' : 'neutral'} ${formatNumber(factor.threshold)}`;
+  return `${what} (${lowerFirst(factor.label)} ${formatNumber(factor.value)}${against})`;
+};
+
+const joinList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+const adviceFor = (factor: ExplanationFactor, highlights: HighlightSpan[]): string | undefined => {
+  if (factor.id === 'buzzwords.markerCount') {
+    const phrases = Array.from(new Set(highlights.map(h => h.label))).slice(0, 3);
+    return phrases.length > 0
+      ? `Replace buzzwords such as ${phrases.map(p => `"${p}"`).join(', ')} with what you actually did`
+      : undefined;
+  }
+  return FACTOR_TEXT[factor.id]?.advice;
+};
+
+/** Summary and suggestions for a decisive verdict, written from the factors that drove it. */
+export const describeVerdict = (
+  explanation: Explanation,
+  isAi: boolean,
+  highlights: HighlightSpan[]
+): { summary: string; suggestions: string[] } => {
+  const significant = explanation.factors.filter(f => Math.abs(f.impact) >= MIN_IMPACT);
+  const toAi = significant.filter(f => f.impact > 0);
+  const toHuman = significant.filter(f => f.impact < 0);
+  const [main, other] = isAi ? [toAi, toHuman] : [toHuman, toAi];
+  const list = (factors: ExplanationFactor[], count: number) =>
+    joinList(factors.slice(0, count).map(f => describeFactor(f, explanation.method)));
+
+  const reading = isAi ? 'reads as generated text' : 'reads as human-written';
+  let summary = main.length > 0
+    ? `At ${explanation.final}% AI probability this ${reading}, mainly because of ${list(main, MAX_REASONS)}.`
+    : `At ${explanation.final}% AI probability this ${reading}, with no single feature standing out.`;
+  if (other.length > 0) {
+    summary += isAi ? ` Pointing the other way: ${list(other, 2)}.` : ` Signals toward AI: ${list(other, 2)}.`;
+  }
+  if (explanation.method === 'classifier') summary += " Feature weights come from the custom classifier.";
+
+  const suggestions = toAi
+    .map(f => adviceFor(f, highlights))
+    .filter((advice): advice is string => !!advice)
+    .slice(0, MAX_SUGGESTIONS);
+  if (suggestions.length === 0) {
+    suggestions.push(...(isAi
+      ? ["Add details only you would know: names of systems, numbers, setbacks"]
+      : ["Maintain this natural tone", "Ensure specific metrics are included to back up claims"]));
+  }
+  return { summary, suggestions };
+};
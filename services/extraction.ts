@@ -0,0 +1,168 @@
+// @ts-ignore
+import * as pdfjsModule from 'pdfjs-dist';
+// @ts-ignore
+import mammoth from 'mammoth';
+import JSZip from 'jszip';
+import { AnalysisProgress, ExtractedDocument, LayoutPage } from '../types';
+import { PdfTextItem, layoutToText, pageFromPlainText, reconstructPage } from './pdfLayout';
+import { OCR_RENDER_SCALE, OcrPageResult, buildOcrReport, recognizeImage } from './ocr';
+
+/**
+ * FILE TEXT EXTRACTION
+ *
+ * Turns uploaded resumes (PDF, DOCX, plain text, scanned images) into
+ * analyzable text, and unpacks ZIP archives into the resume files they
+ * contain. PDF pages without a text layer and image uploads go through the
+ * offline OCR fallback in ocr.ts.
+ *
+ * The same code runs under Node for the CLI (scripts/scan.ts), where PDFs
+ * are parsed without a worker and scanned pages cannot be rendered for OCR.
+ */
+
+export const SUPPORTED_EXTENSIONS = ['.txt', '.md', '.json', '.pdf', '.docx', '.doc', '.png', '.jpg', '.jpeg'];
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+
+// Reported as the 'extraction' stage; `percent` covers the extraction alone,
+// which runs before (and apart from) the analysis pipeline
+export type ExtractionProgress = (progress: AnalysisProgress) => void;
+
+const IS_NODE = typeof process !== 'undefined' && !!process.versions?.node;
+
+// Node loads pdfjs-dist as CommonJS, so its exports sit under `default`
+const pdfjsLib: any = (pdfjsModule as any).getDocument ? pdfjsModule : (pdfjsModule as any).default;
+
+let pdfWorkerConfigured = false;
+
+const ensurePdfWorker = () => {
+  // Under Node pdf.js falls back to parsing on the main thread
+  if (pdfWorkerConfigured || IS_NODE) return;
+  pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@3.11.174/build/pdf.worker.min.js`;
+  pdfWorkerConfigured = true;
+};
+
+/**
+ * Extracts PDF text in reading order, rebuilding lines, bullets and columns
+ * from the text run positions (see pdfLayout.ts).
+ */
+export const extractPdfDocument = async (file: File, onProgress?: ExtractionProgress): Promise<ExtractedDocument> => {
+  ensurePdfWorker();
+  const arrayBuffer = await file.arrayBuffer();
+  const loadingTask = pdfjsLib.getDocument({
+    data: arrayBuffer,
+    // No standard font files under Node; they only matter for rendering
+    ...(IS_NODE && { verbosity: pdfjsLib.VerbosityLevel.ERRORS })
+  });
+  const pdf = await loadingTask.promise;
+  const layout: LayoutPage[] = [];
+  const ocrResults: OcrPageResult[] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    const { width } = page.getViewport({ scale: 1 });
+    const items = textContent.items.filter((item: any) => 'str' in item) as PdfTextItem[];
+
+    const percent = Math.round((100 * (i - 1)) / pdf.numPages);
+    if (items.some(item => item.str.trim())) {
+      onProgress?.({ stage: 'extraction', label: `Reading page ${i} of ${pdf.numPages}`, percent });
+      layout.push(reconstructPage(items, width, i));
+    } else {
+      // Scanned page: no text layer, so render it and recognize the pixels
+      onProgress?.({ stage: 'extraction', label: `Running OCR on page ${i} of ${pdf.numPages}`, percent });
+      const ocr = await recognizeImage(await renderPageToCanvas(page), i);
+      ocrResults.push(ocr);
+      layout.push(pageFromPlainText(ocr.text, i));
+    }
+  }
+
+  return {
+    text: layoutToText(layout),
+    layout,
+    ...(ocrResults.length > 0 && { ocr: buildOcrReport(ocrResults) })
+  };
+};
+
+const renderPageToCanvas = async (page: any): Promise<HTMLCanvasElement> => {
+  if (typeof document === 'undefined') {
+    throw new Error("This PDF has scanned pages without a text layer; OCR for them is only available in the browser.");
+  }
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+  return canvas;
+};
+
+export const extractImageDocument = async (file: File, onProgress?: ExtractionProgress): Promise<ExtractedDocument> => {
+  onProgress?.({ stage: 'extraction', label: 'Running OCR on image', percent: 0 });
+  const ocr = await recognizeImage(file, 1);
+  const layout = [pageFromPlainText(ocr.text, 1)];
+  return { text: layoutToText(layout), layout, ocr: buildOcrReport([ocr]) };
+};
+
+export const extractTextFromPdf = async (file: File): Promise<string> => (await extractPdfDocument(file)).text;
+
+export const extractTextFromDocx = async (file: File): Promise<string> => {
+  const arrayBuffer = await file.arrayBuffer();
+  // mammoth's Node build reads Buffers; its browser build reads ArrayBuffers
+  const result = await mammoth.extractRawText(IS_NODE ? { buffer: Buffer.from(arrayBuffer) } : { arrayBuffer });
+  return result.value;
+};
+
+export const isZipFile = (file: File) => file.name.toLowerCase().endsWith('.zip');
+
+export const isSupportedFile = (file: File) => {
+  const name = file.name.toLowerCase();
+  return SUPPORTED_EXTENSIONS.some(ext => name.endsWith(ext));
+};
+
+export const extractDocument = async (file: File, onProgress?: ExtractionProgress): Promise<ExtractedDocument> => {
+  const name = file.name.toLowerCase();
+  let extracted: ExtractedDocument;
+
+  if (name.endsWith('.pdf')) {
+    extracted = await extractPdfDocument(file, onProgress);
+  } else if (IMAGE_EXTENSIONS.some(ext => name.endsWith(ext))) {
+    extracted = await extractImageDocument(file, onProgress);
+  } else if (name.endsWith('.docx') || name.endsWith('.doc')) {
+    onProgress?.({ stage: 'extraction', label: 'Reading document', percent: 0 });
+    extracted = { text: await extractTextFromDocx(file) };
+  } else {
+    // Plain text / standard reading
+    extracted = { text: await file.text() };
+  }
+
+  if (!extracted.text.trim()) {
+    throw new Error(extracted.ocr
+      ? "OCR could not read any text with enough confidence."
+      : "No text content could be found in this file.");
+  }
+  return extracted;
+};
+
+export const extractTextFromFile = async (file: File): Promise<string> => (await extractDocument(file)).text;
+
+/**
+ * Returns the supported resume files inside a ZIP archive. Folders are
+ * flattened (the path is kept in the file name) and macOS metadata is skipped.
+ */
+export const expandZipArchive = async (file: File): Promise<File[]> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const entries = Object.values(zip.files).filter(
+    entry => !entry.dir && !entry.name.startsWith('__MACOSX/') && !entry.name.split('/').pop()!.startsWith('.')
+  );
+
+  const files = await Promise.all(
+    entries.map(async entry => new File([await entry.async('blob')], entry.name))
+  );
+  return files.filter(isSupportedFile);
+};
+
+/** Flattens a mixed selection of resumes and ZIP archives into resume files. */
+export const collectResumeFiles = async (files: File[]): Promise<File[]> => {
+  const expanded = await Promise.all(
+    files.map(file => (isZipFile(file) ? expandZipArchive(file) : Promise.resolve(isSupportedFile(file) ? [file] : [])))
+  );
+  return expanded.flat();
+};
@@ -1,4 +1,21 @@
-import { AnalysisResult } from "../types";
+import { AnalysisContext, AnalysisProgress, AnalysisResult, AnalyzeOptions, Explanation, HighlightSpan, InconclusiveReason, LanguageDetection, LanguageProfile, LexiconEntry, ResumeSection, SectionScore } from "../types";
+import { getDefaultLanguageModel, measurePerplexity } from "./languageModel";
+import { getDetectors } from "./detectorRegistry";
+import { combineDetectorRuns, DetectorRun, evidenceValue, runDetector, runEnsemble } from "./ensemble";
+import { scoreSentences } from "./sentenceScoring";
+import { loadLexicon } from "./lexicon";
+import { applyCalibration, loadCalibration } from "./calibration";
+import { loadActiveClassifier, predictClassifier } from "./classifier";
+import { maskNonProse, parseResume } from "./resumeParser";
+import { countWords, segmentSentences, tokenizeWords } from "./tokenizer";
+import { detectLanguage } from "./languageDetection";
+import { DEFAULT_LANGUAGE, getLanguageProfile } from "./languageProfiles";
+import { stylometryChartScores } from "./stylometry";
+import { describeVerdict, explainClassifier, explainEnsemble } from "./explanation";
+import { GENERIC_SPECIFICITY, matchJobDescription, measureSpecificity } from "./specificity";
+import { bootstrapInterval, hasSufficientEvidence, MIN_EVIDENCE_SENTENCES, MIN_EVIDENCE_WORDS } from "./uncertainty";
+import { ANALYZER_VERSION, createSeededRandom, hashContent } from "./reproducibility";
+import { yieldToEventLoop } from "./shared";
 
 /**
  * SIMULATED LOCAL ANALYSIS SERVICE
@@ -6,93 +23,290 @@ import { AnalysisResult } from "../types";
  * To comply with the "No API" requirement, this service now performs a local
  * heuristic analysis based on linguistic patterns common in AI text vs Human text.
  * 
- * It calculates:
+ * The signals live in independent detectors (see detectorRegistry.ts):
  * 1. Burstiness (Standard Deviation of sentence lengths)
  * 2. Vocabulary Richness (Type-Token Ratio)
  * 3. Buzzword Density
+ * 4. Perplexity under a bundled character n-gram language model
+ * 5. Stylometry (length-robust lexical diversity, function words,
+ *    punctuation, passive voice, readability and repetition; stylometry.ts)
+ *
+ * Their scores are combined by a weighted ensemble, and each detector's share
+ * of the final probability is reported in `detectors`. The ensemble score is
+ * then mapped through the active calibration (calibration.ts) so that
+ * `aiProbability` tracks observed frequencies on a labeled corpus. A custom
+ * classifier trained on the user's own resumes (classifier.ts) can replace
+ * both the ensemble weights and the calibration. Only prose is scored:
+ * resumeParser.ts masks contact details, skill lists and education entries,
+ * and each prose section also gets its own probability.
+ *
+ * The language is detected first (languageDetection.ts). English, German and
+ * Spanish are scored with their own lexicon and normalization constants;
+ * any other language gets a neutral "low confidence" result, not a verdict.
+ *
+ * Every score comes with a bootstrap interval over sentences (uncertainty.ts),
+ * and texts too short to judge are reported as inconclusive. The score is
+ * broken down into per-feature pushes (explanation.ts), and the summary and
+ * suggestions are written from the features that moved it most.
+ *
+ * Specificity (concrete details vs vague claims) and, when a job description
+ * is given, its overlap with the resume are measured separately
+ * (specificity.ts); they add flags but never change the probability.
+ *
+ * Scoring is deterministic by default: the same text always yields the same
+ * result. The optional 'seeded-noise' mode jitters scores for demos only, and
+ * even then the jitter is reproducible from the seed recorded in the result.
+ *
+ * The pipeline reports progress per stage and checks `options.signal` at each
+ * stage boundary. In the browser it runs inside analysisWorker.ts (see
+ * analysisWorkerClient.ts) so the UI stays responsive.
  */
 
-export const analyzeResume = async (text: string): Promise<AnalysisResult> => {
-  // Simulate processing delay for realism
-  await new Promise((resolve) => setTimeout(resolve, 1500));
+// Calibrated probability above which a resume is called AI-generated.
+export const AI_PROBABILITY_THRESHOLD = 55;
 
-  const cleanText = text.toLowerCase();
-  
-  // Split into sentences (naive split on punctuation)
-  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
-  const words = cleanText.match(/\b\w+\b/g) || [];
-  
-  // --- 1. Calculate Burstiness (Sentence Length Variance) ---
-  const sentenceLengths = sentences.map(s => s.trim().split(/\s+/).length);
-  const avgLen = sentenceLengths.reduce((a, b) => a + b, 0) / (sentenceLengths.length || 1);
-  
-  // Calculate Variance
-  const variance = sentenceLengths.reduce((a, b) => a + Math.pow(b - avgLen, 2), 0) / (sentenceLengths.length || 1);
-  const stdDev = Math.sqrt(variance);
-  
-  // Normalize Burstiness Score (Humans usually have higher stdDev > 5-10)
-  // AI tends to be more monotonic (lower stdDev)
-  const burstinessScore = Math.min(100, Math.max(0, stdDev * 8));
-
-  // --- 2. Vocabulary Richness (Type-Token Ratio) ---
-  const uniqueWords = new Set(words);
-  const ttr = words.length > 0 ? uniqueWords.size / words.length : 0;
-  // Normalize: TTR of 0.6 is very rich, 0.3 is repetitive
-  const vocabScore = Math.min(100, Math.max(0, ttr * 160));
-
-  // --- 3. AI Buzzword Detection ---
-  const aiMarkers = [
-    'spearheaded', 'orchestrated', 'leveraged', 'utilized', 'seamlessly', 
-    'pivotal', 'transformative', 'robust', 'paradigm', 'synergy', 
-    'demonstrated', 'proven track record', 'dynamic', 'meticulous',
-    'navigated', 'fostered', 'results-driven', 'visionary'
-  ];
-  
-  const markerCount = words.filter(w => aiMarkers.includes(w)).length;
-  const markerDensity = words.length > 0 ? markerCount / words.length : 0;
+// Below this many prose words the mask is ignored and the raw text is scored.
+export const MIN_PROSE_WORDS = 3;
 
-  // --- 4. Final Scoring Logic ---
-  // Heuristic: High AI probability if Low Burstiness, Low Vocab, High Buzzwords
-  let aiScore = 50; // Base uncertainty
-  
-  aiScore += (12 - stdDev) * 3;      // Low variance -> Higher AI score
-  aiScore += (0.55 - ttr) * 60;      // Low TTR -> Higher AI score
-  aiScore += markerDensity * 800;    // High buzzwords -> Higher AI score
+/**
+ * Tokenizes the text once for all detectors. `text` may be a masked copy of
+ * the resume; offsets in the context always refer to the original.
+ */
+const buildContext = (text: string, lexicon: LexiconEntry[], language: LanguageProfile): AnalysisContext => {
+  // Bullet- and abbreviation-aware sentences (tokenizer.ts), keeping offsets for highlighting
+  const segmented = segmentSentences(text);
+  const sentenceSpans = segmented.length > 0 ? segmented : [{ start: 0, end: text.length }];
+  const sentences = sentenceSpans.map(({ start, end }) => text.slice(start, end));
+  const words = tokenizeWords(text);
+
+  const languageModel = getDefaultLanguageModel();
+  return {
+    text,
+    sentences,
+    sentenceSpans,
+    words,
+    perplexity: measurePerplexity(languageModel, sentences),
+    perplexityReference: languageModel.model.reference,
+    lexicon,
+    language
+  };
+};
+
+const clampProbability = (score: number) => Math.max(5, Math.min(98, score));
+
+// Share of the progress bar given to the detector stage.
+const DETECTOR_PROGRESS_START = 20;
+const DETECTOR_PROGRESS_SPAN = 55;
+
+interface VerdictText {
+  headline: string;
+  summary: string;
+  suggestions: string[];
+}
+
+const verdictText = (
+  isAi: boolean,
+  inconclusive: InconclusiveReason | undefined,
+  language: LanguageDetection,
+  context: AnalysisContext,
+  explanation: Explanation | undefined,
+  highlights: HighlightSpan[]
+): VerdictText => {
+  switch (inconclusive) {
+    case 'unsupported-language':
+      return {
+        headline: "Unsupported Language: Low Confidence",
+        summary: `This resume appears to be written in ${language.name}. The detectors are tuned for English, German and Spanish, so no verdict is given; the scores below are for reference only.`,
+        suggestions: ["Review this resume manually", "Ask for an English, German or Spanish version if one exists"]
+      };
+    case 'insufficient-text':
+      return {
+        headline: "Inconclusive: Not Enough Text",
+        summary: `Only ${context.words.length} words in ${context.sentences.length} sentence(s) could be scored. A verdict needs at least ${MIN_EVIDENCE_WORDS} words across ${MIN_EVIDENCE_SENTENCES} sentences, so the scores below are for reference only.`,
+        suggestions: ["Analyze the full resume, including the summary and experience sections"]
+      };
+  }
+  return {
+    headline: isAi ? "Likely AI-Generated Pattern" : "Likely Human-Written",
+    ...describeVerdict(explanation!, isAi, highlights)
+  };
+};
+
+/** Scores each prose section on its own; other sections get null. */
+const scoreSections = (
+  text: string,
+  proseText: string,
+  sections: ResumeSection[],
+  lexicon: LexiconEntry[],
+  language: LanguageProfile,
+  scoreContext: (context: AnalysisContext) => number
+): SectionScore[] =>
+  sections.map(({ bullets, ...section }) => {
+    const sectionText = proseText.slice(section.start, section.end);
+    const wordCount = countWords(section.isProse ? sectionText : text.slice(section.start, section.end));
+    const aiProbability = section.isProse && wordCount > 0
+      ? Math.round(clampProbability(scoreContext(buildContext(sectionText, lexicon, language))))
+      : null;
+    return { ...section, wordCount, bulletCount: bullets.length, aiProbability };
+  });
+
+export const analyzeResume = async (text: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  const { onProgress, signal } = options;
+  const stage = async (progress: AnalysisProgress) => {
+    signal?.throwIfAborted();
+    onProgress?.(progress);
+    await yieldToEventLoop();
+    signal?.throwIfAborted();
+  };
+
+  const scoringMode = options.scoringMode ?? 'deterministic';
+  const contentHash = hashContent(text);
+  const noiseSeed = scoringMode === 'seeded-noise'
+    ? (options.seed ?? parseInt(contentHash.slice(7, 15), 16))
+    : undefined;
+  // Zero-centered noise in [-1, 1); constant zero unless the demo mode is on.
+  const random = noiseSeed !== undefined ? createSeededRandom(noiseSeed) : null;
+  const noise = () => (random ? random() * 2 - 1 : 0);
+
+  // Score only the prose: contact blocks, skill lists and education entries are masked out
+  await stage({ stage: 'segmentation', label: 'Segmenting resume sections', percent: 5 });
+  const sections = parseResume(text);
+  const proseText = maskNonProse(text, sections);
+  const scoredText = countWords(proseText) >= MIN_PROSE_WORDS ? proseText : text;
+  const language = detectLanguage(scoredText);
+  const profile = getLanguageProfile(language.code);
+  // The saved (editable) lexicon is the English one; other languages use their built-in lists
+  const lexicon = profile.code === DEFAULT_LANGUAGE ? (options.lexicon ?? loadLexicon()) : profile.lexicon;
+
+  await stage({ stage: 'language-model', label: 'Measuring perplexity', percent: 12 });
+  const context = buildContext(scoredText, lexicon, profile);
+
+  // --- Weighted ensemble over all registered detectors ---
+  const detectors = getDetectors();
+  // One detector at a time, yielding in between so progress renders and a cancel lands
+  const runs: DetectorRun[] = [];
+  for (const [index, detector] of detectors.entries()) {
+    await stage({
+      stage: 'detector',
+      label: `Running ${detector.name} detector`,
+      percent: Math.round(DETECTOR_PROGRESS_START + (DETECTOR_PROGRESS_SPAN * index) / detectors.length),
+      detectorId: detector.id
+    });
+    runs.push(runDetector(detector, context, options.detectorWeights));
+  }
+  const { probability: ensembleProbability, contributions } = combineDetectorRuns(runs);
+
+  // A custom classifier replaces the ensemble weights and is not recalibrated
+  const classifier = options.classifier !== undefined ? options.classifier : loadActiveClassifier();
+  const calibration = classifier ? { method: 'none' as const } : (options.calibration ?? loadCalibration());
+  const scoreContext = (ctx: AnalysisContext) => {
+    const ensemble = runEnsemble(detectors, ctx, options.detectorWeights);
+    return classifier ? predictClassifier(classifier, ensemble.contributions) : ensemble.probability;
+  };
+  const probability = classifier ? predictClassifier(classifier, contributions) : ensembleProbability;
+
+  await stage({ stage: 'sections', label: 'Scoring sections', percent: DETECTOR_PROGRESS_START + DETECTOR_PROGRESS_SPAN });
+  const sectionScores = scoreSections(text, proseText, sections, lexicon, profile, scoreContext);
+  const calibrated = (raw: number) => clampProbability(applyCalibration(calibration, raw));
+  let aiScore = applyCalibration(calibration, probability);
   
-  // Add slight randomness to simulate model confidence variance
-  aiScore += (Math.random() * 10 - 5);
+  // Demo mode only: slight seeded jitter to simulate model confidence variance
+  aiScore += noise() * 5;
   
   // Clamp to 5-98%
-  aiScore = Math.max(5, Math.min(98, aiScore));
+  aiScore = clampProbability(aiScore);
+
+  // Unsupported language or too little text: the heuristics would be guessing, so stay on the fence
+  const inconclusive: InconclusiveReason | undefined = !language.supported ? 'unsupported-language'
+    : !hasSufficientEvidence(context) ? 'insufficient-text'
+    : undefined;
+
+  // --- Uncertainty: bootstrap over sentences, seeded from the content ---
+  await stage({ stage: 'uncertainty', label: 'Estimating confidence interval', percent: 85 });
+  // Without a verdict there is nothing for an interval to qualify
+  const interval = inconclusive ? undefined : bootstrapInterval(
+    context,
+    aiScore,
+    resample => calibrated(scoreContext(resample)),
+    createSeededRandom(parseInt(contentHash.slice(15, 23), 16))
+  );
+  if (inconclusive) aiScore = 50;
   
-  const isAi = aiScore > 55;
+  const isAi = aiScore > AI_PROBABILITY_THRESHOLD;
   const humanScore = 100 - aiScore;
 
-  // Generate dynamic flags
-  const flags = [];
-  if (stdDev < 6) flags.push("Monotonic sentence structure (Low Burstiness)");
-  if (markerCount > 2) flags.push(`High density of buzzwords (${markerCount} found)`);
-  if (ttr < 0.4) flags.push("Repetitive vocabulary usage");
+  const highlights = contributions
+    .flatMap(c => c.spans ?? [])
+    .sort((a, b) => a.start - b.start);
+
+  // Flags come straight from the detectors that raised them; without a
+  // verdict there is one honest flag instead of untrusted detector flags
+  const flags = inconclusive === 'unsupported-language' ? [`Unsupported language (${language.name}): low confidence`]
+    : inconclusive === 'insufficient-text' ? [`Insufficient text for a verdict (${context.words.length} words)`]
+    : contributions.flatMap(c => c.flags);
+
+  // Content signals, reported next to the probability rather than folded into it
+  const specificity = language.code === DEFAULT_LANGUAGE && context.words.length > 0 ? measureSpecificity(context) : undefined;
+  const jobMatch = options.jobDescription?.trim() ? matchJobDescription(text, context, options.jobDescription) : undefined;
+  if (!inconclusive && specificity && specificity.score < GENERIC_SPECIFICITY) {
+    flags.push(`Generic content: ${specificity.concretePer100Words} concrete details vs ${specificity.vaguePer100Words} vague claims per 100 words`);
+  }
+  if (!inconclusive && jobMatch && jobMatch.paraphrases.length > 0) {
+    const count = jobMatch.paraphrases.length;
+    flags.push(`${count} sentence${count === 1 ? '' : 's'} closely paraphrase${count === 1 ? 's' : ''} the job description`);
+  }
   if (flags.length === 0) flags.push("No significant AI anomalies detected");
 
+  // Feature values for the charts (High = human-like)
+  const stdDev = evidenceValue(contributions, 'burstiness', 'stdDev') ?? 0;
+  const variance = evidenceValue(contributions, 'burstiness', 'variance') ?? 0;
+  const ttr = evidenceValue(contributions, 'vocabulary', 'ttr') ?? 0;
+  // An English model's perplexity says nothing about other languages
+  const perplexityScore = profile.norms.hasLanguageModel ? (evidenceValue(contributions, 'perplexity', 'perplexityScore') ?? 50) : 50;
+
+  // Without a verdict there is nothing to explain
+  const finalScore = Math.round(aiScore);
+  const explanation = inconclusive ? undefined
+    : classifier ? explainClassifier(classifier, contributions, finalScore)
+    : explainEnsemble(contributions, finalScore);
+  const verdict = verdictText(isAi, inconclusive, language, context, explanation, highlights);
+  onProgress?.({ stage: 'done', label: 'Analysis complete', percent: 100 });
+
   return {
     isAiGenerated: isAi,
-    aiProbability: Math.round(aiScore),
+    aiProbability: finalScore,
     humanProbability: Math.round(humanScore),
-    verdictHeadline: isAi ? "Likely AI-Generated Pattern" : "Likely Human-Written",
-    summary: isAi 
-      ? "The text exhibits characteristic uniformity in sentence structure and a high frequency of generic professional keywords often associated with AI language models."
-      : "The writing exhibits natural variance in sentence length and vocabulary usage, suggesting authentic human composition with a unique personal voice.",
+    verdictHeadline: verdict.headline,
+    summary: verdict.summary,
     linguisticAnalysis: {
       // Inverse relationships for visualization
-      perplexityScore: Math.round(humanScore * 0.8 + Math.random() * 20), 
-      burstinessScore: Math.round(burstinessScore),
-      vocabularyRichness: Math.round(vocabScore),
-      sentenceVariety: Math.round(Math.min(100, variance * 2))
+      perplexityScore: Math.round(perplexityScore),
+      // Humans usually have higher stdDev > 5-10; TTR of 0.6 is very rich, 0.3 is repetitive
+      burstinessScore: Math.round(Math.min(100, Math.max(0, stdDev * profile.norms.burstinessChartScale))),
+      vocabularyRichness: Math.round(Math.min(100, Math.max(0, ttr * profile.norms.ttrChartScale))),
+      sentenceVariety: Math.round(Math.min(100, variance * 2)),
+      stylometry: stylometryChartScores(contributions.find(c => c.id === 'stylometry')?.evidence)
     },
     flags: flags,
-    suggestions: isAi 
-      ? ["Vary your sentence lengths significantly", "Replace generic buzzwords (e.g., 'leveraged') with specific actions", "Add personal anecdotes or gritty details"]
-      : ["Maintain this natural tone", "Ensure specific metrics are included to back up claims"]
+    perplexity: context.perplexity,
+    detectors: contributions,
+    ...(explanation && { explanation }),
+    sentenceScores: scoreSentences(context, highlights),
+    highlights,
+    sections: sectionScores,
+    suggestions: verdict.suggestions,
+    rawProbability: Math.round(probability * 10) / 10,
+    calibration: calibration.method,
+    ...(classifier && { classifier: classifier.name }),
+    language,
+    ...(interval && { interval }),
+    ...(inconclusive && { inconclusive }),
+    ...(specificity && { specificity }),
+    ...(jobMatch && { jobMatch }),
+    contentHash,
+    analyzerVersion: ANALYZER_VERSION,
+    scoringMode,
+    ...(noiseSeed !== undefined && { noiseSeed }),
+    ...(options.ocr && { ocr: options.ocr })
   };
 };
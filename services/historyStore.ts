@@ -0,0 +1,142 @@
+import { AnalysisResult, HistoryRecord, SimilaritySignature } from "../types";
+
+/**
+ * ANALYSIS HISTORY (IndexedDB)
+ *
+ * Every analysis is kept locally as an audit trail of screening decisions:
+ * the exact text, its hash, the full result and the analyzer version that
+ * produced it. Nothing leaves the browser.
+ *
+ * Each record's similarity signature is kept in a second store under the
+ * same id, so comparing a new resume with the history reads only the
+ * signatures (similarity.ts), not every text and result.
+ */
+
+const DB_NAME = 'resumeguard';
+const DB_VERSION = 2;
+const STORE = 'analyses';
+const SIGNATURE_STORE = 'signatures';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error("Analysis history needs IndexedDB, which this environment does not provide."));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+          store.createIndex('contentHash', 'contentHash');
+        }
+        // Records saved before version 2 get their signature on the next comparison
+        if (event.oldVersion < 2) db.createObjectStore(SIGNATURE_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(fn(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+// Writes to both stores at once, so a record never outlives its signature or the reverse.
+const withBothStores = async (fn: (records: IDBObjectStore, signatures: IDBObjectStore) => void): Promise<void> => {
+  const db = await openDb();
+  const transaction = db.transaction([STORE, SIGNATURE_STORE], 'readwrite');
+  fn(transaction.objectStore(STORE), transaction.objectStore(SIGNATURE_STORE));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/** How a record is named where it turns up as another applicant's near-duplicate. */
+export const historyName = (record: Pick<HistoryRecord, 'fileName' | 'createdAt'>): string =>
+  record.fileName ?? `Pasted text (${new Date(record.createdAt).toLocaleDateString()})`;
+
+/** Saves the record, and `signature` (from the comparison that preceded it) under the record's id. */
+export const saveAnalysis = async (
+  result: AnalysisResult,
+  text: string,
+  fileName?: string,
+  jobDescription?: string,
+  signature?: SimilaritySignature
+): Promise<HistoryRecord> => {
+  const createdAt = new Date().toISOString();
+  const record: HistoryRecord = {
+    // Random rather than time-based: a batch can save the same file twice in one millisecond
+    id: crypto.randomUUID(),
+    fileName: fileName ?? null,
+    createdAt,
+    contentHash: result.contentHash,
+    analyzerVersion: result.analyzerVersion,
+    text,
+    result,
+    ...(jobDescription && { jobDescription })
+  };
+  await withBothStores((records, signatures) => {
+    records.add(record);
+    if (signature) signatures.put({ ...signature, id: record.id, name: historyName(record) });
+  });
+  return record;
+};
+
+/** Newest first. */
+export const listAnalyses = async (): Promise<HistoryRecord[]> => {
+  const records = await withStore<HistoryRecord[]>('readonly', store => store.index('createdAt').getAll());
+  return records.reverse();
+};
+
+export const getAnalysis = (id: string): Promise<HistoryRecord | undefined> =>
+  withStore<HistoryRecord | undefined>('readonly', store => store.get(id));
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  await withBothStores((records, signatures) => {
+    records.delete(id);
+    signatures.delete(id);
+  });
+};
+
+/** Record ids, newest first. */
+export const listAnalysisIds = async (): Promise<string[]> => {
+  const keys = await withStore('readonly', store => store.index('createdAt').getAllKeys());
+  return keys.map(String).reverse();
+};
+
+export const listSignatures = (): Promise<SimilaritySignature[]> =>
+  withStore<SimilaritySignature[]>('readonly', store => store.getAll(), SIGNATURE_STORE);
+
+export const saveSignatures = async (signatures: SimilaritySignature[]): Promise<void> => {
+  await withBothStores((_, store) => signatures.forEach(signature => store.put(signature)));
+};
+
+/** Case-insensitive match on file name, hash, verdict and flags. */
+export const matchesHistoryQuery = (record: HistoryRecord, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [record.fileName ?? 'pasted text', record.contentHash, record.result.verdictHeadline, ...record.result.flags]
+    .some(field => field.toLowerCase().includes(q));
+};
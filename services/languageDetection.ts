@@ -0,0 +1,106 @@
+import { LanguageDetection } from "../types";
+import { LANGUAGE_PROFILES, DEFAULT_LANGUAGE, isSupportedLanguage } from "./languageProfiles";
+import { tokenizeWords } from "./tokenizer";
+
+/**
+ * LANGUAGE DETECTION
+ *
+ * Two steps, both cheap enough to run on every analysis:
+ * 1. Script: letters are counted per Unicode script. Text that is mostly
+ *    Devanagari, CJK, Cyrillic and so on is named from its script.
+ * 2. Latin text: hits against short function-word lists for the supported
+ *    languages and their nearest neighbours (French, Portuguese, Italian,
+ *    Dutch); the best-scoring list wins.
+ * Resumes are telegraphic and can contain few function words, so Latin text
+ * without clear evidence is treated as English, as before detection existed.
+ */
+
+// Below this many function-word hits the Latin-script guess is not trusted.
+const MIN_STOPWORD_HITS = 5;
+// Share of letters a non-Latin script needs to define the language.
+const SCRIPT_MAJORITY = 0.5;
+
+const SCRIPTS: { pattern: RegExp; code: string; name: string }[] = [
+  { pattern: /\p{Script=Devanagari}/u, code: 'hi', name: 'Hindi' },
+  { pattern: /\p{Script=Bengali}/u, code: 'bn', name: 'Bengali' },
+  { pattern: /\p{Script=Tamil}/u, code: 'ta', name: 'Tamil' },
+  { pattern: /\p{Script=Telugu}/u, code: 'te', name: 'Telugu' },
+  { pattern: /\p{Script=Gujarati}/u, code: 'gu', name: 'Gujarati' },
+  { pattern: /\p{Script=Kannada}/u, code: 'kn', name: 'Kannada' },
+  { pattern: /\p{Script=Malayalam}/u, code: 'ml', name: 'Malayalam' },
+  { pattern: /\p{Script=Gurmukhi}/u, code: 'pa', name: 'Punjabi' },
+  { pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u, code: 'ja', name: 'Japanese' },
+  { pattern: /\p{Script=Han}/u, code: 'zh', name: 'Chinese' },
+  { pattern: /\p{Script=Hangul}/u, code: 'ko', name: 'Korean' },
+  { pattern: /\p{Script=Cyrillic}/u, code: 'ru', name: 'Russian' },
+  { pattern: /\p{Script=Arabic}/u, code: 'ar', name: 'Arabic' },
+  { pattern: /\p{Script=Hebrew}/u, code: 'he', name: 'Hebrew' },
+  { pattern: /\p{Script=Greek}/u, code: 'el', name: 'Greek' },
+  { pattern: /\p{Script=Thai}/u, code: 'th', name: 'Thai' }
+];
+
+// Unsupported Latin-script languages, so that e.g. French is not read as Spanish.
+const OTHER_LATIN_STOPWORDS: { code: string; name: string; stopwords: string[] }[] = [
+  { code: 'fr', name: 'French', stopwords: ['le', 'les', 'et', 'des', 'du', 'une', 'pour', 'avec', 'dans', 'est', 'au', 'aux', 'sur', 'par', 'qui', 'je', 'nous', 'mes', 'ses', 'été'] },
+  { code: 'pt', name: 'Portuguese', stopwords: ['o', 'os', 'e', 'do', 'da', 'dos', 'das', 'em', 'com', 'um', 'uma', 'não', 'no', 'na', 'ao', 'pela', 'pelo', 'foi', 'meu', 'minha'] },
+  { code: 'it', name: 'Italian', stopwords: ['il', 'gli', 'di', 'della', 'dei', 'che', 'per', 'con', 'nel', 'nella', 'sono', 'ho', 'una', 'alla', 'delle', 'anche', 'stato', 'mio', 'è', 'ed'] },
+  { code: 'nl', name: 'Dutch', stopwords: ['het', 'een', 'en', 'van', 'met', 'voor', 'op', 'te', 'dat', 'niet', 'ik', 'wij', 'bij', 'ook', 'naar', 'zijn', 'heb', 'mijn', 'werd', 'aan'] }
+];
+
+const CANDIDATES = [
+  ...Object.values(LANGUAGE_PROFILES).map(({ code, name, stopwords }) => ({ code: code as string, name, stopwords })),
+  ...OTHER_LATIN_STOPWORDS
+].map(({ code, name, stopwords }) => ({ code, name, stopwords: new Set(stopwords) }));
+
+const LETTER = /\p{L}/u;
+const LATIN = /\p{Script=Latin}/u;
+
+const result = (code: string, name: string, confidence: number): LanguageDetection => ({
+  code,
+  name,
+  confidence: Math.round(confidence * 100) / 100,
+  supported: isSupportedLanguage(code)
+});
+
+const detectScript = (text: string): LanguageDetection | null => {
+  const counts = new Map<number, number>();
+  let letters = 0;
+  let latin = 0;
+  for (const char of text) {
+    if (!LETTER.test(char)) continue;
+    letters++;
+    if (LATIN.test(char)) {
+      latin++;
+      continue;
+    }
+    const index = SCRIPTS.findIndex(s => s.pattern.test(char));
+    counts.set(index, (counts.get(index) ?? 0) + 1);
+  }
+  if (letters === 0 || latin / letters >= SCRIPT_MAJORITY) return null;
+
+  // Kana alongside Han means Japanese; check it before the Han count wins
+  const [index, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+  const kana = SCRIPTS.findIndex(s => s.code === 'ja');
+  const winner = (counts.get(kana) ?? 0) > 0 && SCRIPTS[index]?.code === 'zh' ? kana : index;
+  const script = SCRIPTS[winner];
+  return script
+    ? result(script.code, script.name, count / letters)
+    : result('und', 'Unknown', count / letters);
+};
+
+export const detectLanguage = (text: string): LanguageDetection => {
+  const byScript = detectScript(text);
+  if (byScript) return byScript;
+
+  const words = tokenizeWords(text);
+  const hits = CANDIDATES
+    .map(candidate => ({ ...candidate, hits: words.filter(w => candidate.stopwords.has(w)).length }))
+    .sort((a, b) => b.hits - a.hits);
+  const [best, runnerUp] = hits;
+
+  if (best.hits < MIN_STOPWORD_HITS) {
+    const english = LANGUAGE_PROFILES[DEFAULT_LANGUAGE];
+    return result(english.code, english.name, best.code === english.code ? 0.5 : 0.3);
+  }
+  return result(best.code, best.name, best.hits / (best.hits + runnerUp.hits));
+};
@@ -0,0 +1,175 @@
+import { PerplexityReport } from "../types";
+import bundledModel from "./models/ngram-en.json";
+
+/**
+ * LOCAL CHARACTER N-GRAM LANGUAGE MODEL
+ *
+ * An interpolated Kneser-Ney character model trained offline on human-written
+ * prose and resumes (see data/reference-corpus.txt, data/resume-corpus.txt and
+ * scripts/build-language-model.ts). The trained counts ship as a static JSON
+ * asset, so perplexity is measured entirely in the browser. The reference band
+ * is the spread of document perplexities of human resumes held out of training.
+ *
+ * Text the model finds very predictable (low perplexity) reads as templated;
+ * human writing tends to surprise the model more.
+ */
+
+export interface NgramModel {
+  version: number;
+  order: number;
+  alphabet: string; // Known characters; anything else maps to OOV_CHAR
+  discounts: number[]; // Absolute discount per order (index = order - 1)
+  counts: Record<string, number>[]; // Raw counts at the top order, continuation counts below
+  reference: { p05: number; p50: number; p95: number }; // Held-out human resume document perplexities
+}
+
+interface HistoryStats {
+  total: number;
+  types: number;
+}
+
+export interface LoadedNgramModel {
+  model: NgramModel;
+  vocabularySize: number;
+  histories: Map<string, HistoryStats>[];
+}
+
+const BOS = '^';
+const EOS = '\n'; // Never survives normalization, so it cannot collide
+const OOV_CHAR = '~';
+export const DEFAULT_ALPHABET = "abcdefghijklmnopqrstuvwxyz0 .,;:!?'\"-()%$£&/";
+
+/**
+ * Lowercases, folds digits to '0' and replaces unknown characters so the
+ * model sees the same reduced alphabet at training and scoring time.
+ */
+export const normalizeForModel = (text: string, alphabet: string = DEFAULT_ALPHABET): string =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/\d/g, '0')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split('')
+    .map((ch) => (alphabet.includes(ch) ? ch : OOV_CHAR))
+    .join('');
+
+const pad = (sentence: string, order: number) => BOS.repeat(order - 1) + sentence + EOS;
+
+export const trainNgramModel = (sentences: string[], order = 4, alphabet: string = DEFAULT_ALPHABET): NgramModel => {
+  const counts: Record<string, number>[] = Array.from({ length: order }, () => ({}));
+
+  // --- 1. Raw counts at the highest order ---
+  for (const raw of sentences) {
+    const normalized = normalizeForModel(raw, alphabet);
+    if (!normalized) continue;
+    const padded = pad(normalized, order);
+    for (let i = order - 1; i < padded.length; i++) {
+      const gram = padded.slice(i - order + 1, i + 1);
+      counts[order - 1][gram] = (counts[order - 1][gram] || 0) + 1;
+    }
+  }
+
+  // --- 2. Continuation counts: distinct left extensions of each lower-order gram ---
+  for (let k = order - 1; k >= 1; k--) {
+    for (const gram of Object.keys(counts[k])) {
+      const suffix = gram.slice(1);
+      counts[k - 1][suffix] = (counts[k - 1][suffix] || 0) + 1;
+    }
+  }
+
+  // --- 3. Discounts from count-of-counts (Ney et al. estimate) ---
+  const discounts = counts.map((level) => {
+    let n1 = 0;
+    let n2 = 0;
+    for (const c of Object.values(level)) {
+      if (c === 1) n1++;
+      else if (c === 2) n2++;
+    }
+    return n1 + n2 > 0 ? n1 / (n1 + 2 * n2) : 0.75;
+  });
+
+  return { version: 1, order, alphabet, discounts, counts, reference: { p05: 0, p50: 0, p95: 0 } };
+};
+
+export const loadNgramModel = (model: NgramModel): LoadedNgramModel => {
+  const histories = model.counts.map((level) => {
+    const stats = new Map<string, HistoryStats>();
+    for (const [gram, count] of Object.entries(level)) {
+      const history = gram.slice(0, -1);
+      const entry = stats.get(history) || { total: 0, types: 0 };
+      entry.total += count;
+      entry.types += 1;
+      stats.set(history, entry);
+    }
+    return stats;
+  });
+  // Alphabet plus the OOV and end-of-sentence symbols
+  return { model, vocabularySize: model.alphabet.length + 2, histories };
+};
+
+const probability = (lm: LoadedNgramModel, k: number, history: string, ch: string): number => {
+  const lower = k === 1 ? 1 / lm.vocabularySize : probability(lm, k - 1, history.slice(1), ch);
+  const context = k === 1 ? '' : history;
+  const stats = lm.histories[k - 1].get(context);
+  if (!stats) return lower;
+
+  const discount = lm.model.discounts[k - 1];
+  const count = lm.model.counts[k - 1][context + ch] || 0;
+  return Math.max(count - discount, 0) / stats.total + (discount * stats.types / stats.total) * lower;
+};
+
+/** Total negative log-likelihood (nats) and number of predicted symbols. */
+const sentenceLoss = (lm: LoadedNgramModel, sentence: string): { nll: number; symbols: number } => {
+  const { order, alphabet } = lm.model;
+  const normalized = normalizeForModel(sentence, alphabet);
+  if (!normalized) return { nll: 0, symbols: 0 };
+
+  const padded = pad(normalized, order);
+  let nll = 0;
+  for (let i = order - 1; i < padded.length; i++) {
+    const history = padded.slice(i - order + 1, i);
+    nll -= Math.log(probability(lm, order, history, padded[i]));
+  }
+  return { nll, symbols: padded.length - (order - 1) };
+};
+
+export const measurePerplexity = (lm: LoadedNgramModel, sentences: string[]): PerplexityReport => {
+  let totalNll = 0;
+  let totalSymbols = 0;
+
+  const sentenceReports = sentences.map((text) => {
+    const { nll, symbols } = sentenceLoss(lm, text);
+    totalNll += nll;
+    totalSymbols += symbols;
+    return { text: text.trim(), perplexity: symbols > 0 ? Math.exp(nll / symbols) : 0 };
+  });
+
+  return {
+    documentPerplexity: totalSymbols > 0 ? Math.exp(totalNll / totalSymbols) : 0,
+    sentences: sentenceReports
+  };
+};
+
+/**
+ * Maps a perplexity onto 0-100 using the held-out human reference band:
+ * the 5th percentile maps to 0 (very predictable), the 95th to 100.
+ */
+export const perplexityToScore = (perplexity: number, reference: NgramModel['reference']): number => {
+  if (perplexity <= 0) return 0;
+  const low = Math.log(reference.p05);
+  const high = Math.log(reference.p95);
+  const scaled = ((Math.log(perplexity) - low) / (high - low)) * 100;
+  return Math.min(100, Math.max(0, scaled));
+};
+
+let defaultModel: LoadedNgramModel | null = null;
+
+export const getDefaultLanguageModel = (): LoadedNgramModel => {
+  if (!defaultModel) defaultModel = loadNgramModel(bundledModel as NgramModel);
+  return defaultModel;
+};
@@ -0,0 +1,126 @@
+import { LanguageCode, LanguageProfile } from "../types";
+import { DEFAULT_LEXICON } from "./lexicon";
+
+/**
+ * LANGUAGE PROFILES
+ *
+ * Everything the detectors assume about a language. English keeps the
+ * constants the analyzer was built with. German and Spanish start from them:
+ * both write longer sentences than English resumes, German compounds and
+ * Spanish inflection raise the type-token ratio of ordinary text, and the
+ * bundled perplexity model only knows English. Their constants are estimates
+ * until an evaluation corpus in those languages exists (see evaluation.ts).
+ */
+
+const ENGLISH: LanguageProfile = {
+  code: 'en',
+  name: 'English',
+  stopwords: [
+    'the', 'and', 'of', 'to', 'in', 'with', 'for', 'on', 'a', 'an', 'is', 'was', 'my', 'i', 'as',
+    'at', 'by', 'from', 'that', 'this', 'have', 'has', 'our', 'we', 'which', 'into', 'while', 'across'
+  ],
+  // The English lexicon is the user-editable one (Settings); this is its default
+  lexicon: DEFAULT_LEXICON,
+  norms: {
+    neutralStdDev: 12,
+    monotonicStdDev: 6,
+    neutralTtr: 0.55,
+    repetitiveTtr: 0.4,
+    burstinessChartScale: 8,
+    ttrChartScale: 160,
+    hasLanguageModel: true
+  }
+};
+
+const GERMAN: LanguageProfile = {
+  code: 'de',
+  name: 'German',
+  stopwords: [
+    'der', 'die', 'das', 'und', 'mit', 'für', 'von', 'zu', 'im', 'ist', 'ein', 'eine', 'einer', 'den',
+    'dem', 'des', 'auf', 'als', 'bei', 'sowie', 'nicht', 'ich', 'wir', 'auch', 'über', 'durch', 'zur', 'zum'
+  ],
+  lexicon: [
+    { phrase: 'federführend', category: 'ai-cliche', weight: 1.5 },
+    { phrase: 'maßgeblich', category: 'ai-cliche', weight: 1.2 },
+    { phrase: 'nahtlos', category: 'ai-cliche', weight: 1.2 },
+    { phrase: 'ganzheitlich', category: 'ai-cliche', weight: 1.2 },
+    { phrase: 'zukunftsweisend', category: 'ai-cliche', weight: 1.2 },
+    { phrase: 'nachweisliche erfolgsbilanz', category: 'ai-cliche', weight: 1.5 },
+    { phrase: 'leidenschaft für', category: 'ai-cliche', weight: 1 },
+    { phrase: 'ergebnisorientiert', category: 'ai-cliche', weight: 1.5 },
+    { phrase: 'lösungsorientiert', category: 'corporate-filler', weight: 1 },
+    { phrase: 'zielorientiert', category: 'corporate-filler', weight: 0.8 },
+    { phrase: 'synergien', category: 'corporate-filler', weight: 1 },
+    { phrase: 'innovativ', category: 'corporate-filler', weight: 0.8 },
+    { phrase: 'dynamisch', category: 'corporate-filler', weight: 0.8 },
+    { phrase: 'abteilungsübergreifend', category: 'corporate-filler', weight: 0.6 },
+    { phrase: 'mehrwert schaffen', category: 'corporate-filler', weight: 1.2 },
+    { phrase: 'in der heutigen schnelllebigen', category: 'llm-transition', weight: 1.5 },
+    { phrase: 'darüber hinaus', category: 'llm-transition', weight: 1 },
+    { phrase: 'des weiteren', category: 'llm-transition', weight: 1 },
+    { phrase: 'zudem', category: 'llm-transition', weight: 0.8 },
+    { phrase: 'nicht zuletzt', category: 'llm-transition', weight: 0.8 }
+  ],
+  norms: {
+    neutralStdDev: 13,
+    monotonicStdDev: 7,
+    neutralTtr: 0.62,
+    repetitiveTtr: 0.47,
+    burstinessChartScale: 7.4,
+    ttrChartScale: 145,
+    hasLanguageModel: false
+  }
+};
+
+const SPANISH: LanguageProfile = {
+  code: 'es',
+  name: 'Spanish',
+  stopwords: [
+    'el', 'la', 'los', 'las', 'de', 'del', 'y', 'en', 'con', 'para', 'por', 'un', 'una', 'que',
+    'es', 'se', 'al', 'como', 'mi', 'su', 'sus', 'más', 'desde', 'sobre', 'entre', 'lo', 'fue', 'muy'
+  ],
+  lexicon: [
+    { phrase: 'aprovechar', category: 'ai-cliche', weight: 1.2 },
+    { phrase: 'sin fisuras', category: 'ai-cliche', weight: 1.2 },
+    { phrase: 'de manera integral', category: 'ai-cliche', weight: 1.2 },
+    { phrase: 'trayectoria comprobada', category: 'ai-cliche', weight: 1.5 },
+    { phrase: 'apasionado por', category: 'ai-cliche', weight: 1 },
+    { phrase: 'orientado a resultados', category: 'ai-cliche', weight: 1.5 },
+    { phrase: 'transformador', category: 'ai-cliche', weight: 1.2 },
+    { phrase: 'fundamental', category: 'ai-cliche', weight: 0.8 },
+    { phrase: 'sinergias', category: 'corporate-filler', weight: 1 },
+    { phrase: 'proactivo', category: 'corporate-filler', weight: 0.8 },
+    { phrase: 'dinámico', category: 'corporate-filler', weight: 0.8 },
+    { phrase: 'innovador', category: 'corporate-filler', weight: 0.8 },
+    { phrase: 'multidisciplinar', category: 'corporate-filler', weight: 0.6 },
+    { phrase: 'aportar valor', category: 'corporate-filler', weight: 1.2 },
+    { phrase: 'en el entorno actual', category: 'llm-transition', weight: 1.5 },
+    { phrase: 'además', category: 'llm-transition', weight: 0.8 },
+    { phrase: 'asimismo', category: 'llm-transition', weight: 1 },
+    { phrase: 'por otra parte', category: 'llm-transition', weight: 0.8 },
+    { phrase: 'cabe destacar', category: 'llm-transition', weight: 1.5 }
+  ],
+  norms: {
+    neutralStdDev: 13,
+    monotonicStdDev: 6.5,
+    neutralTtr: 0.58,
+    repetitiveTtr: 0.43,
+    burstinessChartScale: 7.4,
+    ttrChartScale: 152,
+    hasLanguageModel: false
+  }
+};
+
+export const LANGUAGE_PROFILES: Record<LanguageCode, LanguageProfile> = {
+  en: ENGLISH,
+  de: GERMAN,
+  es: SPANISH
+};
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const isSupportedLanguage = (code: string): code is LanguageCode => code in LANGUAGE_PROFILES;
+
+/** Profile for a detected language; unsupported ones are scored with English. */
+export const getLanguageProfile = (code: string): LanguageProfile =>
+  isSupportedLanguage(code) ? LANGUAGE_PROFILES[code] : LANGUAGE_PROFILES[DEFAULT_LANGUAGE];
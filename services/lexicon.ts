@@ -0,0 +1,104 @@
+import { LexiconCategory, LexiconEntry } from "../types";
+import { storage } from "./shared";
+
+/**
+ * BUZZWORD LEXICON
+ *
+ * Categorized, weighted marker phrases used by the buzzword detector. Users
+ * can edit the list in Settings; edits persist in localStorage and can be
+ * moved between machines as JSON.
+ */
+
+export const LEXICON_CATEGORIES: Record<LexiconCategory, string> = {
+  'ai-cliche': 'AI cliché',
+  'corporate-filler': 'Corporate filler',
+  'llm-transition': 'LLM transition phrase'
+};
+
+export const DEFAULT_LEXICON: LexiconEntry[] = [
+  { phrase: 'spearheaded', category: 'ai-cliche', weight: 1.5 },
+  { phrase: 'orchestrated', category: 'ai-cliche', weight: 1.2 },
+  { phrase: 'leverage', category: 'ai-cliche', weight: 1.2 },
+  { phrase: 'utilize', category: 'corporate-filler', weight: 1 },
+  { phrase: 'seamlessly', category: 'ai-cliche', weight: 1.2 },
+  { phrase: 'pivotal', category: 'ai-cliche', weight: 1.2 },
+  { phrase: 'transformative', category: 'ai-cliche', weight: 1.2 },
+  { phrase: 'robust', category: 'corporate-filler', weight: 0.8 },
+  { phrase: 'paradigm', category: 'corporate-filler', weight: 1 },
+  { phrase: 'synergy', category: 'corporate-filler', weight: 1 },
+  { phrase: 'demonstrated', category: 'corporate-filler', weight: 0.6 },
+  { phrase: 'proven track record', category: 'ai-cliche', weight: 1.5 },
+  { phrase: 'dynamic', category: 'corporate-filler', weight: 0.8 },
+  { phrase: 'meticulous', category: 'ai-cliche', weight: 1.2 },
+  { phrase: 'navigate', category: 'ai-cliche', weight: 0.8 },
+  { phrase: 'foster', category: 'ai-cliche', weight: 1 },
+  { phrase: 'results-driven', category: 'ai-cliche', weight: 1.5 },
+  { phrase: 'visionary', category: 'ai-cliche', weight: 1 },
+  { phrase: 'cutting-edge', category: 'corporate-filler', weight: 1 },
+  { phrase: 'cross-functional', category: 'corporate-filler', weight: 0.6 },
+  { phrase: 'drive business value', category: 'corporate-filler', weight: 1.2 },
+  { phrase: 'in today\'s fast-paced', category: 'llm-transition', weight: 1.5 },
+  { phrase: 'furthermore', category: 'llm-transition', weight: 1 },
+  { phrase: 'moreover', category: 'llm-transition', weight: 1 },
+  { phrase: 'additionally', category: 'llm-transition', weight: 0.8 },
+  { phrase: 'in addition to', category: 'llm-transition', weight: 0.6 },
+  { phrase: 'delve', category: 'llm-transition', weight: 1.5 }
+];
+
+const STORAGE_KEY = 'resumeguard.lexicon.v1';
+const EXPORT_VERSION = 1;
+
+const isCategory = (value: unknown): value is LexiconCategory =>
+  typeof value === 'string' && value in LEXICON_CATEGORIES;
+
+const validateEntries = (raw: unknown): LexiconEntry[] => {
+  if (!Array.isArray(raw)) throw new Error("Lexicon must contain an array of entries.");
+  return raw.map((entry, idx) => {
+    const { phrase, category, weight } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof phrase !== 'string' || !phrase.trim()) {
+      throw new Error(`Entry ${idx + 1} is missing a phrase.`);
+    }
+    if (!isCategory(category)) {
+      throw new Error(`Entry ${idx + 1} ("${phrase}") has an unknown category.`);
+    }
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Entry ${idx + 1} ("${phrase}") needs a non-negative numeric weight.`);
+    }
+    return { phrase: phrase.trim().toLowerCase(), category, weight };
+  });
+};
+
+export const loadLexicon = (): LexiconEntry[] => {
+  const stored = storage()?.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_LEXICON;
+  try {
+    return validateEntries(JSON.parse(stored));
+  } catch (err) {
+    console.warn("Ignoring corrupt stored lexicon:", err);
+    return DEFAULT_LEXICON;
+  }
+};
+
+export const saveLexicon = (entries: LexiconEntry[]): void => {
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(validateEntries(entries)));
+};
+
+export const resetLexicon = (): LexiconEntry[] => {
+  storage()?.removeItem(STORAGE_KEY);
+  return DEFAULT_LEXICON;
+};
+
+export const exportLexicon = (entries: LexiconEntry[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, entries }, null, 2);
+
+/** Accepts either the exported envelope or a bare array of entries. */
+export const importLexicon = (json: string): LexiconEntry[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Lexicon file is not valid JSON.");
+  }
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { entries?: unknown })?.entries;
+  return validateEntries(entries);
+};
@@ -0,0 +1,106 @@
+import { createWorker, Worker, WorkerOptions } from 'tesseract.js';
+import { OcrRegion, OcrReport } from '../types';
+
+/**
+ * OFFLINE OCR
+ *
+ * Fallback for scanned, image-only PDFs and PNG/JPG uploads. Recognition runs
+ * in tesseract.js's own Web Worker, loading the worker script, WASM core and
+ * English language data from /tesseract (copied there on npm install by
+ * scripts/copy-ocr-assets.mjs), so no request leaves the app's origin.
+ *
+ * Lines below OCR_CONFIDENCE_THRESHOLD are dropped from the text and listed
+ * as low-confidence regions instead, so misreads cannot skew the scores.
+ *
+ * Under Node (the CLI) the browser asset paths don't apply; call
+ * configureOcr with local paths before the first recognition.
+ */
+
+export const OCR_CONFIDENCE_THRESHOLD = 70;
+const ASSET_BASE = '/tesseract';
+// Render scale for PDF pages; ~150 DPI is where Tesseract accuracy levels off
+export const OCR_RENDER_SCALE = 2;
+
+export interface OcrPageResult {
+  page: number;
+  text: string;
+  confidence: number;
+  lowConfidence: OcrRegion[];
+}
+
+let workerOptions: Partial<WorkerOptions> = {
+  workerPath: `${ASSET_BASE}/worker.min.js`,
+  corePath: `${ASSET_BASE}/core`,
+  langPath: `${ASSET_BASE}/lang`,
+  workerBlobURL: false,
+  gzip: true
+};
+
+let workerPromise: Promise<Worker> | null = null;
+
+/** Replaces the tesseract.js worker options; takes effect for the next worker started. */
+export const configureOcr = (options: Partial<WorkerOptions>): void => {
+  workerOptions = options;
+};
+
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', 1, workerOptions).catch(err => {
+      workerPromise = null;
+      throw err;
+    });
+  }
+  return workerPromise;
+};
+
+export const terminateOcr = async (): Promise<void> => {
+  if (!workerPromise) return;
+  const worker = await workerPromise;
+  workerPromise = null;
+  await worker.terminate();
+};
+
+export const recognizeImage = async (
+  image: HTMLCanvasElement | File | Blob,
+  page: number
+): Promise<OcrPageResult> => {
+  const worker = await getWorker();
+  // tesseract.js under Node reads Buffers, not Blobs
+  const input = typeof document === 'undefined' && image instanceof Blob
+    ? Buffer.from(await image.arrayBuffer())
+    : image;
+  const { data } = await worker.recognize(input, {}, { blocks: true, text: true });
+
+  const kept: string[] = [];
+  const lowConfidence: OcrRegion[] = [];
+  for (const block of data.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const text = line.text.trim();
+        if (!text) continue;
+        if (line.confidence < OCR_CONFIDENCE_THRESHOLD) {
+          lowConfidence.push({ page, text, confidence: Math.round(line.confidence), bbox: line.bbox });
+        } else {
+          kept.push(text);
+        }
+      }
+      kept.push(''); // Paragraph break
+    }
+  }
+
+  return {
+    page,
+    text: kept.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    confidence: data.confidence,
+    lowConfidence
+  };
+};
+
+export const buildOcrReport = (results: OcrPageResult[]): OcrReport => ({
+  pages: results.map(r => r.page),
+  meanConfidence: results.length > 0
+    ? Math.round(results.reduce((sum, r) => sum + r.confidence, 0) / results.length)
+    : 0,
+  confidenceThreshold: OCR_CONFIDENCE_THRESHOLD,
+  lowConfidenceRegions: results.flatMap(r => r.lowConfidence)
+});
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { layoutToText, PdfTextItem, reconstructPage } from "./pdfLayout";
+
+const PAGE_WIDTH = 600;
+
+const run = (str: string, x: number, y: number, width: number, fontSize = 10): PdfTextItem => ({
+  str,
+  transform: [fontSize, 0, 0, fontSize, x, y],
+  width,
+  height: fontSize
+});
+
+// Left column at x 40-240, right column at x 320-540, 14pt line spacing
+const column = (prefix: string, x: number, count: number, top = 680) =>
+  Array.from({ length: count }, (_, i) => run(`${prefix} line ${i + 1}`, x, top - i * 14, 180));
+
+test("two columns are read one after the other", () => {
+  const page = reconstructPage([...column("Left", 40, 8), ...column("Right", 320, 8)], PAGE_WIDTH, 1);
+  assert.equal(page.columns, 2);
+  const lines = layoutToText([page]).split("\n");
+  assert.ok(lines.indexOf("Left line 8") < lines.indexOf("Right line 1"));
+});
+
+test("a sparse two-column page with a full-width header keeps its columns", () => {
+  const header = [
+    run("JANE DOE", 240, 760, 120, 18),
+    run("jane@example.com | +1 555 0100 | Portland, OR", 150, 740, 300),
+    run("Product designer with eight years in healthcare software", 120, 720, 360)
+  ];
+  const page = reconstructPage([...header, ...column("Left", 40, 12), ...column("Right", 320, 12)], PAGE_WIDTH, 1);
+  assert.equal(page.columns, 2);
+  const text = layoutToText([page]);
+  assert.ok(text.startsWith("JANE DOE"));
+  assert.ok(text.indexOf("Left line 12") < text.indexOf("Right line 1"));
+});
+
+test("full-width body text stays one column", () => {
+  const lines = Array.from({ length: 20 }, (_, i) => run(`Body line ${i + 1} across the page`, 40, 700 - i * 14, 500));
+  assert.equal(reconstructPage(lines, PAGE_WIDTH, 1).columns, 1);
+});
+
+test("bullet glyphs become bullet blocks", () => {
+  const page = reconstructPage([
+    run("EXPERIENCE", 40, 700, 90),
+    run("• Built the billing service", 40, 680, 200),
+    run("• Led hiring for the team", 40, 666, 200)
+  ], PAGE_WIDTH, 1);
+  assert.deepEqual(page.blocks.map(block => block.kind), ["heading", "bullet", "bullet"]);
+  assert.equal(layoutToText([page]), "EXPERIENCE\n\n• Built the billing service\n• Led hiring for the team");
+});
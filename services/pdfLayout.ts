@@ -0,0 +1,220 @@
+import { LayoutBlock, LayoutPage } from "../types";
+
+/**
+ * PDF LAYOUT RECONSTRUCTION
+ *
+ * pdf.js hands back loose text runs with a transform matrix each. Joining
+ * them in stream order loses line breaks and bullets and interleaves the
+ * columns of two-column resumes. This module rebuilds reading order from the
+ * run positions instead:
+ * 1. Detect a vertical gutter and split the page into columns
+ * 2. Group runs into lines by baseline, order them left to right
+ * 3. Group lines into paragraphs by vertical gaps; detect bullets and headings
+ */
+
+export interface PdfTextItem {
+  str: string;
+  transform: number[]; // [a, b, c, d, e, f]; e/f are the x/y of the baseline origin
+  width: number;
+  height: number;
+}
+
+interface Run {
+  str: string;
+  x: number;
+  y: number;
+  right: number;
+  fontSize: number;
+}
+
+interface Line {
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+}
+
+// Glyphs used as list markers, including the Symbol-font bullet in the private use area.
+const BULLET_GLYPHS = /^[\s]*([•●▪■◦‣∙·○►▸-]|–|\*)\s*/;
+// A gutter must stay this empty (share of runs crossing it) to count as a column break.
+const GUTTER_TOLERANCE = 0.03;
+// ...but a few full-width runs (name, contact line, a header) may always cross
+// it, or they would hide the gutter on sparse pages.
+const MAX_SPANNING_RUNS = 3;
+const MIN_GUTTER_WIDTH = 12;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const toRuns = (items: PdfTextItem[]): Run[] =>
+  items
+    .filter(item => item.str.trim().length > 0)
+    .map(item => {
+      const [, , c, d, e, f] = item.transform;
+      const fontSize = Math.hypot(c, d) || item.height || 10;
+      return { str: item.str, x: e, y: f, right: e + item.width, fontSize };
+    });
+
+/**
+ * Looks for the widest empty vertical band in the middle of the page. Returns
+ * its center x, or null for single-column pages.
+ */
+const findGutter = (runs: Run[], pageWidth: number): number | null => {
+  if (runs.length < 10) return null;
+  let best: { x: number; width: number } | null = null;
+  let bandStart: number | null = null;
+  const step = 2;
+  const allowedCrossings = Math.max(MAX_SPANNING_RUNS, runs.length * GUTTER_TOLERANCE);
+
+  for (let x = pageWidth * 0.2; x <= pageWidth * 0.8; x += step) {
+    const crossing = runs.filter(r => r.x < x && r.right > x).length;
+    const isEmpty = crossing <= allowedCrossings;
+    if (isEmpty && bandStart === null) bandStart = x;
+    if ((!isEmpty || x + step > pageWidth * 0.8) && bandStart !== null) {
+      const width = x - bandStart;
+      if (!best || width > best.width) best = { x: bandStart + width / 2, width };
+      bandStart = null;
+    }
+  }
+  if (!best || best.width < MIN_GUTTER_WIDTH) return null;
+
+  // Both sides need real content, otherwise it is just a wide margin
+  const left = runs.filter(r => r.right <= best!.x).length;
+  const right = runs.filter(r => r.x >= best!.x).length;
+  return left >= runs.length * 0.15 && right >= runs.length * 0.15 ? best.x : null;
+};
+
+const buildLines = (runs: Run[]): Line[] => {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Run[][] = [];
+  for (const run of sorted) {
+    const current = lines[lines.length - 1];
+    if (current && Math.abs(current[0].y - run.y) <= Math.max(current[0].fontSize, run.fontSize) * 0.5) {
+      current.push(run);
+    } else {
+      lines.push([run]);
+    }
+  }
+
+  return lines.map(lineRuns => {
+    lineRuns.sort((a, b) => a.x - b.x);
+    let text = '';
+    let lastRight: number | null = null;
+    for (const run of lineRuns) {
+      const gap = lastRight === null ? 0 : run.x - lastRight;
+      const needsSpace = lastRight !== null && gap > run.fontSize * 0.15 && !/\s$/.test(text) && !/^\s/.test(run.str);
+      text += (needsSpace ? ' ' : '') + run.str;
+      lastRight = run.right;
+    }
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      x: lineRuns[0].x,
+      y: lineRuns[0].y,
+      fontSize: median(lineRuns.map(r => r.fontSize))
+    };
+  });
+};
+
+const buildBlocks = (lines: Line[], bodyFontSize: number): LayoutBlock[] => {
+  const spacings = lines.slice(1).map((line, i) => lines[i].y - line.y).filter(s => s > 0);
+  const lineSpacing = median(spacings) || bodyFontSize * 1.2;
+  const blocks: LayoutBlock[] = [];
+  let previous: Line | null = null;
+  let blockX = 0;
+
+  for (const line of lines) {
+    const bullet = line.text.match(BULLET_GLYPHS);
+    const isBullet = !!bullet && line.text.length > bullet[0].length;
+    const isHeading = !isBullet && line.text.length <= 40 && (
+      line.fontSize > bodyFontSize * 1.15 ||
+      (line.text === line.text.toUpperCase() && /[A-Z]{3}/.test(line.text))
+    );
+    const gap = previous ? previous.y - line.y : 0;
+    const newParagraph = !previous || gap > lineSpacing * 1.5;
+    const current = blocks[blocks.length - 1];
+    const text = isBullet ? line.text.slice(bullet![0].length) : line.text;
+
+    if (isHeading) {
+      blocks.push({ kind: 'heading', lines: [text] });
+      blockX = line.x;
+    } else if (isBullet) {
+      blocks.push({ kind: 'bullet', lines: [text] });
+      blockX = line.x;
+    } else if (
+      !newParagraph && current && current.kind !== 'heading' &&
+      // Wrapped bullet text is indented past the bullet glyph
+      (current.kind === 'paragraph' || line.x > blockX + 2)
+    ) {
+      current.lines.push(text);
+    } else {
+      blocks.push({ kind: 'paragraph', lines: [text] });
+      blockX = line.x;
+    }
+    previous = line;
+  }
+  return blocks;
+};
+
+export const reconstructPage = (items: PdfTextItem[], pageWidth: number, pageNumber: number): LayoutPage => {
+  const runs = toRuns(items);
+  const bodyFontSize = median(runs.map(r => r.fontSize)) || 10;
+  const gutter = findGutter(runs, pageWidth);
+
+  if (gutter === null) {
+    return { pageNumber, source: 'text', columns: 1, blocks: buildBlocks(buildLines(runs), bodyFontSize) };
+  }
+
+  // Runs spanning the gutter (names, full-width headers) are read first when
+  // above the columns and last when below them.
+  const spanning = runs.filter(r => r.x < gutter && r.right > gutter);
+  const left = runs.filter(r => r.right <= gutter);
+  const right = runs.filter(r => r.x >= gutter);
+  const columnTop = Math.max(...[...left, ...right].map(r => r.y));
+
+  const blocks = [
+    ...buildBlocks(buildLines(spanning.filter(r => r.y > columnTop)), bodyFontSize),
+    ...buildBlocks(buildLines(left), bodyFontSize),
+    ...buildBlocks(buildLines(right), bodyFontSize),
+    ...buildBlocks(buildLines(spanning.filter(r => r.y <= columnTop)), bodyFontSize)
+  ];
+  return { pageNumber, source: 'text', columns: 2, blocks };
+};
+
+/** Wraps plain recognized text (e.g. from OCR) as a page of paragraphs. */
+export const pageFromPlainText = (text: string, pageNumber: number): LayoutPage => ({
+  pageNumber,
+  source: 'ocr',
+  columns: 1,
+  blocks: text
+    .split(/\n\s*\n/)
+    .map(chunk => chunk.split('\n').map(l => l.trim()).filter(Boolean))
+    .filter(lines => lines.length > 0)
+    .map(lines => {
+      const bullet = lines[0].match(BULLET_GLYPHS);
+      return bullet
+        ? { kind: 'bullet' as const, lines: [lines[0].slice(bullet[0].length), ...lines.slice(1)] }
+        : { kind: 'paragraph' as const, lines };
+    })
+});
+
+/**
+ * Serializes blocks back into text: one line per visual line, bullets as
+ * "• ", and a blank line between paragraphs and around headings.
+ */
+export const layoutToText = (pages: LayoutPage[]): string =>
+  pages
+    .map(page =>
+      page.blocks
+        .map(block => (block.kind === 'bullet' ? `• ${block.lines.join('\n  ')}` : block.lines.join('\n')))
+        .reduce((text, blockText, idx) => {
+          if (idx === 0) return blockText;
+          const block = page.blocks[idx];
+          const prev = page.blocks[idx - 1];
+          const tight = block.kind === 'bullet' && prev.kind === 'bullet';
+          return text + (tight ? '\n' : '\n\n') + blockText;
+        }, '')
+    )
+    .join('\n\n');
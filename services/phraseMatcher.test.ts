@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { LexiconEntry } from "../types";
+import { compileLexicon, findPhrases, stem } from "./phraseMatcher";
+
+const entry = (phrase: string): LexiconEntry => ({ phrase, category: 'ai-cliche', weight: 1 });
+
+test("inflections of a word share a stem", () => {
+  const groups = [
+    ['leverage', 'leveraged', 'leveraging', 'leverages'],
+    ['utilize', 'utilized', 'utilizing'],
+    ['plan', 'planned', 'planning', 'plans'],
+    ['company', 'companies'],
+    ['process', 'processes'],
+    ['box', 'boxes'],
+    ['stop', 'stopped']
+  ];
+  groups.forEach(words => assert.equal(new Set(words.map(stem)).size, 1, words.join(', ')));
+});
+
+test("short words and -ss endings are left alone", () => {
+  assert.equal(stem("its"), "its");
+  assert.equal(stem("was"), "was");
+  assert.equal(stem("business"), "business");
+});
+
+test("possessives are dropped and a final double l is kept", () => {
+  assert.equal(stem("Team's"), "team");
+  assert.equal(stem("skills"), "skill");
+});
+
+test("phrases match across inflections and hyphens, with offsets into the text", () => {
+  const lexicon = compileLexicon([entry("leverage synergies"), entry("results-driven")]);
+  const text = "A results driven lead, leveraging synergy daily.";
+  const matches = findPhrases(text, lexicon);
+  assert.deepEqual(matches.map(m => m.text), ["results driven", "leveraging synergy"]);
+  matches.forEach(m => assert.equal(text.slice(m.start, m.end), m.text));
+});
+
+test("the longest phrase starting at a word wins", () => {
+  const lexicon = compileLexicon([entry("proven"), entry("proven track record")]);
+  const matches = findPhrases("A proven track record of delivery; proven wins.", lexicon);
+  assert.deepEqual(matches.map(m => m.entry.phrase), ["proven track record", "proven"]);
+});
+
+test("a later duplicate entry replaces the earlier one", () => {
+  const lexicon = compileLexicon([entry("synergy"), { phrase: "synergies", category: 'corporate-filler', weight: 2 }]);
+  const [match] = findPhrases("Created synergy.", lexicon);
+  assert.equal(match.entry.category, 'corporate-filler');
+});
@@ -0,0 +1,96 @@
+import { LexiconEntry, TextSpan } from "../types";
+import { findTokens } from "./tokenizer";
+
+/**
+ * PHRASE MATCHER
+ *
+ * Finds lexicon phrases in running text. Both sides are reduced to sequences
+ * of stems, so "leverage", "leveraged" and "leveraging" match one entry, and
+ * hyphens count as word breaks, so "results-driven" also matches
+ * "results driven". The longest phrase starting at a word wins.
+ */
+
+export interface PhraseMatch extends TextSpan {
+  entry: LexiconEntry;
+  text: string; // Matched text as it appears in the input
+}
+
+interface Token extends TextSpan {
+  stem: string;
+}
+
+/**
+ * Light suffix-stripping stemmer. Deliberately conservative: it only needs to
+ * collapse the inflections that show up in resume bullets.
+ */
+export const stem = (word: string): string => {
+  let w = word.toLowerCase().replace(/['’]s$/, '');
+  if (w.length <= 3) return w;
+
+  if (w.endsWith('ies') && w.length > 4) w = w.slice(0, -3) + 'y';
+  else if (w.endsWith('ing') && w.length > 5) w = w.slice(0, -3);
+  else if (w.endsWith('ed') && w.length > 4) w = w.slice(0, -2);
+  else if (w.endsWith('ly') && w.length > 5) w = w.slice(0, -2);
+  else if (w.endsWith('es') && w.length > 4 && /(ss|x|ch|sh)es$/.test(w)) w = w.slice(0, -2);
+  else if (w.endsWith('s') && !w.endsWith('ss') && w.length > 3) w = w.slice(0, -1);
+
+  // "leverag(e)", "utiliz(e)": drop a trailing e so base and inflected forms meet
+  if (w.endsWith('e') && w.length > 3) w = w.slice(0, -1);
+  // "planned" -> "plann" -> "plan"
+  if (/([^aeiouls])\1$/.test(w)) w = w.slice(0, -1);
+  return w;
+};
+
+const tokenize = (text: string): Token[] =>
+  findTokens(text).map(({ start, end, text: word }) => ({ start, end, stem: stem(word) }));
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  entry?: LexiconEntry;
+}
+
+export interface CompiledLexicon {
+  root: TrieNode;
+}
+
+export const compileLexicon = (entries: LexiconEntry[]): CompiledLexicon => {
+  const root: TrieNode = { children: new Map() };
+  for (const entry of entries) {
+    const stems = tokenize(entry.phrase).map(t => t.stem);
+    if (stems.length === 0) continue;
+    let node = root;
+    for (const s of stems) {
+      if (!node.children.has(s)) node.children.set(s, { children: new Map() });
+      node = node.children.get(s)!;
+    }
+    // Later duplicates win, matching how an edited list reads top to bottom
+    node.entry = entry;
+  }
+  return { root };
+};
+
+export const findPhrases = (text: string, lexicon: CompiledLexicon): PhraseMatch[] => {
+  const tokens = tokenize(text);
+  const matches: PhraseMatch[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    let node: TrieNode | undefined = lexicon.root;
+    let best: { entry: LexiconEntry; endIdx: number } | null = null;
+
+    for (let j = i; j < tokens.length && node; j++) {
+      node = node.children.get(tokens[j].stem);
+      if (node?.entry) best = { entry: node.entry, endIdx: j };
+    }
+
+    if (best) {
+      const start = tokens[i].start;
+      const end = tokens[best.endIdx].end;
+      matches.push({ start, end, entry: best.entry, text: text.slice(start, end) });
+      i = best.endIdx + 1;
+    } else {
+      i++;
+    }
+  }
+  return matches;
+};
@@ -0,0 +1,216 @@
+import { AnalysisResult, BatchItem } from "../types";
+import { isUncalibrated } from "./calibration";
+import { isInconclusive } from "./uncertainty";
+
+/**
+ * REPORT EXPORT
+ *
+ * Turns analysis results into shareable files entirely in the browser:
+ * - JSON: full result plus source metadata, versioned by REPORT_SCHEMA_VERSION
+ *   (documented in docs/report-schema.md)
+ * - CSV: one row per resume, for batches
+ * - PDF: a self-contained printable report handed to the browser's
+ *   "Save as PDF" print dialog (no network requests, styles are inlined)
+ */
+
+export const REPORT_SCHEMA_VERSION = '1.0';
+
+export interface ReportSource {
+  fileName?: string;
+  text: string;
+}
+
+export interface JsonReport {
+  schemaVersion: string;
+  generatedAt: string; // ISO 8601
+  source: { fileName: string | null; contentHash: string; characterCount: number; text: string };
+  result: AnalysisResult;
+}
+
+export const buildJsonReport = (result: AnalysisResult, source: ReportSource): JsonReport => ({
+  schemaVersion: REPORT_SCHEMA_VERSION,
+  generatedAt: new Date().toISOString(),
+  source: {
+    fileName: source.fileName ?? null,
+    contentHash: result.contentHash,
+    characterCount: source.text.length,
+    text: source.text
+  },
+  result
+});
+
+export const buildBatchJsonReport = (items: BatchItem[]) => ({
+  schemaVersion: REPORT_SCHEMA_VERSION,
+  generatedAt: new Date().toISOString(),
+  reports: items
+    .filter(item => item.result)
+    .map(item => buildJsonReport(item.result!, { fileName: item.fileName, text: item.text ?? '' }))
+});
+
+// New columns go at the end so existing ones keep their position
+export const CSV_COLUMNS = [
+  'file_name', 'status', 'content_hash', 'analyzer_version', 'is_ai_generated',
+  'ai_probability', 'human_probability', 'perplexity_score', 'burstiness_score',
+  'vocabulary_richness', 'sentence_variety', 'flags', 'error',
+  'language', 'ai_probability_lower', 'ai_probability_upper', 'inconclusive',
+  'specificity', 'job_keyword_coverage', 'job_paraphrases', 'shared_with', 'similarity_cluster',
+  'calibration'
+];
+
+// Spreadsheets run cells starting with these as formulas (CSV injection)
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote fields containing separators, quotes or line breaks. File
+// names and flags come from uploads, so would-be formulas get a leading quote.
+const csvField = (value: unknown): string => {
+  const raw = value === undefined || value === null ? '' : String(value);
+  const str = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const buildCsv = (items: BatchItem[]): string => {
+  const rows = items.map(item => {
+    const r = item.result;
+    return [
+      item.fileName,
+      item.status,
+      r?.contentHash,
+      r?.analyzerVersion,
+      r?.isAiGenerated,
+      r?.aiProbability,
+      r?.humanProbability,
+      r?.linguisticAnalysis.perplexityScore,
+      r?.linguisticAnalysis.burstinessScore,
+      r?.linguisticAnalysis.vocabularyRichness,
+      r?.linguisticAnalysis.sentenceVariety,
+      r?.flags.join(' | '),
+      item.error,
+      r?.language?.code,
+      r?.interval?.lower,
+      r?.interval?.upper,
+      r?.inconclusive,
+      r?.specificity?.score,
+      r?.jobMatch?.keywordCoverage,
+      r?.jobMatch?.paraphrases.length,
+      r?.similarity?.sharedWith,
+      r?.similarity?.cluster,
+      r?.calibration
+    ].map(csvField).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** "resume.pdf" -> "resume-report"; falls back to the content hash. */
+export const reportBaseName = (result: AnalysisResult, fileName?: string) =>
+  `${(fileName ?? '').replace(/\.[^.]+$/, '') || `resume-${result.contentHash.slice(7, 15)}`}-report`;
+
+const escapeHtml = (str: string) =>
+  str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const heatColor = (score: number) =>
+  score >= 80 ? '#fecaca' : score >= 65 ? '#fed7aa' : score >= 50 ? '#fef3c7' : 'transparent';
+
+const renderHighlightedText = (result: AnalysisResult, text: string): string => {
+  let html = '';
+  let cursor = 0;
+  for (const sentence of result.sentenceScores) {
+    if (sentence.start > cursor) html += escapeHtml(text.slice(cursor, sentence.start));
+    let inner = sentence.start;
+    let body = '';
+    for (const marker of result.highlights) {
+      if (marker.start < inner || marker.end > sentence.end) continue;
+      body += escapeHtml(text.slice(inner, marker.start));
+      body += `<mark>${escapeHtml(text.slice(marker.start, marker.end))}</mark>`;
+      inner = marker.end;
+    }
+    body += escapeHtml(text.slice(inner, sentence.end));
+    html += `<span style="background:${heatColor(sentence.score)}">${body}</span>`;
+    cursor = sentence.end;
+  }
+  return html + escapeHtml(text.slice(cursor));
+};
+
+export const buildPrintableReport = (
+  result: AnalysisResult,
+  source: ReportSource,
+  chartSvgs: string[] = []
+): string => {
+  const verdictColor = isInconclusive(result) ? '#64748b' : result.isAiGenerated ? '#dc2626' : '#16a34a';
+  const metrics = [
+    ['Perplexity', result.linguisticAnalysis.perplexityScore],
+    ['Burstiness', result.linguisticAnalysis.burstinessScore],
+    ['Vocabulary', result.linguisticAnalysis.vocabularyRichness],
+    ['Structure', result.linguisticAnalysis.sentenceVariety]
+  ];
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="UTF-8"><title>${escapeHtml(reportBaseName(result, source.fileName))}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #0f172a; margin: 32px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; } h2 { font-size: 14px; margin: 24px 0 8px; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; }
+  .verdict { font-size: 18px; font-weight: 700; color: ${verdictColor}; }
+  .meta { color: #64748b; font-family: monospace; font-size: 10px; }
+  table { border-collapse: collapse; width: 100%; } td, th { border: 1px solid #e2e8f0; padding: 4px 8px; text-align: left; }
+  .charts { display: flex; gap: 16px; } .charts svg { max-width: 48%; height: auto; }
+  .text { white-space: pre-wrap; line-height: 1.7; }
+  mark { background: none; color: #b91c1c; font-weight: 700; text-decoration: underline; }
+  @page { margin: 16mm; }
+</style></head><body>
+  <h1>ResumeGuard AI — Analysis Report</h1>
+  <div class="meta">${escapeHtml(source.fileName ?? 'Pasted text')} · ${escapeHtml(result.contentHash)} · analyzer v${escapeHtml(result.analyzerVersion)} · ${new Date().toLocaleString()}</div>
+  <h2>Verdict</h2>
+  <div class="verdict">${escapeHtml(result.verdictHeadline)} — ${result.aiProbability}% AI probability</div>
+  ${isUncalibrated(result) ? `<div class="meta">Uncalibrated: the AI probability is the raw ensemble score, not an observed rate</div>` : ''}
+  ${result.interval ? `<div class="meta">${Math.round(result.interval.level * 100)}% interval: ${result.interval.lower}–${result.interval.upper}% (bootstrap over ${result.interval.sentenceCount} sentences)</div>` : ''}
+  <p>${escapeHtml(result.summary)}</p>
+  <h2>Metrics</h2>
+  <table><tr>${metrics.map(([name]) => `<th>${name}</th>`).join('')}</tr><tr>${metrics.map(([, v]) => `<td>${v}</td>`).join('')}</tr></table>
+  <h2>Detector Contributions</h2>
+  <table><tr><th>Detector</th><th>Score</th><th>Confidence</th><th>Weight</th><th>Contribution</th></tr>
+  ${result.detectors.map(d => `<tr><td>${escapeHtml(d.name)}</td><td>${d.score.toFixed(1)}</td><td>${Math.round(d.confidence * 100)}%</td><td>${d.weight}</td><td>${d.contribution.toFixed(1)}</td></tr>`).join('')}
+  </table>
+  ${chartSvgs.length > 0 ? `<h2>Charts</h2><div class="charts">${chartSvgs.join('')}</div>` : ''}
+  <h2>Flags</h2>
+  <ul>${result.flags.map(f => `<li>${escapeHtml(f)}</li>`).join('')}</ul>
+  <h2>Flagged Text</h2>
+  <div class="text">${renderHighlightedText(result, source.text)}</div>
+</body></html>`;
+};
+
+/**
+ * Renders the report into an off-screen iframe and opens the print dialog,
+ * where the user picks "Save as PDF".
+ */
+export const printReport = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const doc = frame.contentDocument!;
+  doc.open();
+  doc.write(html);
+  doc.close();
+
+  frame.contentWindow!.focus();
+  frame.contentWindow!.print();
+  // Give the print dialog time to snapshot the document before cleanup
+  setTimeout(() => frame.remove(), 1000);
+};
+
+/** Serializes every chart SVG under the given element for embedding in a report. */
+export const collectChartSvgs = (container: HTMLElement | null): string[] =>
+  container
+    ? Array.from(container.querySelectorAll('svg.recharts-surface')).map(svg => new XMLSerializer().serializeToString(svg))
+    : [];
@@ -0,0 +1,107 @@
+import { AnalysisResult, MetricDelta, ResumeComparison, SentenceDiffRow, SentenceScore } from "../types";
+import { tokenizeWords } from "./tokenizer";
+
+/**
+ * RESUME COMPARISON
+ *
+ * Lines up the sentences of two analyzed versions of a resume and reports
+ * how the scores moved. Used to review resubmissions and to spot an AI draft
+ * that was "humanized" after the fact.
+ *
+ * Sentences are aligned with an order-preserving dynamic program that
+ * maximizes total word overlap, so a reworded sentence pairs with its
+ * original instead of showing up as one removal plus one addition.
+ */
+
+// Below this word overlap two sentences are treated as unrelated.
+const MIN_PAIR_SIMILARITY = 0.5;
+
+const METRICS: { key: string; label: string; value: (r: AnalysisResult) => number }[] = [
+  { key: 'aiProbability', label: 'AI Probability', value: r => r.aiProbability },
+  { key: 'perplexityScore', label: 'Perplexity', value: r => r.linguisticAnalysis.perplexityScore },
+  { key: 'burstinessScore', label: 'Burstiness', value: r => r.linguisticAnalysis.burstinessScore },
+  { key: 'vocabularyRichness', label: 'Vocab Richness', value: r => r.linguisticAnalysis.vocabularyRichness },
+  { key: 'sentenceVariety', label: 'Sentence Variety', value: r => r.linguisticAnalysis.sentenceVariety }
+];
+
+
+/** Dice coefficient over the two sentences' word sets. */
+export const sentenceSimilarity = (a: string, b: string): number => {
+  const wordsA = new Set(tokenizeWords(a));
+  const wordsB = new Set(tokenizeWords(b));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  wordsA.forEach(word => { if (wordsB.has(word)) shared++; });
+  return (2 * shared) / (wordsA.size + wordsB.size);
+};
+
+// Scored sentences carry the (possibly masked) analysis text; show the original instead.
+const withOriginalText = (text: string, sentences: SentenceScore[]): SentenceScore[] =>
+  sentences.map(s => ({ ...s, text: text.slice(s.start, s.end).replace(/\s+/g, ' ').trim() || s.text }));
+
+export const diffSentences = (
+  beforeText: string,
+  before: SentenceScore[],
+  afterText: string,
+  after: SentenceScore[]
+): SentenceDiffRow[] => {
+  const a = withOriginalText(beforeText, before);
+  const b = withOriginalText(afterText, after);
+  const normalize = (s: SentenceScore) => tokenizeWords(s.text).join(' ');
+  const pairScore = (i: number, j: number) => {
+    if (normalize(a[i]) === normalize(b[j])) return 1;
+    const similarity = sentenceSimilarity(a[i].text, b[j].text);
+    return similarity >= MIN_PAIR_SIMILARITY ? similarity : 0;
+  };
+
+  // best[i][j] = highest total similarity aligning a[i..] with b[j..]
+  const best = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  const scores = a.map((_, i) => b.map((_, j) => pairScore(i, j)));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      const paired = scores[i][j] > 0 ? scores[i][j] + best[i + 1][j + 1] : 0;
+      best[i][j] = Math.max(paired, best[i + 1][j], best[i][j + 1]);
+    }
+  }
+
+  const rows: SentenceDiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const similarity = scores[i][j];
+    if (similarity > 0 && best[i][j] === similarity + best[i + 1][j + 1]) {
+      rows.push({ kind: similarity === 1 ? 'unchanged' : 'modified', before: a[i], after: b[j], similarity });
+      i++;
+      j++;
+    } else if (best[i + 1][j] >= best[i][j + 1]) {
+      rows.push({ kind: 'removed', before: a[i++], after: null, similarity: 0 });
+    } else {
+      rows.push({ kind: 'added', before: null, after: b[j++], similarity: 0 });
+    }
+  }
+  while (i < a.length) rows.push({ kind: 'removed', before: a[i++], after: null, similarity: 0 });
+  while (j < b.length) rows.push({ kind: 'added', before: null, after: b[j++], similarity: 0 });
+  return rows;
+};
+
+export const compareResults = (
+  before: { text: string; result: AnalysisResult },
+  after: { text: string; result: AnalysisResult }
+): ResumeComparison => {
+  const metrics: MetricDelta[] = METRICS.map(({ key, label, value }) => {
+    const from = value(before.result);
+    const to = value(after.result);
+    return { key, label, before: from, after: to, delta: to - from };
+  });
+
+  const beforeFlags = new Set(before.result.flags);
+  const afterFlags = new Set(after.result.flags);
+
+  return {
+    sentences: diffSentences(before.text, before.result.sentenceScores, after.text, after.result.sentenceScores),
+    metrics,
+    flagsAdded: after.result.flags.filter(f => !beforeFlags.has(f)),
+    flagsRemoved: before.result.flags.filter(f => !afterFlags.has(f)),
+    flagsKept: after.result.flags.filter(f => beforeFlags.has(f))
+  };
+};
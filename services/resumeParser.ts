@@ -0,0 +1,164 @@
+import { ResumeSection, ResumeSectionKind, TextSpan } from "../types";
+import { BULLET_PATTERN, countWords } from "./tokenizer";
+
+/**
+ * RESUME PARSER
+ *
+ * Splits a resume into its sections (Summary, Experience, Education, Skills,
+ * Projects...) and finds bullet lines. Contact blocks, skill lists and
+ * education entries are not prose: they are lists of names and dates, and
+ * they wreck sentence-length and vocabulary statistics, so they are masked
+ * out before the linguistic metrics run.
+ */
+
+const HEADINGS: { kind: ResumeSectionKind; pattern: RegExp }[] = [
+  { kind: 'summary', pattern: /^(professional\s+)?(summary|profile|about(\s+me)?|objective|overview)$/ },
+  { kind: 'experience', pattern: /^((professional|work|relevant)\s+)?(experience|employment(\s+history)?|work\s+history|career\s+history)$/ },
+  { kind: 'education', pattern: /^(education|academic\s+background|qualifications)$/ },
+  { kind: 'skills', pattern: /^((technical|core|key)\s+)?(skills|competencies|technologies|tech\s+stack|tools)(\s*(&|and)\s*\w+)?$/ },
+  { kind: 'projects', pattern: /^((selected|personal|key)\s+)?projects$/ },
+  { kind: 'other', pattern: /^(certifications?|awards?|publications?|languages|interests|volunteer(ing)?(\s+experience)?|references|achievements|honou?rs)$/ }
+];
+
+const PROSE_KINDS: ResumeSectionKind[] = ['summary', 'experience', 'projects', 'other', 'body'];
+
+const CONTACT_PATTERN = /[\w.+-]+@[\w-]+\.[\w.]+|(\+?\d[\d\s().-]{7,}\d)|https?:\/\/|linkedin\.com|github\.com/i;
+const INLINE_HEADING_PATTERN = /^\s*([^:]{2,40}):\s*\S/;
+const DATE_RANGE_PATTERN = /\b(19|20)\d{2}\b.*(\b(19|20)\d{2}\b|present|current|now)/i;
+// Unpunctuated lines shorter than this in prose sections are titles or employers.
+const MIN_PROSE_WORDS = 6;
+
+interface Line extends TextSpan {
+  content: string;
+}
+
+const splitLines = (text: string): Line[] => {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const raw of text.split('\n')) {
+    lines.push({ start, end: start + raw.length, content: raw });
+    start += raw.length + 1;
+  }
+  return lines;
+};
+
+/** Recognizes "Skills: TypeScript, React" style lines; returns the heading part. */
+const inlineHeading = (line: string): { kind: ResumeSectionKind; heading: string } | null => {
+  const match = line.match(INLINE_HEADING_PATTERN);
+  const kind = match ? classifyHeading(match[1]) : null;
+  return match && kind ? { kind, heading: match[1].trim() } : null;
+};
+
+export const classifyHeading = (line: string): ResumeSectionKind | null => {
+  const normalized = line.trim().replace(/[:\s]+$/, '').replace(/\s+/g, ' ').toLowerCase();
+  if (!normalized || normalized.split(' ').length > 4) return null;
+  return HEADINGS.find(h => h.pattern.test(normalized))?.kind ?? null;
+};
+
+export const isContactLine = (line: string) => CONTACT_PATTERN.test(line);
+
+export const parseResume = (text: string): ResumeSection[] => {
+  const lines = splitLines(text);
+  const sections: ResumeSection[] = [];
+  let current: ResumeSection | null = null;
+
+  const open = (kind: ResumeSectionKind, heading: string | null, start: number) => {
+    current = { kind, heading, start, end: start, isProse: PROSE_KINDS.includes(kind), bullets: [] };
+    sections.push(current);
+  };
+
+  const hasHeadings = lines.some(l => classifyHeading(l.content) || inlineHeading(l.content));
+
+  for (const line of lines) {
+    const headingKind = classifyHeading(line.content);
+    const inline = headingKind ? null : inlineHeading(line.content);
+    if (headingKind) {
+      open(headingKind, line.content.trim(), line.start);
+    } else if (inline) {
+      open(inline.kind, inline.heading, line.start);
+    } else if (!current) {
+      // Before the first heading sits the name/contact block
+      open(hasHeadings ? 'contact' : 'body', null, line.start);
+    }
+    const section = current!;
+    section.end = line.end;
+    if (!headingKind && BULLET_PATTERN.test(line.content)) {
+      section.bullets.push({ start: line.start, end: line.end });
+    }
+  }
+
+  return sections.filter(s => text.slice(s.start, s.end).trim().length > 0);
+};
+
+/**
+ * Returns a copy of the text, same length and offsets, where everything that
+ * is not prose is blanked out. Bullet lines without terminal punctuation get
+ * a '.' in place of their line break so each bullet reads as one sentence.
+ */
+export const maskNonProse = (text: string, sections: ResumeSection[]): string => {
+  const chars = text.split('');
+  const blank = (start: number, end: number) => {
+    for (let i = start; i < end; i++) if (chars[i] !== '\n') chars[i] = ' ';
+  };
+
+  let covered = 0;
+  for (const section of sections) {
+    blank(covered, section.start);
+    covered = section.end;
+
+    if (!section.isProse) {
+      blank(section.start, section.end);
+      continue;
+    }
+
+    const lines = splitLines(text.slice(section.start, section.end));
+    // Whether the previous kept line closed its sentence; short lines after
+    // a closed sentence are titles or dates, short lines mid-sentence are wraps.
+    let previousEnded = true;
+
+    lines.forEach((line, idx) => {
+      const start = section.start + line.start;
+      const end = section.start + line.end;
+      const content = line.content.trim();
+      const isHeading = section.heading !== null && idx === 0;
+      const isBullet = BULLET_PATTERN.test(line.content);
+      const words = countWords(content);
+
+      if (!content) {
+        previousEnded = true;
+        return;
+      }
+      if (isHeading && INLINE_HEADING_PATTERN.test(line.content)) {
+        // "Summary: text..." - drop the label, keep the prose after it
+        blank(start, start + line.content.indexOf(':') + 1);
+      } else if (
+        isHeading ||
+        isContactLine(content) ||
+        (DATE_RANGE_PATTERN.test(content) && words < MIN_PROSE_WORDS + 2) ||
+        (!isBullet && words < MIN_PROSE_WORDS && previousEnded && !/[.!?]$/.test(content))
+      ) {
+        blank(start, end);
+        previousEnded = true;
+        return;
+      }
+      if (isBullet) {
+        const marker = line.content.match(BULLET_PATTERN)![0];
+        blank(start, start + marker.length);
+      }
+
+      const next = lines[idx + 1]?.content.trim() ?? '';
+      const continues = /^[a-z(]/.test(next) && !BULLET_PATTERN.test(lines[idx + 1].content);
+      if (/[.!?]$/.test(content)) {
+        previousEnded = true;
+      } else if (!continues && end < chars.length) {
+        // Unpunctuated bullet or line: close it at the line break
+        chars[end] = '.';
+        previousEnded = true;
+      } else {
+        previousEnded = false;
+      }
+    });
+  }
+  blank(covered, text.length);
+  return chars.join('');
+};
@@ -0,0 +1,48 @@
+import { AnalysisContext, HighlightSpan, SentenceScore } from "../types";
+import { perplexityToScore } from "./languageModel";
+import { countWords } from "./tokenizer";
+
+// Points added to a sentence's score per marker phrase it contains.
+const MARKER_POINTS = 15;
+// Sentences within this many words of the document average read as uniform.
+const UNIFORM_LENGTH_WINDOW = 3;
+const UNIFORM_LENGTH_POINTS = 10;
+
+/**
+ * Scores each sentence on its own so reviewers can see where the AI-like
+ * signal is concentrated. The base is the sentence's perplexity under the
+ * bundled language model, nudged up by marker phrases and by lengths that
+ * sit right on the document average.
+ */
+export const scoreSentences = (context: AnalysisContext, highlights: HighlightSpan[]): SentenceScore[] => {
+  const lengths = context.sentences.map(s => countWords(s));
+  const avgLen = lengths.reduce((a, b) => a + b, 0) / (lengths.length || 1);
+  const { hasLanguageModel } = context.language.norms;
+
+  return context.sentenceSpans.map((span, i) => {
+    const perplexity = context.perplexity.sentences[i]?.perplexity ?? 0;
+    const reasons: string[] = [];
+    // Without a language model for the text's language, start every sentence neutral
+    let score = hasLanguageModel ? 100 - perplexityToScore(perplexity, context.perplexityReference) : 50;
+    if (hasLanguageModel && perplexity < context.perplexityReference.p50) reasons.push(`Predictable wording (perplexity ${perplexity.toFixed(1)})`);
+
+    const markers = highlights.filter(h => h.start >= span.start && h.end <= span.end);
+    if (markers.length > 0) {
+      score += markers.length * MARKER_POINTS;
+      reasons.push(`Contains ${markers.map(m => `"${m.label}"`).join(', ')}`);
+    }
+
+    if (lengths.length > 2 && Math.abs(lengths[i] - avgLen) <= UNIFORM_LENGTH_WINDOW) {
+      score += UNIFORM_LENGTH_POINTS;
+      reasons.push(`Length (${lengths[i]} words) matches the document average`);
+    }
+
+    return {
+      ...span,
+      text: context.sentences[i].trim(),
+      score: Math.round(Math.min(100, Math.max(0, score))),
+      perplexity,
+      reasons
+    };
+  });
+};
@@ -0,0 +1,26 @@
+/**
+ * SHARED HELPERS
+ *
+ * Small utilities used by several services:
+ * 1. storage - localStorage when there is one
+ * 2. round2 / sigmoid - number helpers for probabilities and log-odds
+ * 3. isRecord / isFiniteNumber - type guards for narrowing untrusted JSON
+ * 4. yieldToEventLoop - lets long work in a worker notice a 'cancel'
+ */
+
+// localStorage is missing under Node and in workers; callers fall back silently.
+export const storage = (): Storage | null =>
+  typeof localStorage !== 'undefined' ? localStorage : null;
+
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Gives queued messages (e.g. a worker 'cancel') a chance to run between stages.
+export const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AnalysisResult, SimilarityDocument } from "../types";
+import { compareWithPool, createSignature, findNearDuplicates, withSimilarity } from "./similarity";
+
+const SHARED = [
+  "Spearheaded a cross-functional initiative to modernize the legacy billing platform, reducing costs by 30%.",
+  "Leveraged data-driven insights to streamline onboarding workflows across four regional teams."
+];
+
+const doc = (id: string, sentences: string[], source: SimilarityDocument['source'] = 'current'): SimilarityDocument => {
+  const text = sentences.join(' ');
+  return { id, name: `${id}.pdf`, source, text, contentHash: `sha256:${text.length}-${id}` };
+};
+
+const alice = doc('alice', [
+  "Ran the night shift at a forty-bed ward for two years without a single missed handover.",
+  ...SHARED
+]);
+// Same template, different figure
+const bob = doc('bob', [
+  SHARED[0].replace('30%', '25%'),
+  SHARED[1],
+  "Wrote the Perl scripts that still print the county court's daily docket every morning."
+]);
+const carol = doc('carol', [
+  "Taught chemistry to year ten students and rebuilt the school's fume cupboard inventory by hand.",
+  "Coached the under-twelve football team to a regional final in my second season there."
+]);
+
+test("resumes sharing two sentences are near-duplicates in one cluster", () => {
+  const reports = findNearDuplicates([alice, bob, carol]);
+  const report = reports.get('alice')!;
+  assert.equal(report.sharedWith, 1);
+  assert.equal(report.cluster, 'Cluster 1');
+  assert.equal(report.comparedWith, 2);
+  assert.deepEqual(report.matches.map(m => [m.id, m.sharedSentences]), [['bob', 2]]);
+  assert.equal(reports.get('bob')!.cluster, 'Cluster 1');
+  assert.equal(reports.get('carol')!.sharedWith, 0);
+  assert.equal(reports.get('carol')!.cluster, undefined);
+});
+
+test("shared passages are offsets into the resume's own text", () => {
+  const { passages } = findNearDuplicates([alice, bob]).get('alice')!;
+  assert.deepEqual(passages.map(p => p.text), SHARED);
+  passages.forEach(p => assert.equal(alice.text.slice(p.start, p.end), p.text));
+  // Figures are not words, so "30%" and "25%" still match
+  assert.equal(passages[0].matches[0].text, SHARED[0].replace('30%', '25%'));
+});
+
+test("history entries with the text of a current resume are skipped", () => {
+  const report = findNearDuplicates([alice, { ...alice, id: 'alice-saved', source: 'history' }]).get('alice')!;
+  assert.equal(report.sharedWith, 0);
+  assert.equal(report.comparedWith, 0);
+});
+
+test("stored signatures give the same reports as the texts they came from", () => {
+  const history = [bob, carol].map(d => ({ ...d, source: 'history' as const }));
+  // Signatures pass through IndexedDB, which keeps plain data only
+  const stored = history.map(d => JSON.parse(JSON.stringify(createSignature(d))));
+  assert.deepEqual(findNearDuplicates([alice], stored), findNearDuplicates([alice, ...history]));
+});
+
+test("without IndexedDB the pool is the current and earlier resumes, and their signatures come back", async () => {
+  const { reports, signatures } = await compareWithPool([alice], [{ ...bob, source: 'history' }]);
+  assert.equal(reports.get('alice')!.sharedWith, 1);
+  assert.deepEqual([...signatures.keys()], ['alice']);
+  assert.deepEqual(signatures.get('alice'), createSignature(alice));
+});
+
+test("an aborted comparison rejects with the abort reason", async () => {
+  const controller = new AbortController();
+  controller.abort();
+  await assert.rejects(compareWithPool([alice], [], { signal: controller.signal }), { name: 'AbortError' });
+});
+
+test("the Shared with flag replaces the no-anomaly flag and earlier Shared with flags", () => {
+  const result = { flags: ["No significant AI anomalies detected"] } as AnalysisResult;
+  const shared = withSimilarity(result, findNearDuplicates([alice, bob]).get('alice')!);
+  assert.deepEqual(shared.flags, ["Shared with 1 other applicant"]);
+  const alone = withSimilarity(shared, findNearDuplicates([carol]).get('carol')!);
+  assert.deepEqual(alone.flags, ["No significant AI anomalies detected"]);
+});
@@ -0,0 +1,374 @@
+import {
+  AnalysisResult, AnalyzeOptions, BatchItem, SharedPassage, SimilarityComparison, SimilarityDocument, SimilarityMatch,
+  SimilarityReport, SimilaritySignature, SimilaritySource
+} from "../types";
+import { stem } from "./phraseMatcher";
+import { segmentSentences, tokenizeWords } from "./tokenizer";
+import { createSeededRandom } from "./reproducibility";
+import { getAnalysis, historyName, listAnalysisIds, listSignatures, saveSignatures } from "./historyStore";
+import { round2, yieldToEventLoop } from "./shared";
+
+/**
+ * CROSS-RESUME SIMILARITY
+ *
+ * Resumes generated from the same prompt share near-identical bullets. Every
+ * resume in the current upload or batch is compared with the others and with
+ * the saved history:
+ * 1. Shingling and MinHash: each text becomes the set of its 3-word
+ *    shingles, summarized by 64 MinHash values; the share of equal values
+ *    estimates the Jaccard similarity of two sets.
+ * 2. Locality-sensitive hashing: signatures are cut into bands, and only
+ *    resumes that collide in some band are compared, so the history can grow
+ *    without comparing every pair. Sentences get their own smaller
+ *    signatures, so two resumes that share a few bullets are compared even
+ *    when the rest differs.
+ * 3. Sentence fuzzy matching: within a candidate pair, sentences of six or
+ *    more words match when their word stems overlap by 60% (Jaccard).
+ *    Figures are not words, so "by 30%" and "by 25%" still match.
+ * 4. Two resumes are near-duplicates when their shingle similarity is 0.5 or
+ *    more or they share at least two sentences. Near-duplicates are grouped
+ *    into clusters (transitively), and each resume in the current upload
+ *    gets a SimilarityReport and a "Shared with N other applicants" flag.
+ *
+ * A history entry is skipped when its text is already in the comparison: the
+ * history keeps every re-analysis of a resume, and batch files are saved to
+ * it as they finish. Identical files within one batch do count.
+ *
+ * Steps 1 and 2 only depend on the text, so each resume's MinHash values and
+ * sentence stems are kept as a SimilaritySignature beside its history record
+ * and the history is never re-indexed. The comparison runs in the analysis
+ * worker (analysisWorkerClient.ts) with progress and cancellation.
+ */
+
+const SHINGLE_SIZE = 3;
+const DOCUMENT_HASHES = 64;
+const DOCUMENT_BANDS = 16; // 4 rows each: pairs near 0.5 similarity usually collide
+const SENTENCE_HASHES = 16;
+const SENTENCE_BANDS = 8; // 2 rows each: generous, every candidate is verified
+const MIN_SENTENCE_WORDS = 6;
+export const SENTENCE_SIMILARITY = 0.6;
+export const DOCUMENT_SIMILARITY = 0.5;
+export const MIN_SHARED_SENTENCES = 2;
+// Fixed so signatures, and therefore results, are the same on every run
+const HASH_SEED = 0x5eed;
+// Bump when anything above changes what a signature holds; stored ones are then rebuilt
+export const SIGNATURE_VERSION = 1;
+
+const NO_ANOMALY_FLAG = "No significant AI anomalies detected";
+const SHARED_FLAG_PREFIX = "Shared with ";
+
+// --- 1. Shingling and MinHash ---
+
+/** FNV-1a, 32 bits. */
+const hashString = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/** MurmurHash3 finalizer: spreads the bits of one 32-bit value. */
+const mix = (value: number): number => {
+  let h = value;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+const random = createSeededRandom(HASH_SEED);
+const HASH_SALTS = Array.from({ length: DOCUMENT_HASHES }, () => Math.floor(random() * 0x100000000));
+
+/** Minimum of each salted hash over a non-empty set. */
+const minHash = (items: Iterable<string>, hashes: number): number[] => {
+  const signature = new Array(hashes).fill(0xffffffff);
+  for (const item of items) {
+    const h = hashString(item);
+    for (let i = 0; i < hashes; i++) {
+      const value = mix(h ^ HASH_SALTS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+};
+
+const shingles = (words: string[]): Set<string> => {
+  if (words.length <= SHINGLE_SIZE) return new Set(words.length > 0 ? [words.join(' ')] : []);
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  return result;
+};
+
+/** Share of equal MinHash values: an estimate of the Jaccard similarity. */
+const estimateSimilarity = (a: number[], b: number[]): number =>
+  a.reduce((equal, value, i) => equal + (value === b[i] ? 1 : 0), 0) / a.length;
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  let shared = 0;
+  a.forEach(x => { if (b.has(x)) shared++; });
+  const union = a.size + b.size - shared;
+  return union > 0 ? shared / union : 0;
+};
+
+interface IndexedSentence {
+  start: number;
+  end: number;
+  text: string;
+  stems: Set<string>;
+  minHash: number[];
+}
+
+interface IndexedDocument {
+  id: string;
+  name: string;
+  source: SimilaritySource;
+  contentHash: string;
+  minHash: number[] | null; // null for a text without words
+  sentences: IndexedSentence[];
+}
+
+export const createSignature = ({ id, name, text, contentHash }: Omit<SimilarityDocument, 'source'>): SimilaritySignature => {
+  const sentences: SimilaritySignature['sentences'] = [];
+  segmentSentences(text).forEach(({ start, end }) => {
+    const sentence = text.slice(start, end);
+    const words = tokenizeWords(sentence);
+    if (words.length < MIN_SENTENCE_WORDS) return;
+    const stems = Array.from(new Set(words.map(stem)));
+    sentences.push({ start, end, text: sentence, stems, minHash: minHash(stems, SENTENCE_HASHES) });
+  });
+  const set = shingles(tokenizeWords(text));
+  return {
+    id,
+    name,
+    contentHash,
+    version: SIGNATURE_VERSION,
+    minHash: set.size > 0 ? minHash(set, DOCUMENT_HASHES) : null,
+    sentences
+  };
+};
+
+const indexSignature = (signature: SimilaritySignature, source: SimilaritySource): IndexedDocument => ({
+  id: signature.id,
+  name: signature.name,
+  source,
+  contentHash: signature.contentHash,
+  minHash: signature.minHash,
+  sentences: signature.sentences.map(sentence => ({ ...sentence, stems: new Set(sentence.stems) }))
+});
+
+// --- 2. Candidate pairs (LSH) ---
+
+const bandKeys = (signature: number[], bands: number): string[] => {
+  const rows = signature.length / bands;
+  return Array.from({ length: bands }, (_, b) => `${b}:${signature.slice(b * rows, (b + 1) * rows).join(',')}`);
+};
+
+/** Pairs "i:j" (i < j) that collide in a document or sentence band; at least one side is current. */
+const candidatePairs = (docs: IndexedDocument[]): Set<string> => {
+  const buckets = new Map<string, Set<number>>();
+  const add = (key: string, doc: number) => {
+    if (!buckets.has(key)) buckets.set(key, new Set());
+    buckets.get(key)!.add(doc);
+  };
+  docs.forEach((doc, i) => {
+    if (doc.minHash) bandKeys(doc.minHash, DOCUMENT_BANDS).forEach(key => add(`d${key}`, i));
+    doc.sentences.forEach(sentence => bandKeys(sentence.minHash, SENTENCE_BANDS).forEach(key => add(`s${key}`, i)));
+  });
+
+  const pairs = new Set<string>();
+  buckets.forEach(members => {
+    const list = Array.from(members).sort((a, b) => a - b);
+    for (let x = 0; x < list.length; x++) {
+      for (let y = x + 1; y < list.length; y++) {
+        const [i, j] = [list[x], list[y]];
+        if (docs[i].source === 'current' || docs[j].source === 'current') pairs.add(`${i}:${j}`);
+      }
+    }
+  });
+  return pairs;
+};
+
+// --- 3. Sentence matching and clustering ---
+
+interface PairMatch {
+  similarity: number;
+  // Sentence index in each document, with their similarity
+  sentencePairs: { a: number; b: number; similarity: number }[];
+}
+
+const comparePair = (a: IndexedDocument, b: IndexedDocument): PairMatch => {
+  const sentencePairs: PairMatch['sentencePairs'] = [];
+  a.sentences.forEach((sa, ia) => b.sentences.forEach((sb, ib) => {
+    const similarity = jaccard(sa.stems, sb.stems);
+    if (similarity >= SENTENCE_SIMILARITY) sentencePairs.push({ a: ia, b: ib, similarity });
+  }));
+  return { similarity: a.minHash && b.minHash ? estimateSimilarity(a.minHash, b.minHash) : 0, sentencePairs };
+};
+
+const isNearDuplicate = (match: PairMatch): boolean =>
+  match.similarity >= DOCUMENT_SIMILARITY || new Set(match.sentencePairs.map(p => p.a)).size >= MIN_SHARED_SENTENCES;
+
+const matchDocuments = (documents: IndexedDocument[]): Map<string, SimilarityReport> => {
+  const current = documents.filter(doc => doc.source === 'current');
+  const seen = new Set(current.map(doc => doc.contentHash));
+  const history = documents.filter(doc => {
+    if (doc.source === 'current' || seen.has(doc.contentHash)) return false;
+    seen.add(doc.contentHash);
+    return true;
+  });
+  const docs = [...current, ...history];
+
+  // Union-find over near-duplicate pairs
+  const parent = docs.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const matches = docs.map(() => [] as { other: number; match: PairMatch }[]);
+
+  candidatePairs(docs).forEach(pair => {
+    const [i, j] = pair.split(':').map(Number);
+    const match = comparePair(docs[i], docs[j]);
+    if (!isNearDuplicate(match)) return;
+    parent[root(i)] = root(j);
+    matches[i].push({ other: j, match });
+    matches[j].push({ other: i, match: { ...match, sentencePairs: match.sentencePairs.map(p => ({ a: p.b, b: p.a, similarity: p.similarity })) } });
+  });
+
+  // Clusters are numbered in the order their first current document appears
+  const clusterLabels = new Map<number, string>();
+  docs.forEach((doc, i) => {
+    if (doc.source === 'current' && matches[i].length > 0 && !clusterLabels.has(root(i))) {
+      clusterLabels.set(root(i), `Cluster ${clusterLabels.size + 1}`);
+    }
+  });
+
+  const reports = new Map<string, SimilarityReport>();
+  docs.forEach((doc, i) => {
+    if (doc.source !== 'current') return;
+    const passages = new Map<number, SharedPassage>();
+    matches[i].forEach(({ other, match }) => match.sentencePairs.forEach(p => {
+      const sentence = doc.sentences[p.a];
+      if (!passages.has(p.a)) passages.set(p.a, { start: sentence.start, end: sentence.end, text: sentence.text, matches: [] });
+      const passage = passages.get(p.a)!;
+      // One entry per other resume: its closest sentence
+      const existing = passage.matches.find(m => m.id === docs[other].id);
+      if (existing && existing.similarity >= p.similarity) return;
+      passage.matches = passage.matches.filter(m => m.id !== docs[other].id);
+      passage.matches.push({ id: docs[other].id, name: docs[other].name, text: docs[other].sentences[p.b].text, similarity: round2(p.similarity) });
+    }));
+
+    const similarityMatches: SimilarityMatch[] = matches[i]
+      .map(({ other, match }) => ({
+        id: docs[other].id,
+        name: docs[other].name,
+        source: docs[other].source,
+        similarity: round2(match.similarity),
+        sharedSentences: new Set(match.sentencePairs.map(p => p.a)).size
+      }))
+      .sort((a, b) => b.similarity - a.similarity || b.sharedSentences - a.sharedSentences);
+
+    reports.set(doc.id, {
+      sharedWith: similarityMatches.length,
+      ...(clusterLabels.has(root(i)) && { cluster: clusterLabels.get(root(i)) }),
+      comparedWith: docs.length - 1,
+      matches: similarityMatches,
+      passages: Array.from(passages.values()).sort((a, b) => a.start - b.start)
+    });
+  });
+  return reports;
+};
+
+/**
+ * Compares every current document with the rest and returns a report for
+ * each current document, keyed by id. `history` holds stored signatures.
+ */
+export const findNearDuplicates = (
+  documents: SimilarityDocument[],
+  history: SimilaritySignature[] = []
+): Map<string, SimilarityReport> =>
+  matchDocuments([
+    ...documents.map(doc => indexSignature(createSignature(doc), doc.source)),
+    ...history.map(signature => indexSignature(signature, 'history'))
+  ]);
+
+// --- 4. Results ---
+
+/** Analyzed batch items; the rest are skipped. */
+export const batchDocuments = (items: BatchItem[], source: SimilaritySource): SimilarityDocument[] =>
+  items
+    .filter(item => item.result && item.text !== undefined)
+    .map(item => ({ id: item.id, name: item.fileName, source, text: item.text!, contentHash: item.result!.contentHash }));
+
+type StageReporter = (label: string, percent: number) => Promise<void>;
+
+// Share of the progress bar for indexing records saved without a signature
+const INDEXING_SHARE = 80;
+
+/**
+ * Signatures of every saved record, newest first. Records saved before
+ * signatures were stored, or with another SIGNATURE_VERSION, are indexed
+ * here once and their signatures saved.
+ */
+const historySignatures = async (stage: StageReporter): Promise<SimilaritySignature[]> => {
+  const [ids, stored] = await Promise.all([listAnalysisIds(), listSignatures()]);
+  const signatures = new Map(stored.filter(s => s.version === SIGNATURE_VERSION).map(s => [s.id, s]));
+  const missing = ids.filter(id => !signatures.has(id));
+  const created: SimilaritySignature[] = [];
+
+  try {
+    for (let i = 0; i < missing.length; i++) {
+      await stage(`Indexing saved resumes (${i + 1} of ${missing.length})`, Math.round((INDEXING_SHARE * i) / missing.length));
+      const record = await getAnalysis(missing[i]);
+      if (!record) continue;
+      const signature = createSignature({ id: record.id, name: historyName(record), text: record.text, contentHash: record.contentHash });
+      signatures.set(record.id, signature);
+      created.push(signature);
+    }
+  } finally {
+    // Keep what was indexed before a cancel
+    if (created.length > 0) await saveSignatures(created).catch(err => console.warn("Could not save similarity signatures:", err));
+  }
+  return ids.map(id => signatures.get(id)).filter((s): s is SimilaritySignature => !!s);
+};
+
+/**
+ * Compares the current resumes with each other, `earlier` ones and the saved
+ * history, and returns the current resumes' signatures for saving with their
+ * records. Without IndexedDB (Node) the history is left out.
+ */
+export const compareWithPool = async (
+  current: SimilarityDocument[],
+  earlier: SimilarityDocument[] = [],
+  { onProgress, signal }: Pick<AnalyzeOptions, 'onProgress' | 'signal'> = {}
+): Promise<SimilarityComparison> => {
+  const stage: StageReporter = async (label, percent) => {
+    signal?.throwIfAborted();
+    onProgress?.({ stage: 'similarity', label, percent });
+    await yieldToEventLoop();
+    signal?.throwIfAborted();
+  };
+
+  await stage("Loading saved resumes", 0);
+  const history = await historySignatures(stage).catch(err => {
+    if (signal?.aborted) throw err;
+    return [] as SimilaritySignature[];
+  });
+
+  await stage("Comparing with saved resumes", INDEXING_SHARE);
+  const signatures = new Map(current.map(doc => [doc.id, createSignature(doc)]));
+  const reports = matchDocuments([
+    ...current.map(doc => indexSignature(signatures.get(doc.id)!, 'current')),
+    ...earlier.map(doc => indexSignature(createSignature(doc), doc.source)),
+    ...history.map(signature => indexSignature(signature, 'history'))
+  ]);
+  return { reports, signatures };
+};
+
+/** The result with its similarity report and "Shared with" flag, replacing any earlier ones. */
+export const withSimilarity = (result: AnalysisResult, report: SimilarityReport): AnalysisResult => {
+  const flags = result.flags.filter(f => f !== NO_ANOMALY_FLAG && !f.startsWith(SHARED_FLAG_PREFIX));
+  if (report.sharedWith > 0) {
+    flags.push(`${SHARED_FLAG_PREFIX}${report.sharedWith} other applicant${report.sharedWith === 1 ? '' : 's'}`);
+  }
+  if (flags.length === 0) flags.push(NO_ANOMALY_FLAG);
+  return { ...result, flags, similarity: report };
+};
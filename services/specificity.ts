@@ -0,0 +1,216 @@
+import { AnalysisContext, JobMatchReport, JobParaphrase, LexiconEntry, SpecificityReport } from "../types";
+import { compileLexicon, findPhrases, stem } from "./phraseMatcher";
+import { FUNCTION_WORDS } from "./stylometry";
+import { findTokens, segmentSentences, tokenizeWords } from "./tokenizer";
+import { hashContent } from "./reproducibility";
+
+/**
+ * SPECIFICITY AND JOB-DESCRIPTION MATCHING
+ *
+ * Generated resumes tend to be generic: many claims, few checkable details.
+ * Two signals, reported next to the AI probability rather than folded into it:
+ * 1. Specificity: concrete details (figures, dates, proper nouns, named
+ *    technologies) per 100 prose words against unquantified claims
+ *    ("various", "significantly", "responsible for"). Like the other scores
+ *    it maps to 0-100 as 50 + (density - neutral) * pointsPerUnit, here with
+ *    high = specific. English only: the vague-claim list is English.
+ * 2. Job-description match: the share of the posting's key terms the resume
+ *    covers, and resume sentences that restate a posting sentence. Sentences
+ *    are compared as sets of content-word stems and stem bigrams (Dice
+ *    coefficient), so reordered and re-inflected paraphrases still match.
+ */
+
+// --- 1. Specificity ---
+
+// Neutral densities per 100 prose words, and score points per unit away from them
+const NEUTRAL_CONCRETE = 8;
+const CONCRETE_POINTS = 3;
+const NEUTRAL_VAGUE = 2;
+const VAGUE_POINTS = -6;
+// Below this score the content is flagged as generic
+export const GENERIC_SPECIFICITY = 30;
+
+const TECHNOLOGIES = new Set([
+  'python', 'java', 'javascript', 'typescript', 'kotlin', 'swift', 'rust', 'golang', 'scala', 'ruby', 'php',
+  'perl', 'bash', 'powershell', 'cobol', 'fortran', 'matlab', 'html', 'css', 'sass', 'sql', 'graphql',
+  'react', 'angular', 'vue', 'nextjs', 'nodejs', 'django', 'flask', 'fastapi', 'rails', 'spring', 'webpack',
+  'mysql', 'postgres', 'postgresql', 'mongodb', 'redis', 'elasticsearch', 'kafka', 'spark', 'hadoop',
+  'airflow', 'snowflake', 'databricks', 'dbt', 'bigquery', 'redshift', 'pandas', 'numpy', 'pytorch',
+  'tensorflow', 'aws', 'azure', 'gcp', 'linux', 'docker', 'kubernetes', 'terraform', 'ansible', 'jenkins',
+  'git', 'github', 'gitlab', 'jira', 'confluence', 'datadog', 'grafana', 'prometheus', 'splunk', 'sentry',
+  'tableau', 'looker', 'excel', 'powerpoint', 'salesforce', 'hubspot', 'sap', 'oracle', 'servicenow',
+  'workday', 'netsuite', 'quickbooks', 'shopify', 'stripe', 'twilio', 'figma', 'photoshop', 'autocad',
+  'solidworks', 'revit', 'unity', 'sas', 'spss', 'stata'
+]);
+// "PostgreSQL", "GitHub", "iOS", "EC2", "python3"
+const TECHNOLOGY_SHAPE = /\p{Ll}\p{Lu}|\p{L}\p{N}|\p{N}\p{L}/u;
+
+const MONTHS = new Set([
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october',
+  'november', 'december', 'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec'
+]);
+const YEAR = /^(?:19|20)\d{2}$/;
+const PERIOD = /^(?:q[1-4]|h[12]|fy\d{2}(?:\d{2})?)$/i;
+const CAPITALIZED = /^\p{Lu}/u;
+
+const VAGUE_CLAIMS: LexiconEntry[] = [
+  'various', 'numerous', 'multiple', 'several', 'many', 'a variety of', 'a wide range of', 'a range of',
+  'significantly', 'substantially', 'greatly', 'considerably', 'dramatically', 'successfully', 'effectively',
+  'efficiently', 'strong', 'excellent', 'exceptional', 'outstanding', 'extensive experience', 'stakeholders',
+  'key stakeholders', 'best practices', 'high quality', 'world class', 'cutting edge', 'innovative solutions',
+  'responsible for', 'helped', 'assisted with', 'involved in', 'worked on', 'contributed to', 'key role',
+  'instrumental in', 'track record', 'detail oriented', 'team player', 'fast paced', 'positive impact',
+  'continuous improvement', 'drive results', 'etc'
+].map(phrase => ({ phrase, category: 'corporate-filler', weight: 1 }));
+const COMPILED_VAGUE_CLAIMS = compileLexicon(VAGUE_CLAIMS);
+
+const per100 = (count: number, words: number) => (words > 0 ? (100 * count) / words : 0);
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/** Concrete details vs vague claims in the context's (prose) text. */
+export const measureSpecificity = ({ text, sentenceSpans, words }: AnalysisContext): SpecificityReport => {
+  const sentenceStarts = new Set(sentenceSpans.map(s => s.start));
+  let numbers = 0;
+  let dates = 0;
+  let properNouns = 0;
+  let technologies = 0;
+
+  for (const token of findTokens(text)) {
+    const lower = token.text.toLowerCase();
+    if (!token.isWord) {
+      if (YEAR.test(token.text)) dates++;
+      else numbers++;
+    } else if (PERIOD.test(token.text) || (MONTHS.has(lower) && CAPITALIZED.test(token.text))) {
+      dates++;
+    } else if (TECHNOLOGIES.has(lower) || TECHNOLOGY_SHAPE.test(token.text)) {
+      technologies++;
+    } else if (CAPITALIZED.test(token.text) && !sentenceStarts.has(token.start) && token.text !== 'I') {
+      // A sentence's first word is capitalized anyway
+      properNouns++;
+    }
+  }
+
+  const phraseCounts = new Map<string, number>();
+  findPhrases(text, COMPILED_VAGUE_CLAIMS).forEach(({ entry }) =>
+    phraseCounts.set(entry.phrase, (phraseCounts.get(entry.phrase) ?? 0) + 1));
+  const vagueClaims = Array.from(phraseCounts.values()).reduce((a, b) => a + b, 0);
+
+  const concretePer100Words = per100(numbers + dates + properNouns + technologies, words.length);
+  const vaguePer100Words = per100(vagueClaims, words.length);
+  const score = 50 + (concretePer100Words - NEUTRAL_CONCRETE) * CONCRETE_POINTS + (vaguePer100Words - NEUTRAL_VAGUE) * VAGUE_POINTS;
+
+  return {
+    score: Math.round(Math.min(100, Math.max(0, score))),
+    numbers,
+    dates,
+    properNouns,
+    technologies,
+    vagueClaims,
+    concretePer100Words: round1(concretePer100Words),
+    vaguePer100Words: round1(vaguePer100Words),
+    vaguePhrases: Array.from(phraseCounts.entries()).sort((a, b) => b[1] - a[1]).map(([phrase]) => phrase)
+  };
+};
+
+// --- 2. Job-description match ---
+
+// Similarity at which a resume sentence counts as a paraphrase, and the
+// content words it must share so short sentences cannot match by accident
+export const PARAPHRASE_SIMILARITY = 0.5;
+const MIN_SHARED_TERMS = 4;
+const BIGRAM_SHARE = 0.3;
+const MAX_KEYWORDS = 20;
+
+// Posting boilerplate that says nothing about the role
+const POSTING_WORDS = new Set([
+  'experience', 'team', 'work', 'role', 'candidate', 'ability', 'skill', 'year', 'requirement', 'responsibility',
+  'include', 'prefer', 'plus', 'must', 'looking', 'join', 'company', 'opportunity', 'position', 'will', 'strong',
+  'knowledge', 'understand', 'help', 'across', 'within', 'new', 'great', 'ideal', 'qualification', 'require', 'other'
+].map(stem));
+
+const contentStems = (text: string, stopwords: Set<string>): string[] =>
+  tokenizeWords(text)
+    .filter(w => w.length > 2 && !stopwords.has(w) && !FUNCTION_WORDS.has(w))
+    .map(stem);
+
+const bigrams = (stems: string[]): Set<string> =>
+  new Set(stems.slice(1).map((s, i) => `${stems[i]} ${s}`));
+
+const dice = (a: Set<string>, b: Set<string>): { shared: number; score: number } => {
+  let shared = 0;
+  a.forEach(x => { if (b.has(x)) shared++; });
+  return { shared, score: a.size + b.size > 0 ? (2 * shared) / (a.size + b.size) : 0 };
+};
+
+interface ComparableSentence {
+  text: string;
+  terms: Set<string>;
+  pairs: Set<string>;
+}
+
+const comparable = (text: string, stopwords: Set<string>): ComparableSentence => {
+  const stems = contentStems(text, stopwords);
+  return { text, terms: new Set(stems), pairs: bigrams(stems) };
+};
+
+/** The posting's most frequent content terms, as they first appear in it. */
+const keyTerms = (jobDescription: string, stopwords: Set<string>): { stem: string; word: string }[] => {
+  const counts = new Map<string, { word: string; count: number; first: number }>();
+  tokenizeWords(jobDescription).forEach((word, i) => {
+    if (word.length <= 2 || stopwords.has(word) || FUNCTION_WORDS.has(word)) return;
+    const s = stem(word);
+    if (POSTING_WORDS.has(s)) return;
+    const entry = counts.get(s);
+    if (entry) entry.count++;
+    else counts.set(s, { word, count: 1, first: i });
+  });
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1].count - a[1].count || a[1].first - b[1].first)
+    .slice(0, MAX_KEYWORDS)
+    .map(([s, { word }]) => ({ stem: s, word }));
+};
+
+/**
+ * Compares the resume with a job description. Keywords are looked up in the
+ * whole resume (skill lists included); paraphrases only among the context's
+ * prose sentences.
+ */
+export const matchJobDescription = (
+  resumeText: string,
+  context: AnalysisContext,
+  jobDescription: string
+): JobMatchReport => {
+  const stopwords = new Set(context.language.stopwords);
+  const jobSentences = segmentSentences(jobDescription)
+    .map(({ start, end }) => comparable(jobDescription.slice(start, end), stopwords))
+    .filter(s => s.terms.size >= MIN_SHARED_TERMS);
+
+  const resumeStems = new Set(tokenizeWords(resumeText).map(stem));
+  const terms = keyTerms(jobDescription, stopwords);
+  const matched = terms.filter(t => resumeStems.has(t.stem));
+
+  const candidates = context.sentenceSpans.map((span, i) => ({ span, sentence: comparable(context.sentences[i], stopwords) }));
+  const paraphrases: JobParaphrase[] = candidates.flatMap(({ span, sentence }) => {
+    if (sentence.terms.size < MIN_SHARED_TERMS) return [];
+    let best: { similarity: number; jobSentence: string } | null = null;
+    for (const job of jobSentences) {
+      const unigrams = dice(sentence.terms, job.terms);
+      if (unigrams.shared < MIN_SHARED_TERMS) continue;
+      const similarity = (1 - BIGRAM_SHARE) * unigrams.score + BIGRAM_SHARE * dice(sentence.pairs, job.pairs).score;
+      if (!best || similarity > best.similarity) best = { similarity, jobSentence: job.text };
+    }
+    return best && best.similarity >= PARAPHRASE_SIMILARITY
+      ? [{ ...span, text: sentence.text, jobSentence: best.jobSentence, similarity: Math.round(best.similarity * 100) / 100 }]
+      : [];
+  });
+
+  const comparableCount = candidates.filter(c => c.sentence.terms.size > 0).length;
+  return {
+    jobDescriptionHash: hashContent(jobDescription),
+    keywordCoverage: terms.length > 0 ? Math.round((100 * matched.length) / terms.length) / 100 : 0,
+    matchedKeywords: matched.map(t => t.word),
+    missingKeywords: terms.filter(t => !resumeStems.has(t.stem)).map(t => t.word),
+    paraphrases,
+    paraphraseShare: comparableCount > 0 ? Math.round((100 * paraphrases.length) / comparableCount) / 100 : 0
+  };
+};
@@ -0,0 +1,192 @@
+import { AnalysisContext, DetectorEvidence, StylometryFeatureKey } from "../types";
+import { DEFAULT_LANGUAGE } from "./languageProfiles";
+import { tokenizeWords } from "./tokenizer";
+
+/**
+ * STYLOMETRY
+ *
+ * Style measurements beyond sentence-length variance and raw TTR:
+ * 1. Lexical diversity that does not drift with text length: MTLD, HD-D and
+ *    Yule's K (raw TTR falls as any text gets longer)
+ * 2. Function-word rate: generated resumes write full sentences where people
+ *    write telegraphic bullets
+ * 3. Punctuation: commas per sentence and em-dashes per 100 words
+ * 4. Passive-voice ratio and Flesch reading ease
+ * 5. Repetition: sentences opening on the same word, and bullets cut from
+ *    the "Verb-ed X, resulting in Y%" template
+ *
+ * Every feature maps to a 0-100 AI-likeness score as
+ * 50 + (value - threshold) * pointsPerUnit, so the threshold is the neutral
+ * value and the sign of pointsPerUnit gives the direction. Function words,
+ * passive voice, readability and templates rely on English grammar and are
+ * only measured for English.
+ */
+
+export interface StylometryFeature {
+  key: StylometryFeatureKey;
+  label: string; // Axis label in the radar chart
+  description: string; // Evidence label, with the unit
+  threshold: number;
+  pointsPerUnit: number;
+  englishOnly: boolean;
+}
+
+export const STYLOMETRY_FEATURES: StylometryFeature[] = [
+  { key: 'mtld', label: 'MTLD', description: 'MTLD (lexical diversity)', threshold: 70, pointsPerUnit: -0.6, englishOnly: false },
+  { key: 'hdd', label: 'HD-D', description: 'HD-D (lexical diversity)', threshold: 0.8, pointsPerUnit: -300, englishOnly: false },
+  { key: 'yulesK', label: "Yule's K", description: "Yule's K (repetition)", threshold: 100, pointsPerUnit: 0.25, englishOnly: false },
+  { key: 'functionWords', label: 'Function Words', description: 'Function-word rate', threshold: 0.3, pointsPerUnit: 200, englishOnly: true },
+  { key: 'commas', label: 'Commas', description: 'Commas per sentence', threshold: 1, pointsPerUnit: 15, englishOnly: false },
+  { key: 'emDashes', label: 'Em-Dashes', description: 'Em-dashes per 100 words', threshold: 0.3, pointsPerUnit: 25, englishOnly: false },
+  { key: 'passiveVoice', label: 'Passive Voice', description: 'Passive-voice sentence ratio', threshold: 0.1, pointsPerUnit: -150, englishOnly: true },
+  { key: 'readability', label: 'Readability', description: 'Flesch reading ease', threshold: 35, pointsPerUnit: -0.8, englishOnly: true },
+  { key: 'openingRepetition', label: 'Opening Variety', description: 'Repeated sentence openings (share)', threshold: 0.3, pointsPerUnit: 120, englishOnly: false },
+  { key: 'parallelTemplates', label: 'Template Variety', description: 'Templated achievement sentences (share)', threshold: 0.1, pointsPerUnit: 150, englishOnly: true }
+];
+
+export interface StylometryMeasurement {
+  feature: StylometryFeature;
+  value: number;
+  score: number; // 0-100, higher = more AI-like
+}
+
+// --- 1. Lexical diversity ---
+
+const MTLD_FACTOR_TTR = 0.72;
+const HDD_SAMPLE_SIZE = 42;
+
+const mtldPass = (words: string[]): number => {
+  let factors = 0;
+  let types = new Set<string>();
+  let tokens = 0;
+  for (const word of words) {
+    types.add(word);
+    tokens++;
+    if (types.size / tokens <= MTLD_FACTOR_TTR) {
+      factors++;
+      types = new Set();
+      tokens = 0;
+    }
+  }
+  // The unfinished segment counts as the fraction of a factor it covered
+  if (tokens > 0) factors += (1 - types.size / tokens) / (1 - MTLD_FACTOR_TTR);
+  return factors > 0 ? words.length / factors : words.length;
+};
+
+/** Measure of Textual Lexical Diversity (McCarthy & Jarvis), averaged over both directions. */
+export const mtld = (words: string[]): number =>
+  words.length === 0 ? 0 : (mtldPass(words) + mtldPass([...words].reverse())) / 2;
+
+const frequencies = (words: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  words.forEach(w => counts.set(w, (counts.get(w) ?? 0) + 1));
+  return counts;
+};
+
+/** HD-D: expected TTR of a random 42-word sample (hypergeometric distribution). */
+export const hdd = (words: string[]): number => {
+  const n = words.length;
+  const sample = Math.min(HDD_SAMPLE_SIZE, n);
+  if (sample === 0) return 0;
+  let total = 0;
+  frequencies(words).forEach(count => {
+    // Chance that a sample of `sample` words misses every occurrence of this type
+    let miss = 1;
+    for (let i = 0; i < sample && miss > 0; i++) miss *= Math.max(0, n - count - i) / (n - i);
+    total += (1 - miss) / sample;
+  });
+  return total;
+};
+
+/** Yule's K: 10^4 * (sum of squared type frequencies - N) / N^2; higher = more repetitive. */
+export const yulesK = (words: string[]): number => {
+  const n = words.length;
+  if (n === 0) return 0;
+  let sumSquares = 0;
+  frequencies(words).forEach(count => { sumSquares += count * count; });
+  return (10000 * (sumSquares - n)) / (n * n);
+};
+
+// --- 2. Function words ---
+
+export const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'some', 'any', 'each', 'every', 'all', 'both',
+  'of', 'in', 'on', 'at', 'to', 'for', 'with', 'by', 'from', 'into', 'onto', 'over', 'under', 'about',
+  'across', 'through', 'between', 'among', 'within', 'without', 'during', 'after', 'before', 'while',
+  'and', 'or', 'but', 'nor', 'so', 'yet', 'as', 'than', 'if', 'because', 'although', 'which', 'who',
+  'whom', 'whose', 'where', 'when', 'how', 'what', 'i', 'me', 'my', 'we', 'us', 'our', 'you', 'your',
+  'he', 'him', 'his', 'she', 'her', 'they', 'them', 'their', 'it', 'its', 'is', 'are', 'was', 'were',
+  'be', 'been', 'being', 'am', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'can',
+  'could', 'should', 'may', 'might', 'must', 'not', 'no', 'also', 'such', 'very', 'more', 'most'
+]);
+
+// --- 3. Passive voice and readability ---
+
+const BE_FORMS = "am|is|are|was|were|be|been|being";
+const IRREGULAR_PARTICIPLES = "built|made|given|taken|written|chosen|driven|done|seen|led|run|won|held|grown|shown|brought|sought|taught|found|kept|set|put|paid|sent|spent|known";
+const PASSIVE_PATTERN = new RegExp(`\\b(?:${BE_FORMS})\\s+(?:\\w+ly\\s+)?(?:\\w+ed|${IRREGULAR_PARTICIPLES})\\b`, 'i');
+
+/** Vowel groups, minus a silent final "e"; at least one per word. */
+const countSyllables = (word: string): number => {
+  const groups = word.toLowerCase().replace(/(?:[^laeiouy]es|[^laeiouy]e)$/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups?.length ?? 0);
+};
+
+export const fleschReadingEase = (sentences: string[], words: string[]): number => {
+  if (sentences.length === 0 || words.length === 0) return 0;
+  const syllables = words.reduce((sum, w) => sum + countSyllables(w), 0);
+  return 206.835 - 1.015 * (words.length / sentences.length) - 84.6 * (syllables / words.length);
+};
+
+// --- 4. Repetition ---
+
+// "Optimized X, resulting in 30%..." and its relatives
+const TEMPLATE_PATTERN = /^\p{L}{3,}ed\b[^.;]*?,\s*(?:resulting in|leading to|which (?:resulted|led) (?:in|to)|driving|achieving|improving|increasing|reducing|boosting|cutting|saving)\b[^.;]*\d/iu;
+
+/** Share of sentences whose first word already opened an earlier sentence. */
+const openingRepetition = (sentences: string[]): number => {
+  const openings = sentences.map(s => tokenizeWords(s)[0]).filter(Boolean);
+  if (openings.length === 0) return 0;
+  return 1 - new Set(openings).size / openings.length;
+};
+
+const EM_DASH = /—|\s–\s|\s--\s/g;
+
+// --- 5. Scoring ---
+
+const measure = (key: StylometryFeatureKey, { text, sentences, words }: AnalysisContext): number => {
+  const sentenceCount = Math.max(1, sentences.length);
+  switch (key) {
+    case 'mtld': return mtld(words);
+    case 'hdd': return hdd(words);
+    case 'yulesK': return yulesK(words);
+    case 'functionWords': return words.length > 0 ? words.filter(w => FUNCTION_WORDS.has(w)).length / words.length : 0;
+    case 'commas': return (text.match(/,/g)?.length ?? 0) / sentenceCount;
+    case 'emDashes': return words.length > 0 ? (100 * (text.match(EM_DASH)?.length ?? 0)) / words.length : 0;
+    case 'passiveVoice': return sentences.filter(s => PASSIVE_PATTERN.test(s)).length / sentenceCount;
+    case 'readability': return fleschReadingEase(sentences, words);
+    case 'openingRepetition': return openingRepetition(sentences);
+    case 'parallelTemplates': return sentences.filter(s => TEMPLATE_PATTERN.test(s)).length / sentenceCount;
+  }
+};
+
+export const featureScore = (feature: StylometryFeature, value: number): number =>
+  Math.min(100, Math.max(0, 50 + (value - feature.threshold) * feature.pointsPerUnit));
+
+/** Chart values (high = human-like) from the stylometry detector's evidence. */
+export const stylometryChartScores = (
+  evidence: DetectorEvidence[] = []
+): Partial<Record<StylometryFeatureKey, number>> =>
+  Object.fromEntries(STYLOMETRY_FEATURES.flatMap(feature => {
+    const item = evidence.find(e => e.key === feature.key);
+    return item ? [[feature.key, Math.round(100 - featureScore(feature, item.value))]] : [];
+  }));
+
+/** Every feature that applies to the context's language, with its AI-likeness score. */
+export const measureStylometry = (context: AnalysisContext): StylometryMeasurement[] =>
+  STYLOMETRY_FEATURES
+    .filter(feature => !feature.englishOnly || context.language.code === DEFAULT_LANGUAGE)
+    .map(feature => {
+      const value = measure(feature.key, context);
+      return { feature, value, score: featureScore(feature, value) };
+    });
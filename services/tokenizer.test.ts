@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { countWords, segmentSentences, splitSentences, tokenizeWords } from "./tokenizer";
+
+test("abbreviations do not end a sentence", () => {
+  assert.deepEqual(splitSentences("Reported to the Sr. Director of Operations. Led the team."), [
+    "Reported to the Sr. Director of Operations.",
+    "Led the team."
+  ]);
+  assert.deepEqual(splitSentences("Opened offices across the U.S. Army bases. Hired 12 staff."), [
+    "Opened offices across the U.S. Army bases.",
+    "Hired 12 staff."
+  ]);
+  assert.deepEqual(splitSentences("Consulted for Acme Inc. Globex Corp. and others."), [
+    "Consulted for Acme Inc. Globex Corp. and others."
+  ]);
+  assert.deepEqual(splitSentences("Improved latency, e.g. the search API. Shipped it."), [
+    "Improved latency, e.g. the search API.",
+    "Shipped it."
+  ]);
+});
+
+test("versions and amounts stay whole", () => {
+  assert.deepEqual(splitSentences("Migrated the API to v2.5 in 2021. Raised $1.5M in seed funding."), [
+    "Migrated the API to v2.5 in 2021.",
+    "Raised $1.5M in seed funding."
+  ]);
+  assert.deepEqual(tokenizeWords("Upgraded to v2.5 and python3"), ["upgraded", "to", "v2.5", "and", "python3"]);
+});
+
+test("every bullet line is a sentence without terminal punctuation", () => {
+  const text = "• Built data pipelines\n• Reduced costs by 40%\n- Mentored 5 engineers\n1. Wrote the runbook";
+  assert.deepEqual(splitSentences(text), [
+    "Built data pipelines",
+    "Reduced costs by 40%",
+    "Mentored 5 engineers",
+    "Wrote the runbook"
+  ]);
+});
+
+test("bullet continuation lines join the bullet", () => {
+  assert.deepEqual(splitSentences("• Built the billing service,\n  cutting invoice errors in half\n• Led hiring"), [
+    "Built the billing service,\n  cutting invoice errors in half",
+    "Led hiring"
+  ]);
+});
+
+test("trailing text without a period is the last sentence", () => {
+  assert.deepEqual(splitSentences("Managed the budget. Owned vendor relationships"), [
+    "Managed the budget.",
+    "Owned vendor relationships"
+  ]);
+});
+
+test("spans are offsets into the original text", () => {
+  const text = "  • Led the team.\n\nShipped it";
+  const spans = segmentSentences(text);
+  assert.deepEqual(spans.map(({ start, end }) => text.slice(start, end)), ["Led the team.", "Shipped it"]);
+});
+
+test("contractions and possessives are single words", () => {
+  assert.deepEqual(tokenizeWords("I don't know O’Brien's team"), ["i", "don't", "know", "o'brien's", "team"]);
+});
+
+test("date ranges are neither sentence breaks nor words", () => {
+  const text = "Software Engineer, Acme Inc. Jan. 2019 – Mar. 2021\nBuilt the platform from 2019-2021.";
+  assert.deepEqual(splitSentences(text), [
+    "Software Engineer, Acme Inc. Jan. 2019 – Mar. 2021",
+    "Built the platform from 2019-2021."
+  ]);
+  assert.deepEqual(tokenizeWords("Jan. 2019 – Mar. 2021"), ["jan", "mar"]);
+});
+
+test("figures are not counted as words", () => {
+  assert.equal(countWords("Cut costs 40% across 2019 with 5m users"), 5);
+});
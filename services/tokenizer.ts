@@ -0,0 +1,141 @@
+import { TextSpan } from "../types";
+
+/**
+ * TOKENIZER
+ *
+ * Sentence and word segmentation shared by every metric, tuned for resume
+ * text rather than edited prose:
+ * 1. Bullets and line breaks: every bullet line starts a sentence even
+ *    without a period, and a line break ends one unless the next line
+ *    continues it (starts lowercase, or the line ends on a comma or hyphen).
+ * 2. Terminal punctuation only ends a sentence when whitespace follows and
+ *    the next word is not lowercase, so "v2.5", "$1.5M" and "e.g. the" stay
+ *    whole. Titles, "e.g."-style acronyms, initials, months and company
+ *    suffixes ("Inc.", "Ltd.") never end a sentence.
+ * 3. Words are Unicode letter runs with their contractions ("don't",
+ *    "O’Brien's"); hyphens split compounds, as in the lexicon matcher.
+ *    Chinese and Japanese characters count as one word each.
+ *    Figures ("2019", "40%", "$1.5M") are not vocabulary.
+ * Trailing text without punctuation is kept as the last sentence.
+ */
+
+export const BULLET_PATTERN = /^\s*([•●▪◦‣∙·\-–*]|\d{1,2}[.)])\s+/;
+
+// Abbreviations that are followed by more of the same sentence.
+const NON_TERMINAL_ABBREVIATIONS = new Set([
+  // Titles and honorifics
+  "mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "rev", "hon",
+  // Latin and reference shorthand
+  "vs", "al", "cf", "ca", "approx", "incl", "esp", "fig", "no", "nos", "vol", "pp", "dept",
+  // Months, as in "Jan. 2021"
+  "jan", "feb", "mar", "apr", "jun", "jul", "aug", "sep", "sept", "oct", "nov", "dec",
+  // Company suffixes
+  "inc", "ltd", "co", "corp", "llc", "plc", "gmbh", "bros"
+]);
+
+// "e.g", "i.e", "U.S", "Ph.D": letters separated by periods
+const DOTTED_ACRONYM = /^(\p{L}{1,2}\.)+\p{L}{1,2}$/u;
+const INITIAL = /^\p{Lu}$/u;
+// CJK full stops need no following space; "।" is the Devanagari danda
+const TERMINAL_PUNCTUATION = /[.!?…।]+['"”’)\]]*(?=\s|$)|[。！？]+/g;
+// A line ending in one of these runs on into the next line.
+const CONTINUATION_END = /[,;:(&/\-–—]$/;
+const CONTINUATION_START = /^[\p{Ll}(]/u;
+const LOWERCASE_START = /^\p{Ll}/u;
+const HAS_LETTER = /\p{L}/u;
+// Single CJK characters (no spaces between words), dotted acronyms ("e.g",
+// "Ph.D"), then letter/digit runs with decimal parts ("v2.5") and contractions
+const WORD_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|(?<![\p{L}\p{N}.])\p{L}{1,2}(?:\.\p{L}{1,2})+|[\p{L}\p{M}\p{N}]+(?:[.,]\p{N}+[\p{L}\p{N}]*)*(?:['’][\p{L}\p{M}]+)*/gu;
+// "python3" and "s3" are words; "2019", "40" and "5m" are figures
+const WORD_START = /^\p{L}/u;
+
+/** Whether the period at the end of `before` belongs to an abbreviation. */
+const endsWithAbbreviation = (before: string): boolean => {
+  const word = (before.match(/\S+$/)?.[0] ?? "").replace(/^[("'“‘[]+/, "");
+  return NON_TERMINAL_ABBREVIATIONS.has(word.toLowerCase()) || DOTTED_ACRONYM.test(word) || INITIAL.test(word);
+};
+
+/** Splits one run of text (no bullet or line boundaries inside) at sentence ends. */
+const splitBlock = (text: string, start: number, end: number, spans: TextSpan[]) => {
+  const block = text.slice(start, end);
+  let sentenceStart = 0;
+
+  for (const match of block.matchAll(TERMINAL_PUNCTUATION)) {
+    const punctuationEnd = match.index! + match[0].length;
+    const rest = block.slice(punctuationEnd).trimStart();
+    if (LOWERCASE_START.test(rest)) continue;
+    if (match[0] === "." && rest && endsWithAbbreviation(block.slice(sentenceStart, match.index))) continue;
+    pushSpan(text, start + sentenceStart, start + punctuationEnd, spans);
+    sentenceStart = punctuationEnd;
+  }
+  pushSpan(text, start + sentenceStart, end, spans);
+};
+
+const pushSpan = (text: string, start: number, end: number, spans: TextSpan[]) => {
+  const content = text.slice(start, end);
+  if (!HAS_LETTER.test(content)) return;
+  const leading = content.length - content.trimStart().length;
+  spans.push({ start: start + leading, end: start + content.trimEnd().length });
+};
+
+/** Sentence offsets into `text`, in order, trimmed and without bullet markers. */
+export const segmentSentences = (text: string): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  let blockStart = -1;
+  let blockEnd = -1;
+  let previousLine = "";
+
+  const closeBlock = () => {
+    if (blockStart >= 0) splitBlock(text, blockStart, blockEnd, spans);
+    blockStart = -1;
+  };
+
+  let lineStart = 0;
+  for (const line of text.split("\n")) {
+    const lineEnd = lineStart + line.length;
+    const content = line.trim();
+    const bullet = line.match(BULLET_PATTERN);
+
+    if (!content) {
+      closeBlock();
+    } else if (bullet) {
+      closeBlock();
+      blockStart = lineStart + bullet[0].length;
+    } else if (blockStart < 0 || !(CONTINUATION_START.test(content) || CONTINUATION_END.test(previousLine))) {
+      closeBlock();
+      blockStart = lineStart;
+    }
+    if (content) {
+      blockEnd = lineEnd;
+      previousLine = content;
+    }
+    lineStart = lineEnd + 1;
+  }
+  closeBlock();
+  return spans;
+};
+
+export const splitSentences = (text: string): string[] =>
+  segmentSentences(text).map(({ start, end }) => text.slice(start, end));
+
+export interface Token extends TextSpan {
+  text: string; // As it appears in the input
+  isWord: boolean; // False for figures such as "2019" or "40%"
+}
+
+/** Every token with its offsets, figures included (the phrase matcher needs their positions). */
+export const findTokens = (text: string): Token[] =>
+  Array.from(text.matchAll(WORD_PATTERN), m => ({
+    start: m.index!,
+    end: m.index! + m[0].length,
+    text: m[0],
+    isWord: WORD_START.test(m[0])
+  }));
+
+/** Lowercased word tokens; figures (tokens not starting with a letter) are skipped. */
+export const tokenizeWords = (text: string): string[] =>
+  findTokens(text)
+    .filter(token => token.isWord)
+    .map(token => token.text.replace(/’/g, "'").toLowerCase());
+
+export const countWords = (text: string): number => tokenizeWords(text).length;
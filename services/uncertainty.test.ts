@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AnalysisContext, AnalysisResult } from "../types";
+import { createSeededRandom } from "./reproducibility";
+import { tokenizeWords } from "./tokenizer";
+import { bootstrapInterval, hasSufficientEvidence, isInconclusive } from "./uncertainty";
+
+// Each sentence carries the score it contributes: "Value 40."
+const contextOf = (values: number[]): AnalysisContext => {
+  const sentences = values.map(v => `Value ${v}.`);
+  const text = sentences.join(' ');
+  let offset = 0;
+  const sentenceSpans = sentences.map(s => {
+    const span = { start: offset, end: offset + s.length };
+    offset = span.end + 1;
+    return span;
+  });
+  return {
+    text,
+    sentences,
+    sentenceSpans,
+    words: tokenizeWords(text),
+    perplexity: { documentPerplexity: 0, sentences: sentences.map((s, i) => ({ text: s, perplexity: i + 2 })) }
+  } as AnalysisContext;
+};
+
+const meanValue = (context: AnalysisContext) =>
+  context.sentences.reduce((sum, s) => sum + Number(s.match(/\d+/)![0]), 0) / context.sentences.length;
+
+test("resamples are halves drawn without replacement, in document order", () => {
+  const context = contextOf([10, 20, 30, 40, 50, 60, 70]);
+  const seen: AnalysisContext[] = [];
+  bootstrapInterval(context, 40, resample => {
+    seen.push(resample);
+    return meanValue(resample);
+  }, createSeededRandom(1), 50);
+
+  assert.equal(seen.length, 50);
+  seen.forEach(resample => {
+    assert.equal(resample.sentences.length, 4);
+    assert.equal(new Set(resample.sentences).size, 4);
+    const order = resample.sentences.map(s => context.sentences.indexOf(s));
+    assert.deepEqual(order, [...order].sort((a, b) => a - b));
+    resample.sentenceSpans.forEach((span, i) => assert.equal(resample.text.slice(span.start, span.end), resample.sentences[i]));
+  });
+});
+
+test("a resample's perplexity is the length-weighted geometric mean of its sentences", () => {
+  const context = contextOf([10, 20, 30, 40]);
+  bootstrapInterval(context, 25, resample => {
+    const { sentences } = resample.perplexity;
+    const total = sentences.reduce((sum, s) => sum + s.text.length, 0);
+    const expected = Math.exp(sentences.reduce((sum, s) => sum + s.text.length * Math.log(s.perplexity), 0) / total);
+    assert.ok(Math.abs(resample.perplexity.documentPerplexity - expected) < 1e-9);
+    return 50;
+  }, createSeededRandom(2), 10);
+});
+
+test("the interval is centered on the full-text estimate and repeatable", () => {
+  const context = contextOf([20, 35, 50, 65, 80, 20, 35, 50, 65, 80]);
+  const interval = bootstrapInterval(context, 62, meanValue, createSeededRandom(3));
+  assert.ok(interval.lower < 62 && interval.upper > 62, `${interval.lower}-${interval.upper}`);
+  assert.equal(interval.resamples, 200);
+  assert.equal(interval.sentenceCount, 10);
+  assert.deepEqual(bootstrapInterval(context, 62, meanValue, createSeededRandom(3)), interval);
+});
+
+test("a score that does not depend on the sample has a zero-width interval", () => {
+  const interval = bootstrapInterval(contextOf([10, 90, 10, 90]), 37, () => 37, createSeededRandom(4));
+  assert.equal(interval.lower, 37);
+  assert.equal(interval.upper, 37);
+});
+
+test("fewer sentences give a wider interval", () => {
+  const values = [10, 30, 50, 70, 90];
+  const short = bootstrapInterval(contextOf(values), 50, meanValue, createSeededRandom(5));
+  const long = bootstrapInterval(contextOf([...values, ...values, ...values, ...values]), 50, meanValue, createSeededRandom(5));
+  assert.ok(short.upper - short.lower > long.upper - long.lower);
+});
+
+test("a verdict needs 40 words in 3 sentences", () => {
+  const context = (words: number, sentences: number) =>
+    ({ words: Array(words).fill('word'), sentences: Array(sentences).fill('Sentence.') }) as AnalysisContext;
+  assert.equal(hasSufficientEvidence(context(40, 3)), true);
+  assert.equal(hasSufficientEvidence(context(39, 3)), false);
+  assert.equal(hasSufficientEvidence(context(200, 2)), false);
+});
+
+test("results from before the inconclusive field count as inconclusive by language", () => {
+  assert.equal(isInconclusive({ language: { supported: false } } as AnalysisResult), true);
+  assert.equal(isInconclusive({ language: { supported: true } } as AnalysisResult), false);
+  assert.equal(isInconclusive({ inconclusive: 'insufficient-text' } as AnalysisResult), true);
+});
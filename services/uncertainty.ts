@@ -0,0 +1,129 @@
+import { AnalysisContext, AnalysisResult, ConfidenceInterval } from "../types";
+import { tokenizeWords } from "./tokenizer";
+
+/**
+ * UNCERTAINTY
+ *
+ * How far the score would move if the same person had written a different
+ * sample of sentences. Random halves of the analyzed sentences are drawn
+ * without replacement and the full scoring path (ensemble + calibration)
+ * re-run on each; the percentiles of those scores give the interval
+ * (half-sampling). Drawing with replacement would repeat sentences, and
+ * repetition itself reads as machine text, dragging every resample toward AI.
+ * For an average-like score the spread of half-sample scores matches the
+ * sampling spread of the full text. Few sentences mean few distinct halves
+ * and a wide interval.
+ *
+ * Below a minimum amount of text no verdict is given at all: the result is
+ * "inconclusive" rather than a confident number from three words.
+ */
+
+export const BOOTSTRAP_RESAMPLES = 200;
+export const INTERVAL_LEVEL = 0.9;
+export const MIN_EVIDENCE_WORDS = 40;
+export const MIN_EVIDENCE_SENTENCES = 3;
+
+const INCONCLUSIVE_LABELS: Record<NonNullable<AnalysisResult['inconclusive']>, string> = {
+  'insufficient-text': 'Not enough text',
+  'unsupported-language': 'Unsupported language'
+};
+
+/** True when the result carries no verdict; covers 1.8.0 results that predate `inconclusive`. */
+export const isInconclusive = (result: AnalysisResult): boolean =>
+  !!result.inconclusive || result.language?.supported === false;
+
+export const inconclusiveLabel = (result: AnalysisResult): string =>
+  INCONCLUSIVE_LABELS[result.inconclusive ?? 'unsupported-language'];
+
+export const hasSufficientEvidence = (context: AnalysisContext): boolean =>
+  context.words.length >= MIN_EVIDENCE_WORDS && context.sentences.length >= MIN_EVIDENCE_SENTENCES;
+
+/**
+ * Context for a resample: the picked sentences joined into a new text, with
+ * their spans carried over to the new offsets rather than re-segmented. The
+ * per-sentence perplexities are reused rather than re-measured; the document
+ * perplexity is their length-weighted geometric mean.
+ */
+const resampleContext = (context: AnalysisContext, picks: number[]): AnalysisContext => {
+  const sentences = picks.map(i => context.sentences[i]);
+  const text = sentences.join(' ');
+  let offset = 0;
+  const sentenceSpans = sentences.map(sentence => {
+    const span = { start: offset, end: offset + sentence.length };
+    offset = span.end + 1;
+    return span;
+  });
+  const reports = picks.map(i => context.perplexity.sentences[i]).filter(Boolean);
+
+  let weightedLog = 0;
+  let totalLength = 0;
+  reports.forEach(({ text: sentence, perplexity }) => {
+    if (perplexity <= 0) return;
+    weightedLog += sentence.length * Math.log(perplexity);
+    totalLength += sentence.length;
+  });
+
+  return {
+    ...context,
+    text,
+    sentences,
+    sentenceSpans,
+    words: tokenizeWords(text),
+    perplexity: {
+      documentPerplexity: totalLength > 0 ? Math.exp(weightedLog / totalLength) : 0,
+      sentences: reports
+    }
+  };
+};
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+
+/** `size` distinct indices below `n`, in document order (partial Fisher-Yates). */
+const subsample = (n: number, size: number, random: () => number): number[] => {
+  const indices = Array.from({ length: n }, (_, i) => i);
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(random() * (n - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, size).sort((a, b) => a - b);
+};
+
+/**
+ * Half-sampling interval around `estimate`. `score` maps a context to a
+ * calibrated 0-100 probability; `random` should be seeded so the interval is
+ * reproducible.
+ */
+export const bootstrapInterval = (
+  context: AnalysisContext,
+  estimate: number,
+  score: (context: AnalysisContext) => number,
+  random: () => number,
+  resamples = BOOTSTRAP_RESAMPLES,
+  level = INTERVAL_LEVEL
+): ConfidenceInterval => {
+  const n = context.sentences.length;
+  const size = Math.ceil(n / 2);
+  const scores: number[] = [];
+  for (let r = 0; r < resamples && n > 0; r++) {
+    scores.push(score(resampleContext(context, subsample(n, size, random))));
+  }
+  scores.sort((a, b) => a - b);
+
+  // Half as much text shifts length-sensitive features (shorter texts look more
+  // varied), so the spread of the half-sample scores is placed around the
+  // full-text estimate instead of around their own median
+  const tail = (1 - level) / 2;
+  const shift = scores.length > 0 ? estimate - percentile(scores, 0.5) : 0;
+  const lower = scores.length > 0 ? percentile(scores, tail) + shift : 0;
+  const upper = scores.length > 0 ? percentile(scores, 1 - tail) + shift : 100;
+
+  return {
+    lower: Math.round(Math.max(0, lower)),
+    upper: Math.round(Math.min(100, upper)),
+    level,
+    resamples: scores.length,
+    sentenceCount: n,
+    wordCount: context.words.length
+  };
+};
@@ -15,14 +15,561 @@ export interface AnalysisResult {
     burstinessScore: number; // Low = AI, High = Human
     vocabularyRichness: number;
     sentenceVariety: number;
+    // 0-100 per stylometric feature, high = human-like; features that do not
+    // apply to the language are left out. Absent before analyzer 1.10.0.
+    stylometry?: Partial<Record<StylometryFeatureKey, number>>;
   };
   flags: string[]; // Specific phrases or patterns detected
   suggestions: string[]; // How to make it more human
+  perplexity: PerplexityReport; // Measured by the bundled n-gram language model
+  detectors: DetectorContribution[]; // Each detector's share of aiProbability
+  explanation?: Explanation; // Per-feature breakdown of aiProbability; absent for inconclusive and older results
+  sentenceScores: SentenceScore[];
+  highlights: HighlightSpan[]; // Matched marker phrases, as offsets into the analyzed text
+  sections: SectionScore[]; // Detected resume sections, in document order
+  ocr?: OcrReport; // Present when the text came from OCR
+  rawProbability: number; // Ensemble output before calibration, 0-100
+  calibration: CalibrationMethod; // Mapping applied to rawProbability to get aiProbability
+  classifier?: string; // Name of the custom classifier that scored this result; absent for the built-in ensemble
+  backend?: BackendProvenance; // Absent for results from before pluggable backends (always local)
+  language?: LanguageDetection; // Absent before analyzer 1.8.0 (English assumed)
+  interval?: ConfidenceInterval; // Bootstrap interval around aiProbability; absent before analyzer 1.9.0
+  inconclusive?: InconclusiveReason; // Set when no verdict is given (aiProbability is then 50)
+  specificity?: SpecificityReport; // Concrete detail vs vague claims; English only, not part of aiProbability
+  jobMatch?: JobMatchReport; // Present when a job description was given; not part of aiProbability
+  similarity?: SimilarityReport; // Near-duplicates among the batch and saved history; set after analysis
+  contentHash: string; // sha256 of the normalized input text
+  analyzerVersion: string; // Scoring logic version that produced this result
+  scoringMode: ScoringMode;
+  noiseSeed?: number; // Only set when scoringMode is 'seeded-noise'
+}
+
+// One measured feature's push on the score, in points of AI probability.
+export interface ExplanationFactor {
+  id: string; // "<detectorId>.<evidenceKey>", e.g. 'burstiness.stdDev'
+  label: string; // Evidence label, e.g. "Sentence length std. dev."
+  source: string; // Detector name
+  value: number; // As measured
+  threshold?: number; // Neutral value it was compared with (the training mean for a custom classifier)
+  impact: number; // Points added to the score; positive = toward AI
+}
+
+export interface Explanation {
+  method: 'ensemble' | 'classifier';
+  baseline: number; // Score with no evidence either way (50 for the ensemble)
+  factors: ExplanationFactor[]; // Largest |impact| first
+  adjustment: number; // Calibration, demo noise and clamping, in points
+  final: number; // baseline + sum of impacts + adjustment = aiProbability
+}
+
+export type InconclusiveReason = 'insufficient-text' | 'unsupported-language';
+
+export interface ConfidenceInterval {
+  lower: number; // 0-100, calibrated AI probability
+  upper: number;
+  level: number; // Coverage, e.g. 0.9 for a 90% interval
+  resamples: number; // Bootstrap resamples over sentences
+  sentenceCount: number; // Sentences the interval was resampled from
+  wordCount: number;
+}
+
+// Generic-vs-specific content: concrete detail per 100 prose words against vague claims.
+export interface SpecificityReport {
+  score: number; // 0-100, high = specific
+  numbers: number; // Figures other than years: "40%", "$1.5M", "12"
+  dates: number; // Years, month names, quarters
+  properNouns: number; // Capitalized names and acronyms that do not open a sentence
+  technologies: number; // Known tools and tool-shaped tokens ("PostgreSQL", "EC2")
+  vagueClaims: number; // Matches of unquantified claims ("various", "significantly", "responsible for")
+  concretePer100Words: number;
+  vaguePer100Words: number;
+  vaguePhrases: string[]; // Distinct vague claims found, most frequent first
+}
+
+// A resume sentence that restates a job-description sentence.
+export interface JobParaphrase extends TextSpan {
+  text: string;
+  jobSentence: string;
+  similarity: number; // 0-1, content-word and bigram overlap
+}
+
+export interface JobMatchReport {
+  jobDescriptionHash: string; // sha256 of the normalized job description
+  keywordCoverage: number; // 0-1, share of the job description's key terms found in the resume
+  matchedKeywords: string[];
+  missingKeywords: string[];
+  paraphrases: JobParaphrase[]; // In document order
+  paraphraseShare: number; // 0-1, share of the resume's sentences that paraphrase the job description
+}
+
+// Where a compared resume came from: the current upload or batch, or the saved history.
+export type SimilaritySource = 'current' | 'history';
+
+// Another resume that shares near-identical content with this one.
+export interface SimilarityMatch {
+  id: string; // Batch item id or history record id
+  name: string; // File name, or "Pasted text" with the analysis date
+  source: SimilaritySource;
+  similarity: number; // 0-1, MinHash estimate of the Jaccard similarity of word shingles
+  sharedSentences: number; // Sentences of this resume that nearly match one of the other's
+}
+
+// A sentence of this resume that other resumes repeat almost word for word.
+export interface SharedPassage extends TextSpan {
+  text: string;
+  matches: { id: string; name: string; text: string; similarity: number }[]; // The other resumes' versions
+}
+
+export interface SimilarityReport {
+  sharedWith: number; // Other applicants with near-duplicate content
+  cluster?: string; // Label shared by every resume in the same near-duplicate group, e.g. "Cluster 2"
+  comparedWith: number; // Distinct resumes this one was compared with
+  matches: SimilarityMatch[]; // Most similar first
+  passages: SharedPassage[]; // In document order
+}
+
+// A resume to compare: the current upload or batch, or earlier resumes held in memory.
+export interface SimilarityDocument {
+  id: string;
+  name: string;
+  source: SimilaritySource;
+  text: string;
+  contentHash: string;
+}
+
+// MinHash summary of a resume (similarity.ts), saved beside its history
+// record so later comparisons do not re-read and re-index the text.
+export interface SimilaritySignature {
+  id: string; // History record id once saved
+  name: string;
+  contentHash: string;
+  version: number; // Signatures from another version are rebuilt
+  minHash: number[] | null; // Document shingles; null for a text without words
+  sentences: { start: number; end: number; text: string; stems: string[]; minHash: number[] }[];
+}
+
+export interface SimilarityComparison {
+  reports: Map<string, SimilarityReport>; // For each current document, by id
+  signatures: Map<string, SimilaritySignature>; // Of each current document, for saving with its history record
+}
+
+export interface PerplexityReport {
+  documentPerplexity: number; // Per-character perplexity over the whole text
+  sentences: { text: string; perplexity: number }[];
+}
+
+// Character offsets into the analyzed text; end is exclusive.
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface HighlightSpan extends TextSpan {
+  kind: 'marker';
+  label: string; // The matched phrase as it appears in the lexicon
+  explanation: string;
+}
+
+export interface SentenceScore extends TextSpan {
+  text: string;
+  score: number; // 0-100, higher = more AI-like
+  perplexity: number;
+  reasons: string[];
+}
+
+export type LexiconCategory = 'ai-cliche' | 'corporate-filler' | 'llm-transition';
+
+export interface LexiconEntry {
+  phrase: string; // One or more words; matched after stemming, hyphens count as spaces
+  category: LexiconCategory;
+  weight: number; // Multiplier on the entry's contribution to buzzword density
+}
+
+// Languages with their own lexicon and normalization constants
+export type LanguageCode = 'en' | 'de' | 'es';
+
+export interface LanguageNorms {
+  neutralStdDev: number; // Sentence-length std. dev. the burstiness detector treats as neutral
+  monotonicStdDev: number; // Below this, sentence structure is flagged as monotonic
+  neutralTtr: number; // Type-token ratio the vocabulary detector treats as neutral
+  repetitiveTtr: number; // Below this, vocabulary is flagged as repetitive
+  burstinessChartScale: number; // Chart points per word of std. dev.
+  ttrChartScale: number; // Chart points per unit of TTR
+  hasLanguageModel: boolean; // Whether the bundled n-gram model was trained on this language
+}
+
+export interface LanguageProfile {
+  code: LanguageCode;
+  name: string;
+  stopwords: string[]; // Frequent function words, used for detection
+  lexicon: LexiconEntry[]; // Default marker phrases
+  norms: LanguageNorms;
+}
+
+export interface LanguageDetection {
+  code: string; // ISO 639-1, or 'und' when undetermined
+  name: string;
+  confidence: number; // 0-1
+  supported: boolean; // False = no verdict is given
+}
+
+export type ResumeSectionKind =
+  | 'contact' | 'summary' | 'experience' | 'education' | 'skills' | 'projects' | 'other'
+  | 'body'; // Text with no recognizable headings
+
+export interface ResumeSection extends TextSpan {
+  kind: ResumeSectionKind;
+  heading: string | null; // Heading line as written, null for the contact block / body
+  isProse: boolean; // Only prose sections feed the linguistic metrics
+  bullets: TextSpan[];
+}
+
+export interface SectionScore extends TextSpan {
+  kind: ResumeSectionKind;
+  heading: string | null;
+  isProse: boolean;
+  wordCount: number;
+  bulletCount: number;
+  aiProbability: number | null; // null for non-prose sections
+}
+
+/**
+ * Shared, precomputed view of the input handed to every detector so that
+ * tokenization and language-model scoring run once per analysis.
+ */
+export interface AnalysisContext {
+  text: string;
+  sentences: string[];
+  sentenceSpans: TextSpan[]; // Offsets of each entry in sentences
+  words: string[]; // Lowercased word tokens
+  perplexity: PerplexityReport;
+  perplexityReference: { p05: number; p50: number; p95: number };
+  lexicon: LexiconEntry[];
+  language: LanguageProfile; // Profile the text is scored with
+}
+
+export type StylometryFeatureKey =
+  | 'mtld'
+  | 'hdd'
+  | 'yulesK'
+  | 'functionWords'
+  | 'commas'
+  | 'emDashes'
+  | 'passiveVoice'
+  | 'readability'
+  | 'openingRepetition'
+  | 'parallelTemplates';
+
+export interface DetectorEvidence {
+  key: string; // Stable identifier, e.g. 'stdDev'
+  label: string; // Human-readable name
+  value: number;
+  threshold?: number; // Value the detector treats as neutral
+}
+
+export interface DetectorOutput {
+  score: number; // 0-100, higher = more AI-like
+  confidence: number; // 0-1, how much evidence backed the score
+  evidence: DetectorEvidence[];
+  flags: string[];
+  spans?: HighlightSpan[]; // Where in the text the evidence was found
+}
+
+export interface Detector {
+  id: string;
+  name: string;
+  description: string;
+  defaultWeight: number;
+  detect: (context: AnalysisContext) => DetectorOutput;
+}
+
+export interface DetectorContribution extends DetectorOutput {
+  id: string;
+  name: string;
+  weight: number;
+  contribution: number; // Points of aiProbability attributable to this detector
+}
+
+// 'deterministic' is the default; 'seeded-noise' exists for demos only.
+export type ScoringMode = 'deterministic' | 'seeded-noise';
+
+export interface AnalyzeOptions {
+  scoringMode?: ScoringMode;
+  seed?: number; // Required for reproducible noise; defaults to a seed derived from the content hash
+  detectorWeights?: Record<string, number>; // Overrides Detector.defaultWeight by id; 0 disables
+  lexicon?: LexiconEntry[]; // English lexicon; defaults to the user's saved one
+  ocr?: OcrReport; // Passed through to the result so excluded regions stay visible
+  jobDescription?: string; // Enables job-description matching; does not change aiProbability
+  calibration?: CalibrationModel; // Defaults to the saved or bundled calibration
+  classifier?: ClassifierModel | null; // Replaces the ensemble weights; defaults to the saved model if enabled, null forces the ensemble
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal; // Aborting rejects with an AbortError at the next stage boundary
+}
+
+// Pipeline stages reported while a resume is being analyzed.
+export type AnalysisStage = 'extraction' | 'segmentation' | 'language-model' | 'detector' | 'sections' | 'uncertainty' | 'remote' | 'similarity' | 'done';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  label: string; // Human-readable, e.g. "Running Burstiness detector"
+  percent: number; // 0-100 across the whole pipeline ('extraction' and 'similarity': across that step)
+  detectorId?: string; // Set for 'detector' stages
+}
+
+// Options that can cross the worker boundary (no callbacks or signals).
+export type SerializableAnalyzeOptions = Omit<AnalyzeOptions, 'onProgress' | 'signal'>;
+
+// Messages between the UI thread and the analysis worker. `id` pairs each
+// response with its request so several analyses can be in flight.
+export type AnalysisWorkerRequest =
+  | { type: 'analyze'; id: number; text: string; options: SerializableAnalyzeOptions }
+  | { type: 'compare'; id: number; current: SimilarityDocument[]; earlier: SimilarityDocument[] }
+  | { type: 'cancel'; id: number };
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; id: number; progress: AnalysisProgress }
+  | { type: 'result'; id: number; result: AnalysisResult }
+  | { type: 'comparison'; id: number; comparison: SimilarityComparison }
+  | { type: 'error'; id: number; message: string; aborted: boolean };
+
+// Reconstructed structure of an extracted PDF page, for preview and reading order.
+export interface LayoutBlock {
+  kind: 'heading' | 'paragraph' | 'bullet';
+  lines: string[];
+}
+
+export interface LayoutPage {
+  pageNumber: number;
+  source: 'text' | 'ocr'; // 'ocr' when the page had no text layer
+  columns: number;
+  blocks: LayoutBlock[];
+}
+
+export interface OcrRegion {
+  page: number;
+  text: string;
+  confidence: number; // 0-100 as reported by the OCR engine
+  bbox: { x0: number; y0: number; x1: number; y1: number }; // Pixels in the rendered page
+}
+
+export interface OcrReport {
+  pages: number[]; // Pages that were recognized via OCR
+  meanConfidence: number;
+  confidenceThreshold: number;
+  lowConfidenceRegions: OcrRegion[]; // Left out of the analyzed text
+}
+
+export interface ExtractedDocument {
+  text: string;
+  layout?: LayoutPage[]; // Only for PDFs
+  ocr?: OcrReport; // Set when any page or image went through OCR
+}
+
+export type BatchItemStatus = 'queued' | 'extracting' | 'analyzing' | 'done' | 'error';
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  status: BatchItemStatus;
+  progress: number; // 0-100 for this file
+  text?: string;
+  result?: AnalysisResult;
+  error?: string;
+}
+
+// One saved analysis in the local audit trail (IndexedDB).
+export interface HistoryRecord {
+  id: string;
+  fileName: string | null; // null for pasted text
+  createdAt: string; // ISO 8601
+  contentHash: string;
+  analyzerVersion: string;
+  text: string;
+  result: AnalysisResult;
+  jobDescription?: string; // Posting the resume was matched against, reused on re-analysis
+}
+
+// Maps the raw ensemble score to a calibrated probability. Points and the
+// Platt input are on a 0-1 scale.
+export type CalibrationMethod = 'none' | 'platt' | 'isotonic';
+
+export type CalibrationModel = (
+  | { method: 'none' }
+  | { method: 'platt'; a: number; b: number } // p = sigmoid(a * logit(raw) + b)
+  | { method: 'isotonic'; points: { x: number; y: number }[] } // Monotone, linearly interpolated
+) & {
+  sampleCount?: number; // Labeled samples the fit used
+  fittedAt?: string; // ISO 8601
+  analyzerVersion?: string; // Raw scores from other versions may not match
+};
+
+// One labeled document from an evaluation corpus (JSONL).
+export interface LabeledSample {
+  text: string;
+  label: 0 | 1; // 1 = AI-generated
+  id?: string;
+}
+
+export interface ScoredSample {
+  label: 0 | 1;
+  probability: number; // Predicted P(AI), 0-1
+}
+
+export interface ConfusionMatrix {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number; // Share of AI samples in the bin
+}
+
+export interface ClassificationMetrics {
+  sampleCount: number;
+  positives: number;
+  rocAuc: number;
+  roc: { fpr: number; tpr: number }[];
+  threshold: number; // 0-1; a sample is AI when probability > threshold
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+  confusion: ConfusionMatrix;
+  reliability: ReliabilityBin[];
+  brierScore: number;
+  expectedCalibrationError: number;
+}
+
+export interface EvaluationReport {
+  analyzerVersion: string;
+  createdAt: string;
+  trainCount: number;
+  testCount: number;
+  raw: ClassificationMetrics; // Uncalibrated scores on the test split
+  calibrated: ClassificationMetrics; // Train-split calibration applied to the test split
+  calibration: CalibrationModel; // Refit on every sample, ready to ship
+}
+
+// Logistic regression over the detectors' evidence, trained on a user's own
+// labeled resumes. Features are "<detectorId>.<evidenceKey>" or
+// "<detectorId>.score", standardized with the stored means and scales.
+export interface ClassifierModel {
+  kind: 'logistic';
+  name: string;
+  features: string[];
+  means: number[];
+  scales: number[];
+  weights: number[]; // Per standardized feature
+  bias: number;
+  l2: number; // Ridge penalty used in training
+  sampleCount: number;
+  trainedAt: string; // ISO 8601
+  analyzerVersion: string; // Evidence from other versions may not match
+}
+
+export interface ClassifierSettings {
+  enabled: boolean; // Score with `model` instead of the ensemble
+  model: ClassifierModel | null;
+}
+
+export interface ClassifierTrainingReport {
+  analyzerVersion: string;
+  createdAt: string;
+  trainCount: number;
+  testCount: number;
+  ensemble: ClassificationMetrics; // Raw ensemble scores on the test split
+  classifier: ClassificationMetrics; // Trained on the train split, scored on the test split
+  model: ClassifierModel; // Retrained on every sample, ready to use
+}
+
+// Where a verdict came from. Remote backends supply the verdict, probability
+// and flags; the sentence-level detail always comes from the local engine.
+export type BackendKind = 'local' | 'http' | 'llm';
+
+export interface BackendProvenance {
+  id: BackendKind; // Backend that produced the verdict
+  requested: BackendKind; // Backend the settings asked for
+  fallbackReason?: string; // Set when a remote backend failed and local scoring was used
+}
+
+export interface BackendSettings {
+  kind: BackendKind;
+  httpUrl: string; // Base URL of a service implementing POST /analyze
+  llmModel: string;
+  llmApiKey: string; // Empty = the GEMINI_API_KEY the app was built with
+  timeoutMs: number; // Per attempt
+  retries: number; // Extra attempts after a timeout, network error or 5xx
+  fallbackToLocal: boolean;
+}
+
+export interface AnalysisBackend {
+  id: BackendKind;
+  name: string;
+  analyze: (text: string, options: AnalyzeOptions) => Promise<AnalysisResult>;
+}
+
+// Wire format of the HTTP API (docs/openapi.json). Field names are snake_case
+// to match the Python reference service shown in the Python Code tab.
+export interface ApiAnalysisResult {
+  is_ai_generated: boolean;
+  ai_probability: number; // 0-100, two decimals
+  verdict: string;
+  flags: string[];
+  linguistic_score: number; // 0-100, high = human-like
+  inconclusive_reason: InconclusiveReason | null; // Set with the "Inconclusive" verdict; absent from the Python reference service
+}
+
+export interface ApiBatchItem {
+  filename: string;
+  result: ApiAnalysisResult | null;
+  error: string | null; // Same text as `detail` would be for a single upload
+}
+
+export interface ApiBatchResponse {
+  results: ApiBatchItem[];
+}
+
+// FastAPI-style error body: a message, or a list of validation errors.
+export interface ApiErrorBody {
+  detail: string | { loc: (string | number)[]; msg: string; type: string }[];
+}
+
+// Aligned sentence pair from comparing two analyzed versions of a resume.
+export type SentenceDiffKind = 'unchanged' | 'modified' | 'added' | 'removed';
+
+export interface SentenceDiffRow {
+  kind: SentenceDiffKind;
+  before: SentenceScore | null;
+  after: SentenceScore | null;
+  similarity: number; // 0-1 word overlap; 1 for unchanged, 0 for unpaired rows
+}
+
+export interface MetricDelta {
+  key: string;
+  label: string;
+  before: number;
+  after: number;
+  delta: number; // after - before
+}
+
+export interface ResumeComparison {
+  sentences: SentenceDiffRow[];
+  metrics: MetricDelta[];
+  flagsAdded: string[];
+  flagsRemoved: string[];
+  flagsKept: string[];
 }
 
 export enum AppState {
   IDLE = 'IDLE',
   ANALYZING = 'ANALYZING',
   RESULTS = 'RESULTS',
+  BATCH = 'BATCH',
   ERROR = 'ERROR'
 }